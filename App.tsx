@@ -1,93 +1,137 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { User, UserRole, Question, Quiz, QuizStatus, Submission } from './types';
+import { User, UserRole, Group, StudentQuestion, Quiz, Attempt, QuizStatus, QuizLobby, Submission, AnswerValue, AnswerCheck, GradeResult, Language, Accommodations } from './types';
 import { MockBackend } from './services/mockBackend';
 import { formatTime, cn } from './utils';
-
-// --- Components ---
-
-const Button = ({ className, ...props }: React.ButtonHTMLAttributes<HTMLButtonElement>) => (
-  <button
-    className={cn(
-      "px-4 py-2 rounded-md font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2",
-      "bg-blue-600 text-white hover:bg-blue-700 focus:ring-blue-500",
-      "disabled:opacity-50 disabled:cursor-not-allowed",
-      className
-    )}
-    {...props}
-  />
-);
-
-const Input = ({ className, ...props }: React.InputHTMLAttributes<HTMLInputElement>) => (
-  <input
-    className={cn(
-      "w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500",
-      className
-    )}
-    {...props}
-  />
-);
-
-const Card = ({ children, className }: { children: React.ReactNode; className?: string }) => (
-  <div className={cn("bg-white shadow rounded-lg p-6", className)}>{children}</div>
-);
+import { Button, Input, Card } from './components/ui';
+import QuestionBank from './components/QuestionBank';
+import QuizBuilder from './components/QuizBuilder';
+import ProctorBoard from './components/ProctorBoard';
+import Analytics from './components/Analytics';
+import Reports from './components/Reports';
+import AnswerInput, { AnswerFeedback } from './components/AnswerInput';
+import QuizReview from './components/QuizReview';
+import LiveShowPlayer from './components/LiveShowPlayer';
+import LiveShowHost from './components/LiveShowHost';
+import AuditLog from './components/AuditLog';
+import ChangePassword from './components/ChangePassword';
+import AdminAccounts from './components/AdminAccounts';
+import StudentDirectory from './components/StudentDirectory';
+import Groups from './components/Groups';
+import GroupFilter from './components/GroupFilter';
+import StudentDashboard from './components/StudentDashboard';
+import Leaderboard from './components/Leaderboard';
+import LanguagePicker from './components/LanguagePicker';
+import RichText, { preloadImages } from './components/RichText';
+import { ROLE_LABELS, isStaff } from './services/auth';
+import { formatScore } from './services/scoring';
+import { questionSeconds } from './services/students';
+import { ATTEMPT_HEARTBEAT_MS, INTEGRITY_LABELS, watchIntegrity } from './services/proctoring';
+import {
+  QueuedAttempt,
+  isDeviceOnline,
+  onDeviceOnlineChange,
+  onOutboxChange,
+  queueAdvance,
+  queueAnswer,
+  queueSubmit,
+  queuedAttempts,
+  syncOutbox,
+} from './services/offline';
+import { DEFAULT_LANGUAGE, createTranslator, formatDateTime, loadDeviceLanguage, saveDeviceLanguage, translateError } from './services/i18n';
 
 // --- App ---
 
+// When the runner warns out loud that time is running short.
+const QUESTION_WARNING_SECONDS = 10;
+const TOTAL_WARNING_SECONDS = 60;
+
 export default function App() {
-  const [view, setView] = useState<'LOGIN_SELECT' | 'STUDENT_LOGIN' | 'STUDENT_REGISTER' | 'REGISTRATION_SUCCESS' | 'ADMIN_LOGIN' | 'STUDENT_LOBBY' | 'ADMIN_DASHBOARD'>('LOGIN_SELECT');
+  const [view, setView] = useState<'LOGIN_SELECT' | 'STUDENT_LOGIN' | 'STUDENT_REGISTER' | 'REGISTRATION_SUCCESS' | 'ADMIN_LOGIN' | 'CHANGE_PASSWORD' | 'STUDENT_LOBBY' | 'ADMIN_DASHBOARD'>('LOGIN_SELECT');
   const [user, setUser] = useState<User | null>(null);
+  // Student screens follow the student's language; staff screens stay in English
+  const [language, setLanguage] = useState<Language>(loadDeviceLanguage());
+  const t = createTranslator(language);
   
   // Registration State
   const [regName, setRegName] = useState('');
   const [regAge, setRegAge] = useState('');
   const [regVillage, setRegVillage] = useState('');
+  const [regPin, setRegPin] = useState('');
+  const [duplicateWarning, setDuplicateWarning] = useState(false);
   const [generatedCode, setGeneratedCode] = useState<string | null>(null);
 
   // Login State
   const [studentCode, setStudentCode] = useState('');
+  const [studentPin, setStudentPin] = useState('');
   const [adminUser, setAdminUser] = useState('');
   const [adminPass, setAdminPass] = useState('');
   const [error, setError] = useState('');
 
   // Quiz State
+  const [lobby, setLobby] = useState<QuizLobby | null>(null);
   const [activeQuiz, setActiveQuiz] = useState<Quiz | null>(null);
-  const [questions, setQuestions] = useState<Question[]>([]);
+  const [reviewQuizId, setReviewQuizId] = useState<string | null>(null);
+  const [liveQuizId, setLiveQuizId] = useState<string | null>(null);
+  const [showProgress, setShowProgress] = useState(false);
+  const [questions, setQuestions] = useState<StudentQuestion[]>([]);
   
   // Interactive Quiz State
   const [currentQIndex, setCurrentQIndex] = useState(0);
-  const [answers, setAnswers] = useState<Record<string, string>>({});
-  const [globalTimeLeft, setGlobalTimeLeft] = useState(0); // 10 mins total
-  const [questionTimeLeft, setQuestionTimeLeft] = useState(60); // 1 min per question
-  const [feedback, setFeedback] = useState<{selectedId: string, isCorrect: boolean} | null>(null);
+  const [answers, setAnswers] = useState<Record<string, AnswerValue>>({});
+  const [globalTimeLeft, setGlobalTimeLeft] = useState(0); // Until the attempt deadline
+  const [questionTimeLeft, setQuestionTimeLeft] = useState(0); // Quiz secondsPerQuestion, with any extra time
+  const [accommodations, setAccommodations] = useState<Accommodations>({}); // The running attempt's
+  const [questionTimedOut, setQuestionTimedOut] = useState(false); // Waiting for Next after the question's time ran out
+  const [timerAlert, setTimerAlert] = useState(''); // Read out by screen readers straight away
+  const questionHeading = useRef<HTMLDivElement>(null);
+  const [feedback, setFeedback] = useState<AnswerFeedback | null>(null);
   const [submitted, setSubmitted] = useState(false);
-  const [result, setResult] = useState<number | null>(null);
+  const [result, setResult] = useState<GradeResult | null>(null);
 
   // Admin Data
+  const [adminTab, setAdminTab] = useState<'OVERVIEW' | 'LIVE' | 'LIVE_SHOW' | 'ANALYTICS' | 'REPORTS' | 'STUDENTS' | 'GROUPS' | 'QUIZZES' | 'QUESTIONS' | 'LEADERBOARD' | 'ACCOUNTS' | 'AUDIT'>('OVERVIEW');
+  const [adminQuizzes, setAdminQuizzes] = useState<Quiz[]>([]);
+  const [resultsQuizId, setResultsQuizId] = useState<string | null>(null);
   const [students, setStudents] = useState<User[]>([]);
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [groupFilter, setGroupFilter] = useState('');
   const [submissions, setSubmissions] = useState<Submission[]>([]);
   const [onlineCount, setOnlineCount] = useState(0);
+  const [connectionStatus, setConnectionStatus] = useState(MockBackend.getConnectionStatus());
+  const [deviceOnline, setDeviceOnline] = useState(isDeviceOnline());
+  const [queued, setQueued] = useState<QueuedAttempt[]>([]); // This student's attempts waiting in the offline outbox
 
   // Refs for timers to avoid stale closures in intervals
   const submitRef = useRef(handleSubmitQuiz);
+  const quizClosedRef = useRef(handleQuizClosed);
+  const syncRef = useRef(syncQueued);
   
-  // Update ref
+  // Update refs
   useEffect(() => {
     submitRef.current = handleSubmitQuiz;
+    quizClosedRef.current = handleQuizClosed;
+    syncRef.current = syncQueued;
   });
 
   useEffect(() => {
     const cleanup = MockBackend.subscribeToEvents((event) => {
       if (event.type === 'QUIZ_PUBLISHED') {
         if (user?.role === UserRole.STUDENT) {
-          loadActiveQuiz();
+          loadLobby();
+        }
+        if (isStaff(user)) {
+          loadAdminData();
         }
       }
+      if (event.type === 'QUIZ_CLOSED') {
+        quizClosedRef.current(event.data);
+      }
       if (event.type === 'ONLINE_COUNT_UPDATE') {
         setOnlineCount(event.data);
       }
       if (event.type === 'SUBMISSION_RECEIVED') {
         // Refresh admin data if looking at dashboard
-        if (user?.role === UserRole.ADMIN) {
+        if (isStaff(user)) {
            loadAdminData();
         }
       }
@@ -95,10 +139,38 @@ export default function App() {
     return cleanup;
   }, [user]);
 
-  // Global Quiz Timer (10 mins)
+  useEffect(() => MockBackend.onConnectionStatusChange(setConnectionStatus), []);
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  useEffect(() => onDeviceOnlineChange(setDeviceOnline), []);
+
+  useEffect(() => {
+    if (user?.role !== UserRole.STUDENT) return;
+    const refresh = () => setQueued(queuedAttempts(user.id));
+    refresh();
+    return onOutboxChange(refresh);
+  }, [user]);
+
+  // Back online: send what this device queued while it was offline
+  useEffect(() => {
+    if (deviceOnline && user?.role === UserRole.STUDENT) syncRef.current();
+  }, [deviceOnline, user]);
+
+  // The backend ended our session (idle timeout, or the account was disabled): back to the login screen
+  useEffect(() => MockBackend.onSessionEnd(reason => {
+    const staff = isStaff(user);
+    handleLogout();
+    setView(staff ? 'ADMIN_LOGIN' : 'STUDENT_LOGIN');
+    setError(staff ? reason : translateError(t, reason));
+  }), [user]);
+
+  // Global Quiz Timer (durationMinutes)
   useEffect(() => {
     let timer: any;
-    if (activeQuiz && globalTimeLeft > 0 && !submitted && view === 'STUDENT_LOBBY') {
+    if (activeQuiz && !submitted && view === 'STUDENT_LOBBY') {
       timer = setInterval(() => {
         setGlobalTimeLeft((prev) => {
           if (prev <= 1) {
@@ -112,88 +184,211 @@ export default function App() {
     return () => clearInterval(timer);
   }, [activeQuiz, globalTimeLeft, submitted, view]);
 
-  // Question Timer (1 min)
+  // Proctoring: report integrity signals and keep the live board's heartbeat going
+  useEffect(() => {
+    if (!activeQuiz || submitted || !user || view !== 'STUDENT_LOBBY') return;
+    const stopWatching = watchIntegrity((kind, detail) => {
+      MockBackend.reportIntegrityEvent(activeQuiz.id, user.id, kind, detail).catch(() => {});
+    });
+    const ping = () => {
+      MockBackend.pingAttempt(activeQuiz.id, user.id, MockBackend.getConnectionStatus() === 'open').catch(() => {});
+    };
+    ping();
+    const heartbeat = setInterval(ping, ATTEMPT_HEARTBEAT_MS);
+    return () => {
+      stopWatching();
+      clearInterval(heartbeat);
+    };
+  }, [activeQuiz, submitted, user, view]);
+
+  // Question Timer (secondsPerQuestion)
   useEffect(() => {
     let timer: any;
-    if (activeQuiz && !submitted && view === 'STUDENT_LOBBY' && !feedback && questions.length > 0) {
+    if (activeQuiz && !submitted && view === 'STUDENT_LOBBY' && !feedback && !questionTimedOut && questions.length > 0) {
       // Only tick if not currently showing feedback animation
       timer = setInterval(() => {
         setQuestionTimeLeft((prev) => {
           if (prev <= 1) {
+            if (accommodations.noAutoAdvance) {
+              // The question closes, but the student moves on when ready
+              setQuestionTimedOut(true);
+              setTimerAlert(t('runner.questionTimeUp'));
+              return 0;
+            }
             handleNextQuestion(); // Auto skip question
-            return 60; 
+            return questionSeconds(activeQuiz, { accommodations });
           }
           return prev - 1;
         });
       }, 1000);
     }
     return () => clearInterval(timer);
-  }, [activeQuiz, submitted, view, feedback, currentQIndex, questions.length]);
+  }, [activeQuiz, submitted, view, feedback, questionTimedOut, accommodations, currentQIndex, questions.length]);
 
+  // Spoken time warnings; on screen, the timers turn red
+  useEffect(() => {
+    const limit = activeQuiz ? questionSeconds(activeQuiz, { accommodations }) : 0;
+    if (questionTimeLeft === QUESTION_WARNING_SECONDS && limit > QUESTION_WARNING_SECONDS && !feedback) {
+      setTimerAlert(t('runner.questionWarning', { seconds: QUESTION_WARNING_SECONDS }));
+    }
+  }, [questionTimeLeft]);
 
-  const loadActiveQuiz = async () => {
-    const quiz = await MockBackend.getActiveQuiz();
-    if (quiz) {
-      setActiveQuiz(quiz);
-      const allQs = await MockBackend.getQuestions();
-      // Ensure we get exactly 10 questions for the daily quiz logic
-      const quizQs = allQs.slice(0, 10); // Mock logic: take first 10
-      setQuestions(quizQs);
-      
-      // Setup Timers
-      if (quiz.publishedAt) {
-        // Reset local state for new quiz
-        setCurrentQIndex(0);
-        setAnswers({});
-        setFeedback(null);
-        setSubmitted(false);
-        setQuestionTimeLeft(60);
-        
-        // Calculate remaining global time
-        const elapsed = Math.floor((Date.now() - quiz.publishedAt) / 1000);
-        const remaining = (10 * 60) - elapsed; // 10 minutes hard limit
-        setGlobalTimeLeft(remaining > 0 ? remaining : 0);
+  useEffect(() => {
+    if (activeQuiz && !submitted && globalTimeLeft === TOTAL_WARNING_SECONDS) setTimerAlert(t('runner.totalWarning'));
+  }, [globalTimeLeft]);
+
+  // Each new question takes focus so screen readers read it out. A typed answer's
+  // field focuses itself and carries the question as its label.
+  useEffect(() => {
+    if (!(document.activeElement instanceof HTMLInputElement)) questionHeading.current?.focus();
+  }, [activeQuiz, currentQIndex]);
+
+
+  const loadLobby = async (studentId = user?.id) => {
+    if (!studentId) return;
+    try {
+      setLobby(await MockBackend.getStudentLobby(studentId));
+    } catch (err: any) {
+      setError(translateError(t, err.message));
+    }
+  };
+
+  // Shared by Start and resume: answers, position and both clocks come from the saved attempt
+  const enterAttempt = async (quiz: Quiz, attempt: Attempt, studentId: string) => {
+    // Exactly the questions the quiz references, in this student's order
+    const quizQs = await MockBackend.getQuizQuestions(quiz.id, studentId);
+    // Pictures come along now, so they still show if the connection drops mid-quiz
+    await preloadImages(quizQs.flatMap(q => [q.text, ...(q.options || []).map(o => o.text)])).catch(() => {});
+    const saved: Record<string, AnswerValue> = {};
+    attempt.answers.forEach(a => { saved[a.questionId] = a.value; });
+
+    let index = attempt.currentIndex;
+    const limit = questionSeconds(quiz, attempt);
+    let questionLeft = limit - Math.floor((Date.now() - attempt.questionStartedAt) / 1000);
+    // The current question was answered or ran out while we were away: move past it
+    if (index < quizQs.length && (saved[quizQs[index].id] !== undefined || questionLeft <= 0)) {
+      index += 1;
+      questionLeft = limit;
+      await MockBackend.advanceAttempt(quiz.id, studentId, index);
+    }
+
+    setQuestions(quizQs);
+    setCurrentQIndex(Math.min(index, Math.max(quizQs.length - 1, 0)));
+    setAnswers(saved);
+    setFeedback(null);
+    setResult(null);
+    setAccommodations(attempt.accommodations || {});
+    setQuestionTimedOut(false);
+    setTimerAlert('');
+    setQuestionTimeLeft(questionLeft);
+    setGlobalTimeLeft(Math.max(0, Math.floor((attempt.deadline - Date.now()) / 1000)));
+    setActiveQuiz(quiz);
+    setError('');
+
+    if (index >= quizQs.length) {
+      // Every question was done before the reload; only the submit was lost
+      setSubmitted(true);
+      const grade = await MockBackend.submitQuiz({ quizId: quiz.id, studentId, answers: attempt.answers });
+      setResult(grade);
+    } else {
+      setSubmitted(false);
+    }
+  };
+
+  const handleStartQuiz = async (quiz: Quiz) => {
+    if (!user) return;
+    // Must run inside the click, before any await; leaving fullscreen is then reported
+    document.documentElement.requestFullscreen?.().catch(() => {});
+    try {
+      // The clock starts now (or carries on, if already started), capped by the quiz's close time
+      const attempt = await MockBackend.startQuiz(quiz.id, user.id);
+      await enterAttempt(quiz, attempt, user.id);
+    } catch (err: any) {
+      setError(translateError(t, err.message));
+    }
+  };
+
+  const handleBackToLobby = () => {
+    if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+    setActiveQuiz(null);
+    setSubmitted(false);
+    setResult(null);
+    setQuestions([]);
+    loadLobby();
+  };
+
+  // The device's language until someone logs in; a student's choice also goes to
+  // the server, which sends their questions in it.
+  const chooseLanguage = async (next: Language) => {
+    setLanguage(next);
+    saveDeviceLanguage(next);
+    if (user?.role === UserRole.STUDENT) {
+      try {
+        setUser(await MockBackend.setStudentLanguage(user.id, next));
+      } catch {
+        // Kept on this device; the server copy is updated at the next login
       }
     }
   };
 
   const handleStudentLogin = async () => {
     try {
-      const u = await MockBackend.loginStudent(studentCode);
+      let u = await MockBackend.loginStudent(studentCode, studentPin);
+      // A saved preference wins; without one, whatever they picked on this device becomes it
+      if (u.language) {
+        setLanguage(u.language);
+        saveDeviceLanguage(u.language);
+      } else if (language !== DEFAULT_LANGUAGE) {
+        u = await MockBackend.setStudentLanguage(u.id, language);
+      }
       setUser(u);
+      setStudentPin('');
       setView('STUDENT_LOBBY');
-      loadActiveQuiz();
+      loadLobby(u.id);
       setError('');
+      // Answers this device saved offline go first, so a resume carries on from them
+      await syncOutbox(u.id, batch => MockBackend.syncOfflineAttempt(batch));
+      // Pick up a quiz left mid-way by a reload, crash or dropped connection
+      const resumable = await MockBackend.getResumableAttempt(u.id);
+      if (resumable) await enterAttempt(resumable.quiz, resumable.attempt, u.id);
     } catch (err: any) {
-      setError(err.message);
+      setError(translateError(t, err.message));
     }
   };
 
-  const handleStudentRegister = async () => {
+  // Asks for confirmation first if someone with the same name, age and village is already registered
+  const handleStudentRegister = async (confirmedDuplicate = false) => {
     try {
       if (!regName || !regAge || !regVillage) {
-        setError("All fields are required");
+        setError(t('register.allRequired'));
         return;
       }
       const ageNum = parseInt(regAge);
       if (isNaN(ageNum) || ageNum <= 0) {
-        setError("Please enter a valid age");
+        setError(t('register.invalidAge'));
+        return;
+      }
+
+      if (!confirmedDuplicate && await MockBackend.hasSimilarRegistration(regName, ageNum, regVillage)) {
+        setDuplicateWarning(true);
+        setError('');
         return;
       }
 
-      const newUser = await MockBackend.registerStudent(regName, ageNum, regVillage);
+      const newUser = await MockBackend.registerStudent(regName, ageNum, regVillage, regPin || undefined, language);
       setGeneratedCode(newUser.id);
+      setDuplicateWarning(false);
       setView('REGISTRATION_SUCCESS');
       setError('');
     } catch (err: any) {
-      setError(err.message);
+      setError(translateError(t, err.message));
     }
   };
 
   const copyCodeToClipboard = () => {
     if (generatedCode) {
       navigator.clipboard.writeText(generatedCode);
-      alert('Code copied to clipboard!');
+      alert(t('registered.copied'));
     }
   };
 
@@ -201,52 +396,116 @@ export default function App() {
     try {
       const u = await MockBackend.loginAdmin(adminUser, adminPass);
       setUser(u);
-      setView('ADMIN_DASHBOARD');
-      loadAdminData();
+      setAdminPass('');
+      setAdminTab('OVERVIEW');
       setError('');
+      if (u.mustChangePassword) {
+        setView('CHANGE_PASSWORD');
+      } else {
+        setView('ADMIN_DASHBOARD');
+        loadAdminData();
+      }
     } catch (err: any) {
       setError(err.message);
     }
   };
 
+  const handleLogout = () => {
+    MockBackend.logout();
+    setUser(null);
+    setAdminPass('');
+    setView('LOGIN_SELECT');
+    setSubmitted(false);
+    setActiveQuiz(null);
+    setReviewQuizId(null);
+    setLiveQuizId(null);
+    setShowProgress(false);
+  };
+
   const handleAdminKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') handleAdminLogin();
   };
 
+  // A refused call (a role without access, a session that just expired) shows its
+  // reason instead of leaving the dashboard half-loaded
   const loadAdminData = async () => {
-    const s = await MockBackend.getStudents();
-    setStudents(s);
-    
-    // Also fetch submissions to show scores
-    const quiz = await MockBackend.getActiveQuiz();
-    if (quiz) {
-      const subs = await MockBackend.getSubmissions(quiz.id);
-      setSubmissions(subs);
+    try {
+      const s = await MockBackend.getStudents();
+      setStudents(s);
+      setGroups(await MockBackend.getGroups());
+      
+      const quizzes = await MockBackend.getQuizzes();
+      setAdminQuizzes(quizzes);
+      
+      // Also fetch submissions to show scores, defaulting to the most recently opened quiz
+      const published = quizzes.filter(q => q.publishedAt).sort((a, b) => b.publishedAt! - a.publishedAt!);
+      const quizId = resultsQuizId && quizzes.some(q => q.id === resultsQuizId) ? resultsQuizId : published[0]?.id;
+      setResultsQuizId(quizId || null);
+      setSubmissions(quizId ? await MockBackend.getSubmissions(quizId) : []);
+      setError('');
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleResultsQuizChange = async (quizId: string) => {
+    setResultsQuizId(quizId);
+    try {
+      setSubmissions(await MockBackend.getSubmissions(quizId));
+    } catch (err: any) {
+      setError(err.message);
     }
   };
 
   // Student Interaction
-  const handleOptionClick = (questionId: string, optionId: string) => {
-    if (feedback) return; // Prevent clicking during transition
-    
-    const currentQ = questions[currentQIndex];
-    const isCorrect = optionId === currentQ.correctAnswer;
+  const handleAnswer = async (questionId: string, value: AnswerValue) => {
+    if (feedback || !activeQuiz) return; // Prevent clicking during transition
     
     // Record Answer
-    setAnswers(prev => ({ ...prev, [questionId]: optionId }));
+    setAnswers(prev => ({ ...prev, [questionId]: value }));
+    setFeedback({ value, pending: true });
     
-    // Immediate Feedback
-    setFeedback({ selectedId: optionId, isCorrect });
+    // Immediate Feedback: the answer key lives on the server, which also saves the answer
+    let check: AnswerCheck = {};
+    try {
+      check = await MockBackend.answerQuestion(activeQuiz.id, user!.id, questionId, value);
+    } catch (err: any) {
+      // The answer waits in the outbox with the time it was given; the server checks
+      // that time against the question's own window when it arrives. Online, it is
+      // sent again straight away and the student sees why the first try failed.
+      queueAnswer(activeQuiz.id, user!.id, questionId, value);
+      queueAdvance(activeQuiz.id, user!.id, currentQIndex);
+      if (isDeviceOnline()) {
+        setError(translateError(t, err.message));
+        syncRef.current();
+      }
+    }
+    setFeedback({ value, pending: false, ...check });
+
+    // Students who need longer with the feedback move on with the Next button
+    if (accommodations.noAutoAdvance) return;
     
-    // Wait then move next
+    // Wait then move next; a little longer when there is a right answer to read
     setTimeout(() => {
       handleNextQuestion();
-    }, 1000); // 1 second delay to see color
+    }, check.correctAnswer ? 2500 : 1000);
   };
 
   const handleNextQuestion = () => {
     setFeedback(null);
-    setQuestionTimeLeft(60); // Reset Q timer
+    setError('');
+    setQuestionTimedOut(false);
+    setTimerAlert('');
+    setQuestionTimeLeft(activeQuiz ? questionSeconds(activeQuiz, { accommodations }) : 0); // Reset Q timer
+    if (activeQuiz && user) {
+      // Saved so a resume lands on the right question; the local run carries on regardless
+      const quizId = activeQuiz.id;
+      const studentId = user.id;
+      const toIndex = currentQIndex + 1;
+      MockBackend.advanceAttempt(quizId, studentId, toIndex).catch(() => {
+        if (!isDeviceOnline()) queueAdvance(quizId, studentId, toIndex);
+      });
+    }
     
     if (currentQIndex < questions.length - 1) {
       setCurrentQIndex(prev => prev + 1);
@@ -261,28 +520,54 @@ export default function App() {
     if (!user || !activeQuiz || submitted) return;
     setSubmitted(true);
     
-    const submission: Submission = {
-      quizId: activeQuiz.id,
-      studentId: user.id,
-      answers: Object.entries(answers).map(([k, v]) => ({ questionId: k, value: v })),
-      score: 0,
-      totalQuestions: questions.length,
-      submittedAt: Date.now(),
-    };
+    // Only raw answers are sent; the backend grades them
+    try {
+      const grade = await MockBackend.submitQuiz({
+        quizId: activeQuiz.id,
+        studentId: user.id,
+        answers: Object.entries(answers).map(([k, v]) => ({ questionId: k, value: v as AnswerValue })),
+      });
+      setResult(grade);
+    } catch (err: any) {
+      // Offline, the submit waits in the outbox and the grade arrives once it is sent
+      if (isDeviceOnline()) setError(translateError(t, err.message));
+      else queueSubmit(activeQuiz.id, user.id);
+    }
+  }
 
-    const score = MockBackend.calculateScore(questions, submission.answers);
-    submission.score = score;
-    setResult(score);
+  // Sends the offline outbox. The quiz on screen gets its grade; a quiz the server
+  // refused to take answers for says why.
+  async function syncQueued() {
+    if (user?.role !== UserRole.STUDENT) return;
+    const results = await syncOutbox(user.id, batch => MockBackend.syncOfflineAttempt(batch));
+    if (results.length === 0) return;
+    const onScreen = results.find(r => r.quizId === activeQuiz?.id);
+    if (onScreen?.grade && submitted) setResult(onScreen.grade);
+    const refused = results.find(r => r.refused && !r.grade);
+    if (refused) setError(translateError(t, refused.refused!));
+    loadLobby();
+  }
 
-    await MockBackend.submitQuiz(submission);
+  // The quiz was closed (on schedule or by the admin) while this client was connected
+  function handleQuizClosed(quizId: string) {
+    if (isStaff(user)) {
+      loadAdminData();
+    } else if (activeQuiz?.id === quizId && !submitted) {
+      handleSubmitQuiz();
+    } else if (user?.role === UserRole.STUDENT) {
+      loadLobby();
+    }
   }
 
   // Helper to get student score for admin view
   const getStudentScore = (studentId: string) => {
     const sub = submissions.find(s => s.studentId === studentId);
-    return sub ? `${sub.score}/${sub.totalQuestions}` : '-';
+    return sub ? formatScore(sub) : '-';
   };
 
+  const getStudentFlags = (studentId: string) =>
+    submissions.find(s => s.studentId === studentId)?.integrityEvents || [];
+
   // --- Views ---
 
   if (view === 'LOGIN_SELECT') {
@@ -290,11 +575,12 @@ export default function App() {
       <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
         <Card className="max-w-md w-full text-center space-y-6">
           <h1 className="text-3xl font-bold text-blue-900">QuizMaster Pro</h1>
-          <p className="text-gray-600">Select your portal to continue</p>
+          <LanguagePicker value={language} onChange={chooseLanguage} />
+          <p className="text-gray-600">{t('select.subtitle')}</p>
           <div className="space-y-3">
-            <Button onClick={() => setView('STUDENT_LOGIN')} className="w-full text-lg py-3">Student Login</Button>
-            <Button onClick={() => setView('STUDENT_REGISTER')} className="w-full text-lg py-3 bg-green-600 hover:bg-green-700">New Student Registration</Button>
-            <Button onClick={() => setView('ADMIN_LOGIN')} className="w-full bg-gray-700 hover:bg-gray-800">Admin Portal</Button>
+            <Button onClick={() => setView('STUDENT_LOGIN')} className="w-full text-lg py-3">{t('select.studentLogin')}</Button>
+            <Button onClick={() => setView('STUDENT_REGISTER')} className="w-full text-lg py-3 bg-green-600 hover:bg-green-700">{t('select.register')}</Button>
+            <Button onClick={() => setView('ADMIN_LOGIN')} className="w-full bg-gray-700 hover:bg-gray-800">{t('select.admin')}</Button>
           </div>
         </Card>
       </div>
@@ -305,40 +591,60 @@ export default function App() {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
         <Card className="max-w-md w-full space-y-6">
-          <h2 className="text-2xl font-bold text-center">Student Registration</h2>
-          <p className="text-sm text-gray-500 text-center">Enter your details to generate your Student Code.</p>
+          <h2 className="text-2xl font-bold text-center">{t('register.title')}</h2>
+          <p className="text-sm text-gray-500 text-center">{t('register.intro')}</p>
           {error && <div className="p-3 bg-red-100 text-red-700 rounded">{error}</div>}
           <div className="space-y-4">
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">Full Name</label>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('register.name')}</label>
               <Input 
                 value={regName} 
                 onChange={e => setRegName(e.target.value)} 
-                placeholder="e.g. John Doe" 
+                placeholder={t('register.namePlaceholder')}
                 className="bg-gray-700 text-white placeholder-gray-400 border-gray-600 focus:ring-blue-400 focus:border-blue-400"
               />
             </div>
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">Age</label>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('register.age')}</label>
               <Input 
                 type="number" 
                 value={regAge} 
                 onChange={e => setRegAge(e.target.value)} 
-                placeholder="e.g. 18" 
+                placeholder={t('register.agePlaceholder')}
                 className="bg-gray-700 text-white placeholder-gray-400 border-gray-600 focus:ring-blue-400 focus:border-blue-400"
               />
             </div>
              <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">Village</label>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('register.village')}</label>
               <Input 
                 value={regVillage} 
                 onChange={e => setRegVillage(e.target.value)} 
-                placeholder="e.g. Smallville" 
+                placeholder={t('register.villagePlaceholder')}
                 className="bg-gray-700 text-white placeholder-gray-400 border-gray-600 focus:ring-blue-400 focus:border-blue-400"
               />
             </div>
-            <Button onClick={handleStudentRegister} className="w-full">Register & Get Code</Button>
-            <button onClick={() => setView('LOGIN_SELECT')} className="w-full text-sm text-gray-600 hover:underline">Cancel</button>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('register.pin')}</label>
+              <Input 
+                type="password" 
+                inputMode="numeric" 
+                value={regPin} 
+                onChange={e => setRegPin(e.target.value.replace(/\D/g, '').slice(0, 6))} 
+                placeholder={t('register.pinPlaceholder')}
+                className="bg-gray-700 text-white placeholder-gray-400 border-gray-600 focus:ring-blue-400 focus:border-blue-400"
+              />
+              <p className="text-xs text-gray-500 mt-1">{t('register.pinHint')}</p>
+            </div>
+            {duplicateWarning && (
+              <div className="p-3 bg-yellow-50 border border-yellow-200 text-yellow-800 rounded text-sm space-y-2">
+                <p>{t('register.duplicate', { name: regName.trim(), age: regAge, village: regVillage.trim() })}</p>
+                <button onClick={() => handleStudentRegister(true)} className="font-medium underline">
+                  {t('register.registerAnyway')}
+                </button>
+              </div>
+            )}
+            <Button onClick={() => handleStudentRegister()} className="w-full">{t('register.submit')}</Button>
+            <button onClick={() => setView('LOGIN_SELECT')} className="w-full text-sm text-gray-600 hover:underline">{t('common.cancel')}</button>
           </div>
         </Card>
       </div>
@@ -352,23 +658,23 @@ export default function App() {
           <div className="w-16 h-16 bg-green-100 rounded-full flex items-center justify-center mx-auto">
             <svg className="w-8 h-8 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" /></svg>
           </div>
-          <h2 className="text-2xl font-bold text-green-700">Registration Successful!</h2>
-          <p className="text-gray-600">Your unique Student Code is:</p>
+          <h2 className="text-2xl font-bold text-green-700">{t('registered.title')}</h2>
+          <p className="text-gray-600">{t('registered.yourCode')}</p>
           
           <div className="bg-gray-100 p-4 rounded-lg border-2 border-dashed border-gray-300">
              <div className="text-4xl font-mono font-bold text-blue-800 tracking-wider">{generatedCode}</div>
           </div>
           
           <Button onClick={copyCodeToClipboard} className="w-full bg-gray-600 hover:bg-gray-700">
-             Copy Code
+             {t('registered.copy')}
           </Button>
           
           <div className="text-sm text-gray-500">
-            Please save this code. You will need it to login.
+            {regPin ? t('registered.saveCodeAndPin') : t('registered.saveCode')}
           </div>
 
-          <Button onClick={() => { setStudentCode(generatedCode || ''); setView('STUDENT_LOGIN'); }} className="w-full">
-            Proceed to Login
+          <Button onClick={() => { setStudentCode(generatedCode || ''); setRegPin(''); setView('STUDENT_LOGIN'); }} className="w-full">
+            {t('registered.proceed')}
           </Button>
         </Card>
       </div>
@@ -379,24 +685,34 @@ export default function App() {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
         <Card className="max-w-md w-full space-y-6">
-          <h2 className="text-2xl font-bold text-center">Student Login</h2>
+          <h2 className="text-2xl font-bold text-center">{t('login.title')}</h2>
           {error && <div className="p-3 bg-red-100 text-red-700 rounded">{error}</div>}
           <div className="space-y-4">
             <div>
-              <label className="block text-sm font-medium text-gray-700">Student Code</label>
+              <label className="block text-sm font-medium text-gray-700">{t('login.code')}</label>
               <Input 
                 value={studentCode} 
                 onChange={e => setStudentCode(e.target.value.toUpperCase())} 
-                placeholder="e.g. A01" 
+                placeholder={t('login.codePlaceholder')}
                 className="text-center text-xl uppercase placeholder:normal-case"
               />
             </div>
-            <Button onClick={handleStudentLogin} className="w-full">Login</Button>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">{t('login.pin')} <span className="text-gray-400 font-normal">{t('login.pinHint')}</span></label>
+              <Input 
+                type="password" 
+                inputMode="numeric" 
+                value={studentPin} 
+                onChange={e => setStudentPin(e.target.value.replace(/\D/g, '').slice(0, 6))} 
+                className="text-center text-xl"
+              />
+            </div>
+            <Button onClick={handleStudentLogin} className="w-full">{t('login.submit')}</Button>
             <div className="text-center">
-               <span className="text-sm text-gray-600">Don't have a code? </span>
-               <button onClick={() => setView('STUDENT_REGISTER')} className="text-sm text-blue-600 hover:underline">Register here</button>
+               <span className="text-sm text-gray-600">{t('login.noCode')} </span>
+               <button onClick={() => setView('STUDENT_REGISTER')} className="text-sm text-blue-600 hover:underline">{t('login.registerHere')}</button>
             </div>
-            <button onClick={() => setView('LOGIN_SELECT')} className="w-full text-sm text-gray-600 hover:underline">Back</button>
+            <button onClick={() => setView('LOGIN_SELECT')} className="w-full text-sm text-gray-600 hover:underline">{t('common.back')}</button>
           </div>
         </Card>
       </div>
@@ -407,34 +723,75 @@ export default function App() {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
         <Card className="max-w-md w-full space-y-6">
-          <h2 className="text-2xl font-bold text-center">Admin Login</h2>
+          <h2 className="text-2xl font-bold text-center">{t('admin.title')}</h2>
           {error && <div className="p-3 bg-red-100 text-red-700 rounded">{error}</div>}
           <div className="space-y-4">
             <Input 
               value={adminUser} 
               onChange={e => setAdminUser(e.target.value)} 
-              placeholder="Admin Username" 
+              placeholder={t('admin.username')}
               onKeyDown={handleAdminKeyDown}
             />
             <Input 
               type="password" 
               value={adminPass} 
               onChange={e => setAdminPass(e.target.value)} 
-              placeholder="Passcode" 
+              placeholder={t('admin.password')}
               onKeyDown={handleAdminKeyDown}
             />
-            <Button onClick={handleAdminLogin} className="w-full bg-gray-800 hover:bg-gray-900">Enter</Button>
-            <div className="text-center text-xs text-gray-400">
-              Default: admin / password
-            </div>
-            <button onClick={() => setView('LOGIN_SELECT')} className="w-full text-sm text-gray-600 hover:underline">Back</button>
+            <Button onClick={handleAdminLogin} className="w-full bg-gray-800 hover:bg-gray-900">{t('admin.enter')}</Button>
+            <button onClick={() => setView('LOGIN_SELECT')} className="w-full text-sm text-gray-600 hover:underline">{t('common.back')}</button>
           </div>
         </Card>
       </div>
     );
   }
 
+  if (view === 'CHANGE_PASSWORD' && user) {
+    return (
+      <ChangePassword
+        forced={user.mustChangePassword}
+        onChanged={u => {
+          setUser(u);
+          setView('ADMIN_DASHBOARD');
+          loadAdminData();
+        }}
+        onCancel={user.mustChangePassword ? handleLogout : () => setView('ADMIN_DASHBOARD')}
+      />
+    );
+  }
+
   if (view === 'STUDENT_LOBBY') {
+    if (!activeQuiz && reviewQuizId && user) {
+      return <QuizReview quizId={reviewQuizId} studentId={user.id} onClose={() => setReviewQuizId(null)} t={t} />;
+    }
+
+    if (!activeQuiz && liveQuizId && user) {
+      return (
+        <LiveShowPlayer
+          quizId={liveQuizId}
+          studentId={user.id}
+          onClose={() => {
+            setLiveQuizId(null);
+            loadLobby();
+          }}
+          t={t}
+        />
+      );
+    }
+
+    if (!activeQuiz && showProgress && user) {
+      return (
+        <StudentDashboard
+          studentId={user.id}
+          onReview={setReviewQuizId}
+          onClose={() => setShowProgress(false)}
+          language={language}
+          t={t}
+        />
+      );
+    }
+
     if (!activeQuiz) {
       return (
         <div className="min-h-screen bg-gray-50 flex flex-col items-center justify-center p-4">
@@ -442,18 +799,90 @@ export default function App() {
             <div className="flex justify-between items-center border-b pb-4">
                <div>
                  <h2 className="text-xl font-bold">{user?.name}</h2>
-                 <p className="text-sm text-gray-500">Code: {user?.id}</p>
+                 <p className="text-sm text-gray-500">{t('lobby.code', { code: user?.id || '' })}</p>
                </div>
                <div className="flex items-center gap-2">
-                 <span className="w-3 h-3 bg-green-500 rounded-full animate-pulse"></span>
-                 <span className="text-sm font-medium">Online</span>
+                 <span className={cn("w-3 h-3 rounded-full", !deviceOnline ? "bg-red-500" : connectionStatus === 'open' ? "bg-green-500 animate-pulse" : connectionStatus === 'connecting' ? "bg-yellow-400" : "bg-red-500")}></span>
+                 <span className="text-sm font-medium">
+                   {!deviceOnline ? t('status.offline') : connectionStatus === 'open' ? t('status.online') : connectionStatus === 'connecting' ? t('status.connecting') : t('status.offline')}
+                 </span>
                </div>
             </div>
-            <div className="py-12">
-              <h3 className="text-2xl font-light text-gray-600">Waiting for today's quiz...</h3>
-              <p className="mt-2 text-gray-500">Please stay on this page.</p>
+            {error && <div className="p-3 bg-red-100 text-red-700 rounded">{error}</div>}
+            {queued.length > 0 && (
+              <div className="p-3 bg-yellow-50 text-yellow-800 rounded text-sm">
+                {queued.length === 1 ? t('lobby.queuedOne') : t('lobby.queuedMany', { count: queued.length })}
+              </div>
+            )}
+            {!lobby || (lobby.open.length === 0 && lobby.upcoming.length === 0 && lobby.reviewable.length === 0) ? (
+              <div className="py-12">
+                <h3 className="text-2xl font-light text-gray-600">{t('lobby.waiting')}</h3>
+                <p className="mt-2 text-gray-500">{t('lobby.stay')}</p>
+              </div>
+            ) : (
+              <div className="space-y-6 text-left">
+                <div>
+                  <h3 className="text-sm font-bold text-gray-500 uppercase mb-2">{t('lobby.available')}</h3>
+                  {lobby.open.length === 0 && <p className="text-sm text-gray-500">{t('lobby.nothingOpen')}</p>}
+                  <div className="space-y-2">
+                    {lobby.open.map(quiz => {
+                      const completed = lobby.completedQuizIds.includes(quiz.id);
+                      return (
+                        <div key={quiz.id} className="flex justify-between items-center p-3 border rounded-lg">
+                          <div>
+                            <div className="font-medium">{quiz.title}</div>
+                            <div className="text-xs text-gray-500">
+                              {quiz.live
+                                ? t('lobby.liveInfo', { questions: quiz.questionIds.length })
+                                : t('lobby.quizInfo', { questions: quiz.questionIds.length, minutes: quiz.durationMinutes })}
+                              {quiz.closesAt && ` · ${t('lobby.closes', { time: formatDateTime(language, quiz.closesAt) })}`}
+                            </div>
+                          </div>
+                          {completed ? (
+                            <span className="text-sm font-medium text-green-700">{t('lobby.completed')}</span>
+                          ) : quiz.live ? (
+                            <Button onClick={() => setLiveQuizId(quiz.id)} className="bg-purple-600 hover:bg-purple-700">{t('lobby.joinLive')}</Button>
+                          ) : (
+                            <Button onClick={() => handleStartQuiz(quiz)}>{t('lobby.start')}</Button>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+                {lobby.upcoming.length > 0 && (
+                  <div>
+                    <h3 className="text-sm font-bold text-gray-500 uppercase mb-2">{t('lobby.comingUp')}</h3>
+                    <div className="space-y-2">
+                      {lobby.upcoming.map(quiz => (
+                        <div key={quiz.id} className="p-3 border rounded-lg bg-gray-50">
+                          <div className="font-medium text-gray-700">{quiz.title}</div>
+                          <div className="text-xs text-gray-500">{t('lobby.opens', { time: formatDateTime(language, quiz.opensAt!) })}</div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                {lobby.reviewable.length > 0 && (
+                  <div>
+                    <h3 className="text-sm font-bold text-gray-500 uppercase mb-2">{t('lobby.reviewAnswers')}</h3>
+                    <div className="space-y-2">
+                      {lobby.reviewable.map(quiz => (
+                        <div key={quiz.id} className="flex justify-between items-center p-3 border rounded-lg">
+                          <div className="font-medium">{quiz.title}</div>
+                          <Button onClick={() => setReviewQuizId(quiz.id)} className="bg-gray-700 hover:bg-gray-800">{t('common.review')}</Button>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+            <div className="flex justify-center gap-2">
+              <Button onClick={() => setShowProgress(true)} className="bg-gray-700 hover:bg-gray-800">{t('lobby.progress')}</Button>
+              <Button onClick={handleLogout} className="bg-red-100 text-red-700 hover:bg-red-200">{t('common.logout')}</Button>
             </div>
-            <Button onClick={() => { setUser(null); setView('LOGIN_SELECT'); }} className="bg-red-100 text-red-700 hover:bg-red-200">Logout</Button>
+            <LanguagePicker value={language} onChange={chooseLanguage} />
           </Card>
         </div>
       );
@@ -464,11 +893,38 @@ export default function App() {
       return (
         <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
           <Card className="max-w-lg w-full text-center space-y-6">
-             <h2 className="text-3xl font-bold text-green-600">Quiz Completed!</h2>
-             <p className="text-lg">You scored</p>
-             <div className="text-6xl font-bold text-blue-600">{result} <span className="text-2xl text-gray-400">/ {questions.length}</span></div>
-             <p className="text-gray-500">{(result! / questions.length * 100).toFixed(1)}%</p>
-             <Button onClick={() => { setUser(null); setView('LOGIN_SELECT'); setSubmitted(false); setActiveQuiz(null); }} className="mt-4">Logout</Button>
+             <h2 className="text-3xl font-bold text-green-600">{t('result.title')}</h2>
+             <p className="text-lg">{t('result.youScored')}</p>
+             {error ? (
+               <div className="p-3 bg-red-100 text-red-700 rounded">{error}</div>
+             ) : result === null && queued.some(q => q.quizId === activeQuiz.id && q.submittedAt !== undefined) ? (
+               <div className="p-3 bg-yellow-50 text-yellow-800 rounded">
+                 {t('result.offline')}
+               </div>
+             ) : result === null ? (
+               <div className="text-xl text-gray-500">{t('result.grading')}</div>
+             ) : (
+               <>
+                 <div className="text-6xl font-bold text-blue-600">{result.score} <span className="text-2xl text-gray-400">{t('result.points', { max: result.maxScore })}</span></div>
+                 <p className="text-gray-500">{result.percent}%</p>
+                 {result.passed !== undefined && (
+                   <p className={cn("text-2xl font-bold", result.passed ? "text-green-600" : "text-red-600")}>
+                     {result.passed ? t('result.passed') : t('result.notPassed')}
+                   </p>
+                 )}
+                 {activeQuiz.reviewAfterClose && (
+                   <p className="text-sm text-gray-500">
+                     {activeQuiz.closesAt
+                       ? t('result.reviewLaterAt', { time: formatDateTime(language, activeQuiz.closesAt) })
+                       : t('result.reviewLater')}
+                   </p>
+                 )}
+               </>
+             )}
+             <div className="flex gap-3 justify-center mt-4">
+               <Button onClick={handleBackToLobby} className="bg-gray-200 text-gray-800 hover:bg-gray-300">{t('common.backToLobby')}</Button>
+               <Button onClick={handleLogout}>{t('common.logout')}</Button>
+             </div>
           </Card>
         </div>
       );
@@ -478,7 +934,7 @@ export default function App() {
     if (questions.length === 0) {
       return (
         <div className="min-h-screen bg-white flex items-center justify-center">
-          <div className="text-xl text-gray-500">Loading questions...</div>
+          <div className="text-xl text-gray-500">{t('runner.loading')}</div>
         </div>
       );
     }
@@ -488,66 +944,63 @@ export default function App() {
 
     // Extra safety check in case currentQIndex is out of bounds or question undefined
     if (!currentQ) {
-       return <div className="min-h-screen flex items-center justify-center text-red-500">Error: Question not found.</div>;
+       return <div className="min-h-screen flex items-center justify-center text-red-500">{t('runner.notFound')}</div>;
     }
 
     return (
       <div className="min-h-screen bg-white pb-20">
         <header className="sticky top-0 bg-white border-b shadow-sm z-10">
           <div className="max-w-3xl mx-auto px-4 py-4 flex justify-between items-center">
-             <h1 className="font-bold text-lg truncate">{activeQuiz.title}</h1>
+             <div className="min-w-0">
+               <h1 className="font-bold text-lg truncate">{activeQuiz.title}</h1>
+               <p className="text-xs text-gray-500">{t('runner.proctored')}</p>
+             </div>
              <div className="flex items-center gap-4">
                {/* Global Timer */}
-               <div className={cn("text-lg font-mono font-bold px-3 py-1 rounded border", globalTimeLeft < 60 ? "bg-red-100 text-red-600 border-red-200" : "bg-gray-50 border-gray-200")}>
-                 Total: {formatTime(globalTimeLeft)}
+               <div className={cn("text-lg font-mono font-bold px-3 py-1 rounded border", globalTimeLeft < TOTAL_WARNING_SECONDS ? "bg-red-100 text-red-600 border-red-200" : "bg-gray-50 border-gray-200")}>
+                 {globalTimeLeft < TOTAL_WARNING_SECONDS && '⚠ '}{t('runner.total', { time: formatTime(globalTimeLeft) })}
                </div>
              </div>
           </div>
+          {!deviceOnline && (
+            <div className="bg-yellow-50 text-yellow-800 text-sm text-center px-4 py-2">
+              {t('runner.offline')}
+            </div>
+          )}
         </header>
         
         <main className="max-w-3xl mx-auto px-4 py-8 space-y-8">
            <div className="flex justify-between items-center mb-4">
-              <span className="text-sm text-gray-500">Question {currentQIndex + 1} of {questions.length}</span>
+              <span className="text-sm text-gray-500">{t('runner.questionOf', { current: currentQIndex + 1, total: questions.length })}</span>
               {/* Question Timer */}
-              <span className={cn("text-sm font-medium", questionTimeLeft < 10 ? "text-red-600 animate-pulse" : "text-gray-600")}>
-                Question Time: {questionTimeLeft}s
+              <span className={cn("text-sm font-medium", questionTimeLeft < QUESTION_WARNING_SECONDS ? "text-red-600 animate-pulse" : "text-gray-600")}>
+                {questionTimeLeft < QUESTION_WARNING_SECONDS && '⚠ '}{t('runner.questionTime', { seconds: questionTimeLeft })}
               </span>
            </div>
+           <div role="alert" className="sr-only">{timerAlert}</div>
+           {error && <div role="alert" className="p-3 bg-red-100 text-red-700 rounded">{error}</div>}
 
            <div key={currentQ.id} className="bg-white border rounded-lg p-6 shadow-sm space-y-6">
-              <p className="text-xl font-medium">{currentQ.text}</p>
-              
-              <div className="grid grid-cols-1 gap-3">
-                {currentQ.options?.map(opt => {
-                  let btnClass = "border-gray-300 hover:bg-gray-50";
-                  
-                  // Apply Styling based on feedback state
-                  if (feedback) {
-                    if (opt.id === feedback.selectedId) {
-                      if (feedback.isCorrect) btnClass = "bg-green-500 text-white border-green-600";
-                      else btnClass = "bg-red-500 text-white border-red-600";
-                    } else if (opt.id === currentQ.correctAnswer && !feedback.isCorrect) {
-                       // Optional: Show correct answer if they got it wrong? 
-                       // Prompt didn't explicitly say to show correct if wrong, just red/green on selection.
-                       // keeping it simple to user selection.
-                    }
-                  }
-
-                  return (
-                    <button
-                      key={opt.id}
-                      onClick={() => handleOptionClick(currentQ.id, opt.id)}
-                      disabled={!!feedback} // Disable clicks after selection
-                      className={cn(
-                        "w-full text-left p-4 border rounded-lg transition-all duration-200",
-                        btnClass
-                      )}
-                    >
-                      <span className="font-bold mr-2">{opt.id.toUpperCase()}.</span> {opt.text}
-                    </button>
-                  );
-                })}
+              <div ref={questionHeading} tabIndex={-1} role="heading" aria-level={2} className="text-xl font-medium focus:outline-none">
+                <RichText content={currentQ.text} />
               </div>
+              
+              <AnswerInput
+                question={currentQ}
+                feedback={feedback}
+                onAnswer={(value: AnswerValue) => handleAnswer(currentQ.id, value)}
+                disabled={questionTimedOut}
+                t={t}
+              />
+
+              {questionTimedOut && (
+                <p className="p-3 rounded-lg border bg-gray-100 text-center font-medium">⏱ {t('runner.questionTimeUp')}</p>
+              )}
+              {accommodations.noAutoAdvance && ((feedback && !feedback.pending) || questionTimedOut) && (
+                <Button onClick={handleNextQuestion} autoFocus className="w-full">
+                  {currentQIndex < questions.length - 1 ? t('runner.next') : t('runner.finish')}
+                </Button>
+              )}
            </div>
         </main>
       </div>
@@ -555,6 +1008,25 @@ export default function App() {
   }
 
   if (view === 'ADMIN_DASHBOARD') {
+    // Proctors only monitor and look students up; teachers get everything but staff accounts and backups
+    const canManage = user?.role === UserRole.OWNER || user?.role === UserRole.TEACHER;
+    const groupMembers = groups.find(g => g.id === groupFilter)?.studentIds;
+    const shownStudents = groupMembers ? students.filter(s => groupMembers.includes(s.id)) : students;
+    const tabs = ([
+      ['OVERVIEW', 'Overview', true],
+      ['LIVE', 'Live Monitor', true],
+      ['LIVE_SHOW', 'Quiz Show', canManage],
+      ['STUDENTS', 'Students', true],
+      ['GROUPS', 'Classes & Groups', canManage],
+      ['ANALYTICS', 'Analytics', canManage],
+      ['REPORTS', user?.role === UserRole.OWNER ? 'Reports & Backup' : 'Reports', canManage],
+      ['QUIZZES', 'Quizzes', canManage],
+      ['QUESTIONS', 'Question Bank', canManage],
+      ['LEADERBOARD', 'Leaderboard', true],
+      ['ACCOUNTS', 'Staff Accounts', user?.role === UserRole.OWNER],
+      ['AUDIT', 'Audit Log', user?.role === UserRole.OWNER],
+    ] as const).filter(([, , allowed]) => allowed);
+
     return (
       <div className="min-h-screen bg-gray-100">
         <header className="bg-white shadow">
@@ -564,52 +1036,87 @@ export default function App() {
               <span className="bg-blue-100 text-blue-800 px-3 py-1 rounded-full text-sm font-medium">
                 Active Users: {onlineCount}
               </span>
-              <Button onClick={() => { setUser(null); setView('LOGIN_SELECT'); }} className="bg-gray-200 text-gray-800 hover:bg-gray-300">Logout</Button>
+              <span className="text-sm text-gray-600">
+                {user?.name} · {user && ROLE_LABELS[user.role]}
+              </span>
+              <button onClick={() => setView('CHANGE_PASSWORD')} className="text-sm text-blue-600 hover:underline">
+                Change password
+              </button>
+              <Button onClick={handleLogout} className="bg-gray-200 text-gray-800 hover:bg-gray-300">Logout</Button>
             </div>
           </div>
         </header>
 
+        <nav className="bg-white border-b">
+          <div className="max-w-7xl mx-auto px-4 flex gap-6">
+            {tabs.map(([tab, label]) => (
+              <button
+                key={tab}
+                onClick={() => setAdminTab(tab)}
+                className={cn("py-3 text-sm font-medium border-b-2", adminTab === tab ? "border-blue-600 text-blue-600" : "border-transparent text-gray-500 hover:text-gray-700")}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </nav>
+
         <main className="max-w-7xl mx-auto px-4 py-8 space-y-6">
+          {error && <div className="p-3 bg-red-100 text-red-700 rounded">{error}</div>}
+          {adminTab === 'QUIZZES' && <QuizBuilder onPublished={loadAdminData} />}
+          {adminTab === 'QUESTIONS' && <QuestionBank />}
+          {adminTab === 'LIVE' && <ProctorBoard />}
+          {adminTab === 'LIVE_SHOW' && <LiveShowHost />}
+          {adminTab === 'STUDENTS' && <StudentDirectory canManage={canManage} />}
+          {adminTab === 'GROUPS' && <Groups onChanged={loadAdminData} />}
+          {adminTab === 'ANALYTICS' && <Analytics />}
+          {adminTab === 'REPORTS' && <Reports canBackup={user?.role === UserRole.OWNER} onRestored={loadAdminData} />}
+          {adminTab === 'LEADERBOARD' && <Leaderboard canConfigure={user?.role === UserRole.OWNER} />}
+          {adminTab === 'ACCOUNTS' && user && <AdminAccounts currentUsername={user.id} />}
+          {adminTab === 'AUDIT' && <AuditLog />}
+
+          {adminTab === 'OVERVIEW' && (
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             <Card>
               <h2 className="text-lg font-bold mb-4">Manage Quiz</h2>
               <div className="space-y-4">
-                <Button 
-                  onClick={async () => {
-                     // Publish "Daily Quiz"
-                     // In a real app, this would select 10 random questions or a specific set.
-                     // Here we just publish the dummy quiz with the seeded questions.
-                     const id = `daily-quiz-${new Date().toISOString().split('T')[0]}`;
-                     const allQs = await MockBackend.getQuestions();
-                     // Take first 10 for the daily quiz
-                     const dailyQIds = allQs.slice(0, 10).map(q => q.id);
-                     
-                     await MockBackend.createQuiz({
-                       id,
-                       title: `Daily Quiz - ${new Date().toLocaleDateString()}`,
-                       durationMinutes: 10,
-                       questionIds: dailyQIds,
-                       status: QuizStatus.PUBLISHED, // Auto publish
-                       publishedAt: Date.now()
-                     });
-                     
-                     // Trigger update
-                     await MockBackend.publishQuiz(id);
-                     alert('Daily Quiz Published!');
-                     loadAdminData();
-                  }} 
-                  className="w-full justify-center bg-green-600 hover:bg-green-700"
-                >
-                  Publish Daily Quiz (10 Questions)
-                </Button>
-                <div className="text-sm text-gray-500 mt-2">
-                  Publishes 10 questions. Students have 10 minutes total.
-                </div>
+                {adminQuizzes.filter(q => q.status === QuizStatus.OPEN || q.status === QuizStatus.SCHEDULED).map(quiz => (
+                  <div key={quiz.id} className={cn("p-4 rounded border", quiz.status === QuizStatus.OPEN ? "bg-green-50 border-green-200" : "bg-gray-50 border-gray-200")}>
+                    <div className={cn("text-xs uppercase font-medium", quiz.status === QuizStatus.OPEN ? "text-green-700" : "text-gray-500")}>
+                      {quiz.status === QuizStatus.OPEN ? 'Open now' : `Opens ${new Date(quiz.opensAt!).toLocaleString()}`}
+                    </div>
+                    <div className="text-lg font-bold text-gray-900">{quiz.title}</div>
+                    <div className="text-sm text-gray-600">
+                      {quiz.questionIds.length} questions · {quiz.durationMinutes} minutes · {quiz.secondsPerQuestion}s per question
+                      {quiz.closesAt && ` · closes ${new Date(quiz.closesAt).toLocaleString()}`}
+                    </div>
+                  </div>
+                ))}
+                {!adminQuizzes.some(q => q.status === QuizStatus.OPEN || q.status === QuizStatus.SCHEDULED) && (
+                  <p className="text-sm text-gray-500">No quiz is open or scheduled right now.</p>
+                )}
+                {canManage && (
+                  <Button onClick={() => setAdminTab('QUIZZES')} className="w-full justify-center bg-green-600 hover:bg-green-700">
+                    Build & Publish a Quiz
+                  </Button>
+                )}
               </div>
             </Card>
 
             <Card className="md:col-span-2 lg:col-span-1">
-              <h2 className="text-lg font-bold mb-4">Registered Students & Results</h2>
+              <div className="flex justify-between items-center gap-4 mb-4">
+                <h2 className="text-lg font-bold">Registered Students & Results</h2>
+                <GroupFilter value={groupFilter} onChange={setGroupFilter} groups={groups} className="text-sm py-1 max-w-[10rem]" />
+                {resultsQuizId && (
+                  <select
+                    value={resultsQuizId}
+                    onChange={e => handleResultsQuizChange(e.target.value)}
+                    className="text-sm border border-gray-300 rounded-md px-2 py-1 max-w-[12rem]"
+                  >
+                    {adminQuizzes.filter(q => q.publishedAt).map(q => <option key={q.id} value={q.id}>{q.title}</option>)}
+                  </select>
+                )}
+              </div>
               <div className="h-96 overflow-y-auto border rounded bg-white">
                 <table className="min-w-full divide-y divide-gray-200">
                   <thead className="bg-gray-50">
@@ -617,24 +1124,32 @@ export default function App() {
                       <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Code</th>
                       <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
                       <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Result</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Flags</th>
                     </tr>
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-200">
-                    {students.map(s => (
+                    {shownStudents.map(s => (
                       <tr key={s.id}>
                         <td className="px-4 py-2 whitespace-nowrap text-sm font-bold text-blue-600">{s.id}</td>
                         <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">{s.name}</td>
                         <td className="px-4 py-2 whitespace-nowrap text-sm font-bold text-gray-700">
                           {getStudentScore(s.id)}
                         </td>
+                        <td
+                          className={cn("px-4 py-2 whitespace-nowrap text-sm", getStudentFlags(s.id).length > 0 ? "text-red-700 font-medium" : "text-gray-400")}
+                          title={getStudentFlags(s.id).map(e => `${new Date(e.at).toLocaleTimeString()} ${INTEGRITY_LABELS[e.kind]}`).join('\n')}
+                        >
+                          {getStudentFlags(s.id).length || '-'}
+                        </td>
                       </tr>
                     ))}
                   </tbody>
                 </table>
-                {students.length === 0 && <p className="text-center text-gray-500 p-4">No students found.</p>}
+                {shownStudents.length === 0 && <p className="text-center text-gray-500 p-4">No students found.</p>}
               </div>
             </Card>
           </div>
+          )}
         </main>
       </div>
     );
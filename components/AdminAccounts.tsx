@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react';
+import { AdminSummary, UserRole } from '../types';
+import { MockBackend } from '../services/mockBackend';
+import { ROLE_LABELS, STAFF_ROLES } from '../services/auth';
+import { Button, Card, Input, Select } from './ui';
+import { cn } from '../utils';
+
+const ROLE_HELP: Record<string, string> = {
+  [UserRole.OWNER]: 'Everything, including staff accounts and backups',
+  [UserRole.TEACHER]: 'Questions, plus their own quizzes and results',
+  [UserRole.PROCTOR]: 'Read-only live monitoring',
+};
+
+// Owner-only staff account management. New and reset accounts get a temporary
+// password that has to be changed at the next login.
+export default function AdminAccounts({ currentUsername }: { currentUsername: string }) {
+  const [accounts, setAccounts] = useState<AdminSummary[]>([]);
+  const [username, setUsername] = useState('');
+  const [name, setName] = useState('');
+  const [role, setRole] = useState<UserRole>(UserRole.TEACHER);
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const load = async () => setAccounts(await MockBackend.getAdminAccounts());
+
+  useEffect(() => {
+    load().catch((err: any) => setError(err.message));
+  }, []);
+
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    try {
+      setError('');
+      setMessage('');
+      await action();
+      setMessage(success);
+      await load();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleCreate = () =>
+    run(async () => {
+      await MockBackend.createAdminAccount(username, name, role, password);
+      setUsername('');
+      setName('');
+      setPassword('');
+    }, `Created ${username.trim().toLowerCase()}. Give them the temporary password; they must change it when they first log in.`);
+
+  const handleReset = (account: AdminSummary) => {
+    const temporary = prompt(`New temporary password for ${account.username}:`);
+    if (!temporary) return;
+    run(() => MockBackend.resetAdminPassword(account.username, temporary), `Password reset for ${account.username}.`);
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <Card className="lg:col-span-2 space-y-4">
+        <h2 className="text-lg font-bold">Staff Accounts</h2>
+        {error && <div className="p-3 bg-red-100 text-red-700 rounded text-sm">{error}</div>}
+        {message && <div className="p-3 bg-green-100 text-green-800 rounded text-sm">{message}</div>}
+        <div className="border rounded overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Username</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Role</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-4 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {accounts.map(a => (
+                <tr key={a.username} className={cn(a.disabled && "text-gray-400")}>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm font-bold">{a.username}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm">{a.name}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm">{ROLE_LABELS[a.role]}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm">
+                    {a.disabled ? 'Disabled' : a.mustChangePassword ? 'Temporary password' : 'Active'}
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-right space-x-3">
+                    {a.username !== currentUsername && (
+                      <>
+                        <button onClick={() => handleReset(a)} className="text-blue-600 hover:underline">Reset password</button>
+                        <button
+                          onClick={() =>
+                            run(
+                              () => MockBackend.setAdminDisabled(a.username, !a.disabled),
+                              `${a.username} ${a.disabled ? 'enabled' : 'disabled'}.`,
+                            )
+                          }
+                          className={a.disabled ? "text-green-700 hover:underline" : "text-red-600 hover:underline"}
+                        >
+                          {a.disabled ? 'Enable' : 'Disable'}
+                        </button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      <Card className="space-y-4">
+        <h2 className="text-lg font-bold">Add Account</h2>
+        <Input value={username} onChange={e => setUsername(e.target.value)} placeholder="Username" />
+        <Input value={name} onChange={e => setName(e.target.value)} placeholder="Full name" />
+        <div>
+          <Select value={role} onChange={e => setRole(e.target.value as UserRole)}>
+            {STAFF_ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+          </Select>
+          <p className="text-xs text-gray-500 mt-1">{ROLE_HELP[role]}</p>
+        </div>
+        <Input type="password" value={password} onChange={e => setPassword(e.target.value)} placeholder="Temporary password" />
+        <Button onClick={handleCreate} disabled={!username || !name || !password} className="w-full justify-center">
+          Create Account
+        </Button>
+      </Card>
+    </div>
+  );
+}
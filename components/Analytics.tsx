@@ -0,0 +1,176 @@
+import React, { useEffect, useState } from 'react';
+import { Quiz } from '../types';
+import { MockBackend } from '../services/mockBackend';
+import { ItemAnalysis, QuizAnalytics } from '../services/analytics';
+import { Card, Select } from './ui';
+import GroupFilter from './GroupFilter';
+import { cn } from '../utils';
+
+const formatPercent = (value: number | null) => (value === null ? '-' : `${Math.round(value)}%`);
+const formatIndex = (value: number | null) => (value === null ? '-' : value.toFixed(2));
+
+const Stat = ({ label, value }: { label: string; value: string }) => (
+  <div className="p-3 rounded border bg-gray-50">
+    <div className="text-xs uppercase text-gray-500">{label}</div>
+    <div className="text-2xl font-bold text-gray-900">{value}</div>
+  </div>
+);
+
+const DistractorBars = ({ item }: { item: ItemAnalysis }) => {
+  const max = Math.max(1, ...item.distractors.map(d => d.count));
+  return (
+    <div className="space-y-1 min-w-[12rem]">
+      {item.distractors.map((d, i) => (
+        <div key={d.optionId} className="flex items-center gap-2 text-xs" title={d.text}>
+          <span className={cn("w-4 font-bold", d.isCorrect ? "text-green-700" : "text-gray-500")}>{String.fromCharCode(65 + i)}</span>
+          <div className="flex-1 h-3 bg-gray-100 rounded">
+            <div
+              className={cn("h-3 rounded", d.isCorrect ? "bg-green-500" : "bg-gray-400")}
+              style={{ width: `${(d.count / max) * 100}%` }}
+            />
+          </div>
+          <span className="w-6 text-right text-gray-700">{d.count}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// Per-quiz score distribution and item analysis, for spotting bad questions in the bank.
+export default function Analytics() {
+  const [quizzes, setQuizzes] = useState<Quiz[]>([]);
+  const [quizId, setQuizId] = useState<string | null>(null);
+  const [groupId, setGroupId] = useState('');
+  const [analytics, setAnalytics] = useState<QuizAnalytics | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const published = (await MockBackend.getQuizzes()).filter(q => q.publishedAt);
+        setQuizzes(published);
+        setQuizId(published[published.length - 1]?.id ?? null);
+      } catch (err: any) {
+        setError(err.message);
+      }
+    })();
+  }, []);
+
+  useEffect(() => {
+    if (!quizId) return;
+    const load = async () => {
+      try {
+        setAnalytics(await MockBackend.getQuizAnalytics(quizId, groupId || undefined));
+        setError('');
+      } catch (err: any) {
+        setAnalytics(null);
+        setError(err.message);
+      }
+    };
+    load();
+    return MockBackend.subscribeToEvents(event => {
+      if (event.type === 'SUBMISSION_RECEIVED' && event.data?.quizId === quizId) load();
+    });
+  }, [quizId, groupId]);
+
+  if (quizzes.length === 0) {
+    return (
+      <Card>
+        {error
+          ? <div className="p-3 bg-red-100 text-red-700 rounded">{error}</div>
+          : <p className="text-sm text-gray-500">Publish a quiz to see its analytics.</p>}
+      </Card>
+    );
+  }
+
+  const maxBin = Math.max(1, ...(analytics?.histogram.map(b => b.count) || []));
+
+  return (
+    <div className="space-y-6">
+      <Card className="space-y-4">
+        <div className="flex justify-between items-center gap-4">
+          <h2 className="text-lg font-bold">Quiz Analytics</h2>
+          <div className="flex gap-2">
+            <GroupFilter value={groupId} onChange={setGroupId} />
+            <Select value={quizId || ''} onChange={e => setQuizId(e.target.value)} className="max-w-[16rem]">
+              {quizzes.map(q => <option key={q.id} value={q.id}>{q.title}</option>)}
+            </Select>
+          </div>
+        </div>
+        {error && <div className="p-3 bg-red-100 text-red-700 rounded">{error}</div>}
+
+        {analytics && (
+          <>
+            <div className={cn("grid grid-cols-2 gap-3", analytics.passed === null ? "md:grid-cols-4" : "md:grid-cols-5")}>
+              <Stat label="Submitted" value={`${analytics.submitted}/${analytics.started}`} />
+              <Stat label="Completion" value={formatPercent(analytics.completionRate === null ? null : analytics.completionRate * 100)} />
+              <Stat label="Mean" value={formatPercent(analytics.mean)} />
+              <Stat label="Median" value={formatPercent(analytics.median)} />
+              {analytics.passed !== null && <Stat label="Passed" value={`${analytics.passed}/${analytics.submitted}`} />}
+            </div>
+
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 mb-2">Score distribution</h3>
+              <div className="flex items-end gap-1 h-40 border-b">
+                {analytics.histogram.map(bin => (
+                  <div key={bin.label} className="flex-1 flex flex-col items-center justify-end h-full" title={`${bin.label}: ${bin.count}`}>
+                    {bin.count > 0 && <span className="text-xs text-gray-600">{bin.count}</span>}
+                    <div className="w-full bg-blue-500 rounded-t" style={{ height: `${(bin.count / maxBin) * 100}%` }} />
+                  </div>
+                ))}
+              </div>
+              <div className="flex gap-1 mt-1">
+                {analytics.histogram.map(bin => (
+                  <span key={bin.label} className="flex-1 text-center text-[10px] text-gray-500">{bin.label}</span>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </Card>
+
+      {analytics && (
+        <Card className="space-y-2">
+          <h2 className="text-lg font-bold">Item Analysis</h2>
+          <p className="text-xs text-gray-500">
+            Difficulty is the share of answers that were correct. Discrimination compares the top and bottom 27% of scorers.
+            Unanswered questions (timed out) are counted separately and left out of difficulty.
+          </p>
+          <div className="overflow-x-auto border rounded bg-white">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">#</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Question</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Answered</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Unanswered</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Difficulty</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Discrimination</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Options</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {analytics.items.map((item, i) => (
+                  <tr key={item.questionId} className={cn(item.needsReview && "bg-yellow-50")}>
+                    <td className="px-4 py-2 text-sm text-gray-500">{i + 1}</td>
+                    <td className="px-4 py-2 text-sm text-gray-900">
+                      {item.text}
+                      {item.needsReview && (
+                        <span className="ml-2 px-2 py-0.5 rounded text-xs font-medium bg-yellow-100 text-yellow-800">Review</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-gray-700">{item.answered}</td>
+                    <td className="px-4 py-2 text-sm text-gray-700">{item.unanswered}</td>
+                    <td className="px-4 py-2 text-sm font-mono text-gray-700">{formatIndex(item.difficultyIndex)}</td>
+                    <td className="px-4 py-2 text-sm font-mono text-gray-700">{formatIndex(item.discriminationIndex)}</td>
+                    <td className="px-4 py-2"><DistractorBars item={item} /></td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,312 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AnswerCheck, AnswerValue, Option, QuestionType, StudentQuestion } from '../types';
+import { choicesFor } from '../services/questionTypes';
+import { Translator, trueFalseOptions } from '../services/i18n';
+import { toPlainText } from '../services/richText';
+import { Button, Input } from './ui';
+import RichText from './RichText';
+import { cn } from '../utils';
+
+// What the runner knows after answering: the value sent and, once the server
+// replies, whatever the quiz's feedback policy lets it say.
+export interface AnswerFeedback extends AnswerCheck {
+  value: AnswerValue;
+  pending: boolean; // True while the check is in flight
+}
+
+interface AnswerInputProps {
+  question: StudentQuestion;
+  feedback: AnswerFeedback | null;
+  onAnswer: (value: AnswerValue) => void;
+  disabled?: boolean; // The question's time ran out and the runner is waiting for Next
+  t: Translator;
+}
+
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLTextAreaElement ||
+  target instanceof HTMLSelectElement ||
+  (target instanceof HTMLInputElement && target.type !== 'checkbox');
+
+// Runner shortcuts: a keydown handler for the whole page while the question is
+// open. Keys typed into a text field, or held with a modifier, are left alone.
+const useRunnerKeys = (enabled: boolean, onKey: (e: KeyboardEvent) => void) => {
+  const handler = useRef(onKey);
+  handler.current = onKey;
+  useEffect(() => {
+    if (!enabled) return;
+    const listener = (e: KeyboardEvent) => {
+      if (e.altKey || e.ctrlKey || e.metaKey || isTyping(e.target)) return;
+      handler.current(e);
+    };
+    window.addEventListener('keydown', listener);
+    return () => window.removeEventListener('keydown', listener);
+  }, [enabled]);
+};
+
+// 1-9 or A, B, C... pick an option by its position on screen; -1 for any other key.
+const optionIndexForKey = (key: string, count: number) => {
+  const index = /^[1-9]$/.test(key) ? Number(key) - 1 : /^[a-z]$/i.test(key) ? key.toUpperCase().charCodeAt(0) - 65 : -1;
+  return index < count ? index : -1;
+};
+
+const optionLetter = (index: number) => String.fromCharCode(65 + index);
+
+const feedbackClass = (feedback: AnswerFeedback) =>
+  feedback.pending || feedback.isCorrect === undefined
+    ? "bg-blue-100 border-blue-400"
+    : feedback.isCorrect
+      ? "bg-green-500 text-white border-green-600"
+      : feedback.credit
+        ? "bg-yellow-400 text-white border-yellow-500"
+        : "bg-red-500 text-white border-red-600";
+
+// Options the server said were right; only sent under the show-correct policy.
+const revealClass = (feedback: AnswerFeedback | null, optionId: string) =>
+  feedback?.correctOptionIds?.includes(optionId) && "ring-2 ring-green-500";
+
+// The verdict in words and a symbol as well as colour, in a live region so screen
+// readers announce it. The region is there before the verdict, or it would be missed.
+const FeedbackBanner = ({ feedback, t }: { feedback: AnswerFeedback | null; t: Translator }) => {
+  const text =
+    !feedback ? '' :
+    feedback.pending ? t('answer.checking') :
+    feedback.isCorrect === undefined ? t('answer.saved') :
+    feedback.isCorrect ? `✓ ${t('answer.correct')}` :
+    feedback.credit ? `◐ ${t('answer.partly', { percent: Math.round(feedback.credit * 100) })}` :
+    `✗ ${t('answer.incorrect')}`;
+  return (
+    <div role="status">
+      {feedback && (
+        <div className={cn("p-3 rounded-lg border text-center font-medium", feedbackClass(feedback))}>
+          {text}
+          {feedback.correctAnswer && !feedback.isCorrect && (
+            <div className="text-sm mt-1"><RichText content={t('answer.correctAnswer', { answer: feedback.correctAnswer })} inline /></div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Labels an option after answering, so it doesn't rely on the highlight colour.
+const OptionMarks = ({ feedback, optionId, chosen, t }: {
+  feedback: AnswerFeedback | null;
+  optionId: string;
+  chosen: boolean;
+  t: Translator;
+}) => {
+  const right = !!feedback?.correctOptionIds?.includes(optionId);
+  if (!feedback || (!chosen && !right)) return null;
+  return (
+    <span className="ml-auto pl-2 text-sm font-medium whitespace-nowrap">
+      {chosen && t('answer.yourChoice')}
+      {chosen && right && ' · '}
+      {right && `✓ ${t('answer.rightOption')}`}
+    </span>
+  );
+};
+
+// Single choice and true/false: one click answers. From the keyboard, a number or
+// letter moves focus to that option and Enter answers with it. The right option
+// is only marked when the quiz's feedback policy has the server reveal it.
+const ChoiceAnswer = ({ options, feedback, onAnswer, disabled, t }: { options: Option[] } & Omit<AnswerInputProps, 'question'>) => {
+  const buttons = useRef<(HTMLButtonElement | null)[]>([]);
+  const locked = !!feedback || !!disabled;
+  useRunnerKeys(!locked, e => {
+    const index = optionIndexForKey(e.key, options.length);
+    if (index < 0) return;
+    e.preventDefault();
+    buttons.current[index]?.focus();
+  });
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-500">{t('answer.keysChoice')}</p>
+      <div className="grid grid-cols-1 gap-3">
+        {options.map((opt, optIndex) => (
+          <button
+            key={opt.id}
+            ref={el => { buttons.current[optIndex] = el; }}
+            onClick={() => onAnswer(opt.id)}
+            disabled={locked}
+            aria-keyshortcuts={`${optIndex + 1} ${optionLetter(optIndex)}`}
+            className={cn(
+              "w-full text-left p-4 border rounded-lg transition-all duration-200 flex items-center",
+              "focus:outline-none focus:ring-4 focus:ring-blue-300",
+              feedback && opt.id === feedback.value ? feedbackClass(feedback) : "border-gray-300 hover:bg-gray-50",
+              revealClass(feedback, opt.id)
+            )}
+          >
+            {/* Letter by position: option order may be shuffled per student */}
+            <span className="font-bold mr-2">{optionLetter(optIndex)}.</span> <RichText content={opt.text} inline />
+            <OptionMarks feedback={feedback} optionId={opt.id} chosen={opt.id === feedback?.value} t={t} />
+          </button>
+        ))}
+      </div>
+      <FeedbackBanner feedback={feedback} t={t} />
+    </div>
+  );
+};
+
+const MultiSelectAnswer = ({ question, feedback, onAnswer, disabled, t }: AnswerInputProps) => {
+  const [selected, setSelected] = useState<string[]>([]);
+  const boxes = useRef<(HTMLInputElement | null)[]>([]);
+  const options = choicesFor(question);
+  const locked = !!feedback || !!disabled;
+  const toggle = (id: string) => setSelected(selected.includes(id) ? selected.filter(s => s !== id) : [...selected, id]);
+  useRunnerKeys(!locked, e => {
+    // A focused button handles its own Enter
+    if (e.key === 'Enter' && !(e.target instanceof HTMLButtonElement)) {
+      e.preventDefault();
+      if (selected.length > 0) onAnswer(selected);
+      return;
+    }
+    const index = optionIndexForKey(e.key, options.length);
+    if (index < 0) return;
+    e.preventDefault();
+    toggle(options[index].id);
+    boxes.current[index]?.focus();
+  });
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-500">{t('answer.selectAll')} {t('answer.keysMulti')}</p>
+      {options.map((opt, optIndex) => (
+        <label
+          key={opt.id}
+          className={cn(
+            "flex items-center gap-3 p-4 border rounded-lg cursor-pointer focus-within:ring-4 focus-within:ring-blue-300",
+            selected.includes(opt.id) ? "border-blue-400 bg-blue-50" : "border-gray-300 hover:bg-gray-50",
+            revealClass(feedback, opt.id)
+          )}
+        >
+          <input
+            type="checkbox"
+            ref={el => { boxes.current[optIndex] = el; }}
+            checked={selected.includes(opt.id)}
+            onChange={() => toggle(opt.id)}
+            disabled={locked}
+            aria-keyshortcuts={`${optIndex + 1} ${optionLetter(optIndex)}`}
+          />
+          <span className="font-bold">{optionLetter(optIndex)}.</span> <RichText content={opt.text} inline />
+          <OptionMarks feedback={feedback} optionId={opt.id} chosen={false} t={t} />
+        </label>
+      ))}
+      <FeedbackBanner feedback={feedback} t={t} />
+      {!feedback && <Button onClick={() => onAnswer(selected)} disabled={locked || selected.length === 0} className="w-full">{t('answer.submit')}</Button>}
+    </div>
+  );
+};
+
+const OrderingAnswer = ({ question, feedback, onAnswer, disabled, t }: AnswerInputProps) => {
+  const [order, setOrder] = useState<Option[]>(question.options || []);
+  const [picked, setPicked] = useState<number | null>(null); // Item the arrow keys move
+  const [announcement, setAnnouncement] = useState('');
+  const locked = !!feedback || !!disabled;
+  const move = (index: number, delta: number) => {
+    const next = [...order];
+    [next[index], next[index + delta]] = [next[index + delta], next[index]];
+    setOrder(next);
+    setAnnouncement(t('answer.moved', { item: toPlainText(next[index + delta].text), position: index + delta + 1 }));
+  };
+  useRunnerKeys(!locked, e => {
+    if (e.key === 'Enter' && !(e.target instanceof HTMLButtonElement)) {
+      e.preventDefault();
+      onAnswer(order.map(o => o.id));
+      return;
+    }
+    const delta = e.key === 'ArrowUp' ? -1 : e.key === 'ArrowDown' ? 1 : 0;
+    if (delta && picked !== null) {
+      e.preventDefault();
+      const to = picked + delta;
+      if (to < 0 || to >= order.length) return;
+      move(picked, delta);
+      setPicked(to);
+      return;
+    }
+    // Only digits here: letters would be ambiguous next to the numbered positions
+    if (!/^[1-9]$/.test(e.key)) return;
+    const index = optionIndexForKey(e.key, order.length);
+    if (index < 0) return;
+    e.preventDefault();
+    setPicked(index);
+  });
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-500">{t('answer.orderHint')} {t('answer.keysOrder')}</p>
+      <ol className="space-y-3">
+        {order.map((opt, i) => (
+          <li
+            key={opt.id}
+            aria-current={picked === i || undefined}
+            className={cn(
+              "flex items-center gap-3 p-3 border rounded-lg",
+              picked === i ? "border-blue-500 border-2 bg-blue-50" : "border-gray-300"
+            )}
+          >
+            <span className="font-bold w-6 text-gray-500">{i + 1}.</span>
+            <span className={cn("flex-1", picked === i && "font-semibold")}>{picked === i && '▸ '}<RichText content={opt.text} inline /></span>
+            <button onClick={() => move(i, -1)} disabled={locked || i === 0} className="px-2 text-gray-600 disabled:opacity-30" aria-label={t('answer.moveUp')}>↑</button>
+            <button onClick={() => move(i, 1)} disabled={locked || i === order.length - 1} className="px-2 text-gray-600 disabled:opacity-30" aria-label={t('answer.moveDown')}>↓</button>
+          </li>
+        ))}
+      </ol>
+      <div role="status" className="sr-only">{announcement}</div>
+      <FeedbackBanner feedback={feedback} t={t} />
+      {!feedback && <Button onClick={() => onAnswer(order.map(o => o.id))} disabled={locked} className="w-full">{t('answer.submit')}</Button>}
+    </div>
+  );
+};
+
+const TypedAnswer = ({ question, feedback, onAnswer, disabled, t }: AnswerInputProps) => {
+  const [text, setText] = useState('');
+  const numeric = question.type === QuestionType.NUMERIC;
+  const value = numeric ? parseFloat(text) : text.trim();
+  const valid = numeric ? Number.isFinite(value) : text.trim().length > 0;
+  return (
+    <form
+      className="space-y-3"
+      onSubmit={e => {
+        e.preventDefault();
+        if (valid && !feedback && !disabled) onAnswer(value);
+      }}
+    >
+      <Input
+        type={numeric ? 'number' : 'text'}
+        step="any"
+        value={text}
+        onChange={e => setText(e.target.value)}
+        disabled={!!feedback || disabled}
+        placeholder={numeric ? t('answer.enterNumber') : t('answer.typeAnswer')}
+        aria-label={toPlainText(question.text)}
+        className="text-lg"
+        autoFocus
+      />
+      <FeedbackBanner feedback={feedback} t={t} />
+      {!feedback && <Button type="submit" disabled={!valid || disabled} className="w-full">{t('answer.submit')}</Button>}
+    </form>
+  );
+};
+
+// The quiz runner's answer area; one renderer per question type. The question
+// arrives already in the student's language; `t` covers the controls around it.
+// Every type can be answered from the keyboard alone.
+export default function AnswerInput(props: AnswerInputProps) {
+  switch (props.question.type) {
+    case QuestionType.MULTI_SELECT:
+      return <MultiSelectAnswer {...props} />;
+    case QuestionType.ORDERING:
+      return <OrderingAnswer {...props} />;
+    case QuestionType.NUMERIC:
+    case QuestionType.SHORT_TEXT:
+      return <TypedAnswer {...props} />;
+    default:
+      return (
+        <ChoiceAnswer
+          options={props.question.type === QuestionType.TRUE_FALSE ? trueFalseOptions(props.t) : choicesFor(props.question)}
+          feedback={props.feedback}
+          onAnswer={props.onAnswer}
+          disabled={props.disabled}
+          t={props.t}
+        />
+      );
+  }
+}
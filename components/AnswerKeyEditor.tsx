@@ -0,0 +1,185 @@
+import React from 'react';
+import { Option, QuestionInput, QuestionType } from '../types';
+import { usesOptions } from '../services/questionTypes';
+import { Input } from './ui';
+
+const optionId = (index: number) => String.fromCharCode(97 + index);
+
+// Keeps the draft's other answer-key fields when switching type, so switching
+// back loses nothing; the backend drops whatever the final type doesn't use.
+export const withType = (draft: QuestionInput, type: QuestionType): QuestionInput => {
+  const next = { ...draft, type };
+  if (type === QuestionType.TRUE_FALSE && next.correctAnswer !== 'true' && next.correctAnswer !== 'false') {
+    next.correctAnswer = 'true';
+  }
+  if (type === QuestionType.SINGLE_CHOICE && !(next.options || []).some(o => o.id === next.correctAnswer)) {
+    next.correctAnswer = next.options?.[0]?.id || '';
+  }
+  if (usesOptions(type)) {
+    const options = [...(next.options || [])];
+    while (options.length < 2) options.push({ id: optionId(options.length), text: '' });
+    next.options = options;
+  }
+  return next;
+};
+
+// The options list with its per-type marker: a radio for the one right option,
+// checkboxes for the right set, or up/down buttons for the right order.
+const OptionsEditor = ({ draft, onChange }: { draft: QuestionInput; onChange: (draft: QuestionInput) => void }) => {
+  const options = draft.options || [];
+
+  const updateOption = (index: number, text: string) => {
+    const next = [...options];
+    next[index] = { ...next[index], text };
+    onChange({ ...draft, options: next });
+  };
+
+  // Re-letter the remaining options so ids stay a, b, c... and carry the answer key
+  // and the translated option texts along
+  const relabel = (next: Option[]) => {
+    const rename = new Map<string, string>(next.map((o, i) => [o.id, optionId(i)]));
+    const renameKeys = (texts: Record<string, string> = {}) =>
+      Object.fromEntries(Object.entries(texts).filter(([id]) => rename.has(id)).map(([id, text]) => [rename.get(id)!, text]));
+    return {
+      ...draft,
+      options: next.map((o, i) => ({ ...o, id: optionId(i) })),
+      correctAnswer: rename.get(draft.correctAnswer) || optionId(0),
+      correctAnswers: (draft.correctAnswers || []).filter(id => rename.has(id)).map(id => rename.get(id)!),
+      translations: draft.translations && Object.fromEntries(
+        Object.entries(draft.translations).map(([language, t]) => [language, t && { ...t, options: renameKeys(t.options) }]),
+      ),
+    };
+  };
+
+  const removeOption = (index: number) => onChange(relabel(options.filter((_, i) => i !== index)));
+
+  const moveOption = (index: number, delta: number) => {
+    const next = [...options];
+    [next[index], next[index + delta]] = [next[index + delta], next[index]];
+    onChange(relabel(next));
+  };
+
+  const toggleCorrect = (id: string) => {
+    const current = draft.correctAnswers || [];
+    onChange({ ...draft, correctAnswers: current.includes(id) ? current.filter(c => c !== id) : [...current, id] });
+  };
+
+  const hint =
+    draft.type === QuestionType.MULTI_SELECT ? 'tick every correct one' :
+    draft.type === QuestionType.ORDERING ? 'in the correct order; students see them shuffled' :
+    'select the correct one';
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium text-gray-700">Options ({hint})</label>
+      {options.map((opt, i) => (
+        <div key={opt.id} className="flex items-center gap-2">
+          {draft.type === QuestionType.SINGLE_CHOICE && (
+            <input
+              type="radio"
+              name="correctAnswer"
+              checked={draft.correctAnswer === opt.id}
+              onChange={() => onChange({ ...draft, correctAnswer: opt.id })}
+            />
+          )}
+          {draft.type === QuestionType.MULTI_SELECT && (
+            <input type="checkbox" checked={!!draft.correctAnswers?.includes(opt.id)} onChange={() => toggleCorrect(opt.id)} />
+          )}
+          <span className="font-bold w-4">{draft.type === QuestionType.ORDERING ? i + 1 : opt.id.toUpperCase()}</span>
+          <Input value={opt.text} onChange={e => updateOption(i, e.target.value)} />
+          {draft.type === QuestionType.ORDERING && (
+            <>
+              <button onClick={() => moveOption(i, -1)} disabled={i === 0} className="text-gray-600 text-sm disabled:opacity-30">↑</button>
+              <button onClick={() => moveOption(i, 1)} disabled={i === options.length - 1} className="text-gray-600 text-sm disabled:opacity-30">↓</button>
+            </>
+          )}
+          {options.length > 2 && (
+            <button onClick={() => removeOption(i)} className="text-red-600 text-sm">✕</button>
+          )}
+        </div>
+      ))}
+      {options.length < 6 && (
+        <button
+          onClick={() => onChange({ ...draft, options: [...options, { id: optionId(options.length), text: '' }] })}
+          className="text-sm text-blue-600 hover:underline"
+        >
+          + Add option
+        </button>
+      )}
+    </div>
+  );
+};
+
+// Answer-key fields for the question editor, one layout per question type.
+export default function AnswerKeyEditor({ draft, onChange }: {
+  draft: QuestionInput;
+  onChange: (draft: QuestionInput) => void;
+}) {
+  switch (draft.type) {
+    case QuestionType.TRUE_FALSE:
+      return (
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-gray-700">Correct answer</label>
+          <div className="flex gap-6">
+            {['true', 'false'].map(value => (
+              <label key={value} className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="correctAnswer"
+                  checked={draft.correctAnswer === value}
+                  onChange={() => onChange({ ...draft, correctAnswer: value })}
+                />
+                {value === 'true' ? 'True' : 'False'}
+              </label>
+            ))}
+          </div>
+        </div>
+      );
+    case QuestionType.NUMERIC:
+      return (
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Correct answer</label>
+            <Input
+              type="number"
+              step="any"
+              value={draft.numericAnswer ?? ''}
+              onChange={e => onChange({ ...draft, numericAnswer: e.target.value ? parseFloat(e.target.value) : undefined })}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Tolerance (±)</label>
+            <Input
+              type="number"
+              step="any"
+              min={0}
+              value={draft.tolerance ?? ''}
+              onChange={e => onChange({ ...draft, tolerance: e.target.value ? parseFloat(e.target.value) : undefined })}
+            />
+          </div>
+        </div>
+      );
+    case QuestionType.SHORT_TEXT:
+      return (
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-gray-700">Accepted answers (one per line)</label>
+          <textarea
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            rows={3}
+            value={(draft.acceptedAnswers || []).join('\n')}
+            onChange={e => onChange({ ...draft, acceptedAnswers: e.target.value.split('\n') })}
+          />
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={!!draft.caseSensitive}
+              onChange={e => onChange({ ...draft, caseSensitive: e.target.checked })}
+            />
+            Case-sensitive
+          </label>
+        </div>
+      );
+    default:
+      return <OptionsEditor draft={draft} onChange={onChange} />;
+  }
+}
@@ -0,0 +1,182 @@
+import React, { useEffect, useState } from 'react';
+import { AuditAction, AuditEntry, AuditFilter, AuditLogView } from '../types';
+import { MockBackend } from '../services/mockBackend';
+import { AUDIT_LABELS, auditToCsv } from '../services/audit';
+import { ROLE_LABELS } from '../services/auth';
+import { downloadFile } from '../services/export';
+import { Button, Card, Input, Select } from './ui';
+import { cn } from '../utils';
+
+// Enough to scroll through; the export always has every matching entry.
+const SHOWN_ROWS = 200;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A date input's value as local midnight, or undefined when empty.
+const parseDay = (value: string) => {
+  if (!value) return undefined;
+  const [y, m, d] = value.split('-').map(Number);
+  return new Date(y, m - 1, d).getTime();
+};
+
+const Details = ({ label, value }: { label: string; value: unknown }) => (
+  <div className="min-w-0 flex-1">
+    <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-1">{label}</p>
+    {value === undefined ? (
+      <p className="text-sm text-gray-400">Nothing recorded</p>
+    ) : (
+      <pre className="text-xs bg-white border rounded p-2 overflow-auto max-h-64">{JSON.stringify(value, null, 2)}</pre>
+    )}
+  </div>
+);
+
+// Owners' read-only view of who changed what. Nothing here can edit the log.
+export default function AuditLog() {
+  const [action, setAction] = useState<AuditAction | ''>('');
+  const [actor, setActor] = useState('');
+  const [search, setSearch] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [log, setLog] = useState<AuditLogView | null>(null);
+  const [openSeq, setOpenSeq] = useState<number | null>(null);
+  const [error, setError] = useState('');
+
+  const filter: AuditFilter = {
+    action: action || undefined,
+    actor: actor || undefined,
+    search: search || undefined,
+    from: parseDay(from),
+    // The "to" day is included in full
+    to: to ? parseDay(to)! + DAY_MS - 1 : undefined,
+  };
+
+  const load = async () => {
+    try {
+      setLog(await MockBackend.getAuditLog(filter));
+      setError('');
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [action, actor, search, from, to]);
+
+  // Exports run oldest first, the order the chain is checked in
+  const exported = () => [...(log?.entries || [])].reverse();
+  const stamp = new Date().toISOString().slice(0, 10);
+
+  const exportCsv = () => downloadFile(`audit-log-${stamp}.csv`, auditToCsv(exported()), 'text/csv');
+  const exportJson = () =>
+    downloadFile(
+      `audit-log-${stamp}.json`,
+      JSON.stringify({ exportedAt: Date.now(), filter, check: log?.check, entries: exported() }, null, 2),
+      'application/json',
+    );
+
+  const describeActor = (entry: AuditEntry) =>
+    entry.actor ? `${entry.actor}${entry.actorRole ? ` (${ROLE_LABELS[entry.actorRole]})` : ''}` : 'System';
+
+  const filtered = !!(action || actor || search || from || to);
+  const rows = log?.entries.slice(0, SHOWN_ROWS) || [];
+
+  return (
+    <div className="space-y-6">
+      <Card className="space-y-4">
+        <div className="flex justify-between items-center gap-4">
+          <div>
+            <h2 className="text-lg font-bold">Audit Log</h2>
+            <p className="text-sm text-gray-500">Every sign-in, account change, question and quiz edit, submission and regrade, newest first.</p>
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={exportCsv} disabled={!log?.entries.length}>Export CSV</Button>
+            <Button onClick={exportJson} disabled={!log?.entries.length}>Export JSON</Button>
+          </div>
+        </div>
+        {error && <div className="p-3 bg-red-100 text-red-700 rounded">{error}</div>}
+
+        {log && (
+          log.check.ok ? (
+            <div className="p-3 bg-green-100 text-green-800 rounded text-sm">
+              Chain intact · {log.check.entries} entries · head hash{' '}
+              <span className="font-mono break-all">{log.check.headHash}</span>
+              <p className="text-xs mt-1">Note the head hash down now and then: if an earlier note no longer matches an entry, the log was rewritten.</p>
+            </div>
+          ) : (
+            <div className="p-3 bg-red-100 text-red-700 rounded text-sm">
+              The log has been tampered with: entry #{log.check.brokenAt} fails because {log.check.problem}. Entries from there on cannot be trusted.
+            </div>
+          )
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+          <Select value={action} onChange={e => setAction(e.target.value as AuditAction | '')}>
+            <option value="">All actions</option>
+            {(Object.keys(AUDIT_LABELS) as AuditAction[]).map(a => <option key={a} value={a}>{AUDIT_LABELS[a]}</option>)}
+          </Select>
+          <Input placeholder="Actor" value={actor} onChange={e => setActor(e.target.value)} />
+          <Input placeholder="Search details" value={search} onChange={e => setSearch(e.target.value)} />
+          <Input type="date" value={from} onChange={e => setFrom(e.target.value)} aria-label="From" />
+          <Input type="date" value={to} onChange={e => setTo(e.target.value)} aria-label="To" />
+        </div>
+      </Card>
+
+      {log && (
+        <Card className="space-y-3">
+          <p className="text-sm text-gray-500">
+            {filtered ? `${log.entries.length} of ${log.total} entries match` : `${log.total} entries`}
+            {log.entries.length > SHOWN_ROWS && ` · showing the newest ${SHOWN_ROWS}`}
+          </p>
+          <div className="border rounded overflow-hidden">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">#</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Time</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actor</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Action</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Target</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {rows.map(entry => (
+                  <React.Fragment key={entry.seq}>
+                    <tr
+                      onClick={() => setOpenSeq(openSeq === entry.seq ? null : entry.seq)}
+                      className={cn("cursor-pointer hover:bg-gray-50", openSeq === entry.seq && "bg-blue-50")}
+                    >
+                      <td className="px-4 py-2 whitespace-nowrap text-sm font-mono text-gray-500">{entry.seq}</td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">{new Date(entry.at).toLocaleString()}</td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">{describeActor(entry)}</td>
+                      <td className={cn("px-4 py-2 whitespace-nowrap text-sm", entry.action === 'LOGIN_FAILED' ? "text-red-700" : "text-gray-900")}>
+                        {AUDIT_LABELS[entry.action]}
+                      </td>
+                      <td className="px-4 py-2 text-sm font-mono text-gray-500 break-all">{entry.target}</td>
+                    </tr>
+                    {openSeq === entry.seq && (
+                      <tr className="bg-gray-50">
+                        <td colSpan={5} className="px-4 py-3 space-y-3">
+                          <div className="flex flex-col md:flex-row gap-3">
+                            <Details label="Before" value={entry.before} />
+                            <Details label="After" value={entry.after} />
+                          </div>
+                          <p className="text-xs font-mono text-gray-400 break-all">hash {entry.hash} · previous {entry.prevHash}</p>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+                {rows.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="px-4 py-6 text-center text-sm text-gray-500">No entries match.</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+}
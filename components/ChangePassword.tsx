@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { User } from '../types';
+import { MockBackend } from '../services/mockBackend';
+import { MIN_PASSWORD_LENGTH } from '../services/auth';
+import { Button, Card, Input } from './ui';
+
+// Staff password change. `forced` is the first-login / after-reset case, where the
+// only way out is choosing a password or logging out.
+export default function ChangePassword({ forced, onChanged, onCancel }: {
+  forced?: boolean;
+  onChanged: (user: User) => void;
+  onCancel: () => void;
+}) {
+  const [current, setCurrent] = useState('');
+  const [next, setNext] = useState('');
+  const [confirmNext, setConfirmNext] = useState('');
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    if (next !== confirmNext) {
+      setError('The new passwords do not match');
+      return;
+    }
+    setSaving(true);
+    try {
+      setError('');
+      onChanged(await MockBackend.changePassword(current, next));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <Card className="max-w-md w-full space-y-6">
+        <h2 className="text-2xl font-bold text-center">Change Password</h2>
+        {forced && (
+          <p className="text-sm text-gray-600 text-center">
+            You are using a temporary password. Choose your own before continuing.
+          </p>
+        )}
+        {error && <div className="p-3 bg-red-100 text-red-700 rounded">{error}</div>}
+        <div className="space-y-4">
+          <Input type="password" value={current} onChange={e => setCurrent(e.target.value)} placeholder="Current password" />
+          <Input
+            type="password"
+            value={next}
+            onChange={e => setNext(e.target.value)}
+            placeholder={`New password (at least ${MIN_PASSWORD_LENGTH} characters)`}
+          />
+          <Input type="password" value={confirmNext} onChange={e => setConfirmNext(e.target.value)} placeholder="Repeat new password" />
+          <Button onClick={handleSave} disabled={saving || !current || !next} className="w-full bg-gray-800 hover:bg-gray-900">
+            Save Password
+          </Button>
+          <button onClick={onCancel} className="w-full text-sm text-gray-600 hover:underline">
+            {forced ? 'Logout' : 'Cancel'}
+          </button>
+        </div>
+      </Card>
+    </div>
+  );
+}
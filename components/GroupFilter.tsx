@@ -0,0 +1,29 @@
+import React, { useEffect, useState } from 'react';
+import { Group } from '../types';
+import { MockBackend } from '../services/mockBackend';
+import { Select } from './ui';
+
+// "All students" or one group. Renders nothing until there are groups to pick.
+// Loads the groups itself unless the parent, which needs their members anyway, passes them.
+export default function GroupFilter({ value, onChange, groups: given, className }: {
+  value: string;
+  onChange: (groupId: string) => void;
+  groups?: Group[];
+  className?: string;
+}) {
+  const [loaded, setLoaded] = useState<Group[]>([]);
+  const groups = given ?? loaded;
+
+  useEffect(() => {
+    if (!given) MockBackend.getGroups().then(setLoaded).catch(() => setLoaded([]));
+  }, []);
+
+  if (groups.length === 0) return null;
+
+  return (
+    <Select value={value} onChange={e => onChange(e.target.value)} className={className ?? "max-w-[12rem]"}>
+      <option value="">All students</option>
+      {groups.map(g => <option key={g.id} value={g.id}>{g.name}</option>)}
+    </Select>
+  );
+}
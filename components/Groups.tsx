@@ -0,0 +1,212 @@
+import React, { useEffect, useState } from 'react';
+import { Group, GroupCriteria, GroupKind, User } from '../types';
+import { MockBackend } from '../services/mockBackend';
+import { GROUP_KIND_LABELS, describeCriteria, matchesGroupCriteria } from '../services/groups';
+import { matchesStudentSearch } from '../services/students';
+import { Button, Card, Input, Select } from './ui';
+import { cn } from '../utils';
+
+// Empty means no limit
+const parseAge = (value: string) => (value.trim() ? parseInt(value, 10) : undefined);
+
+// Classes, grades and village cohorts: create them, manage who is in them, and
+// bulk-add students by village or age range. Quizzes are published to these.
+export default function Groups({ onChanged }: { onChanged?: () => void }) {
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [students, setStudents] = useState<User[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [newKind, setNewKind] = useState<GroupKind>(GroupKind.CLASS);
+  const [search, setSearch] = useState('');
+  const [picked, setPicked] = useState<string[]>([]);
+  const [village, setVillage] = useState('');
+  const [minAge, setMinAge] = useState('');
+  const [maxAge, setMaxAge] = useState('');
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const load = async () => {
+    setGroups(await MockBackend.getGroups());
+    setStudents(await MockBackend.getStudents());
+  };
+
+  useEffect(() => {
+    load().catch((err: any) => setError(err.message));
+  }, []);
+
+  const run = async (action: () => Promise<string | void>) => {
+    try {
+      setError('');
+      setMessage((await action()) || '');
+      await load();
+      onChanged?.();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const selected = groups.find(g => g.id === selectedId) || null;
+  const members = selected ? students.filter(s => selected.studentIds.includes(s.id)) : [];
+  const candidates = selected
+    ? students.filter(s => !selected.studentIds.includes(s.id) && matchesStudentSearch(s, search))
+    : [];
+  const villages = Array.from(new Set<string>(students.map(s => s.village || '').filter(Boolean))).sort();
+  const criteria: GroupCriteria = { village: village || undefined, minAge: parseAge(minAge), maxAge: parseAge(maxAge) };
+  const criteriaSet = !!criteria.village || criteria.minAge !== undefined || criteria.maxAge !== undefined;
+  const criteriaMatches = selected && criteriaSet
+    ? students.filter(s => matchesGroupCriteria(s, criteria) && !selected.studentIds.includes(s.id)).length
+    : 0;
+
+  const handleCreate = () =>
+    run(async () => {
+      const group = await MockBackend.saveGroup({ name: newName, kind: newKind });
+      setNewName('');
+      setSelectedId(group.id);
+    });
+
+  const handleRename = (group: Group) => {
+    const name = prompt('Group name:', group.name);
+    if (!name || name === group.name) return;
+    run(async () => {
+      await MockBackend.saveGroup({ id: group.id, name, kind: group.kind });
+    });
+  };
+
+  const handleDelete = (group: Group) => {
+    if (!confirm(`Delete ${group.name}? Its students stay registered; only the group goes.`)) return;
+    run(async () => {
+      await MockBackend.deleteGroup(group.id);
+      setSelectedId(null);
+      return `Deleted ${group.name}.`;
+    });
+  };
+
+  const handleAddPicked = (group: Group) =>
+    run(async () => {
+      await MockBackend.addGroupMembers(group.id, picked);
+      setPicked([]);
+      return `Added ${picked.length} student${picked.length === 1 ? '' : 's'} to ${group.name}.`;
+    });
+
+  const handleAssign = (group: Group) =>
+    run(async () => {
+      const { added } = await MockBackend.assignGroupByCriteria(group.id, criteria);
+      return `${describeCriteria(criteria)}: ${added} added to ${group.name}.`;
+    });
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <Card className="space-y-4">
+        <h2 className="text-lg font-bold">Classes & Groups</h2>
+        <div className="border rounded divide-y">
+          {groups.map(g => (
+            <button
+              key={g.id}
+              onClick={() => {
+                setSelectedId(g.id);
+                setPicked([]);
+              }}
+              className={cn("w-full text-left p-3 text-sm hover:bg-gray-50", g.id === selectedId && "bg-blue-50")}
+            >
+              <div className="font-medium text-gray-900">{g.name}</div>
+              <div className="text-xs text-gray-500">
+                {GROUP_KIND_LABELS[g.kind]} · {g.studentIds.length} student{g.studentIds.length === 1 ? '' : 's'}
+              </div>
+            </button>
+          ))}
+          {groups.length === 0 && <p className="p-4 text-center text-sm text-gray-500">No groups yet.</p>}
+        </div>
+        <div className="space-y-2 border-t pt-4">
+          <Input value={newName} onChange={e => setNewName(e.target.value)} placeholder="New group, e.g. Grade 6 A" />
+          <div className="flex gap-2">
+            <Select value={newKind} onChange={e => setNewKind(e.target.value as GroupKind)}>
+              {Object.values(GroupKind).map(k => <option key={k} value={k}>{GROUP_KIND_LABELS[k]}</option>)}
+            </Select>
+            <Button onClick={handleCreate} disabled={!newName.trim()}>Create</Button>
+          </div>
+        </div>
+      </Card>
+
+      <Card className="lg:col-span-2 space-y-4">
+        {error && <div className="p-3 bg-red-100 text-red-700 rounded text-sm">{error}</div>}
+        {message && <div className="p-3 bg-green-100 text-green-800 rounded text-sm">{message}</div>}
+        {!selected ? (
+          <p className="text-sm text-gray-500">Pick a group to manage its students.</p>
+        ) : (
+          <>
+            <div className="flex justify-between items-center gap-4">
+              <div>
+                <h2 className="text-lg font-bold">{selected.name}</h2>
+                <p className="text-sm text-gray-500">{GROUP_KIND_LABELS[selected.kind]} · {members.length} students</p>
+              </div>
+              <div className="space-x-3 text-sm">
+                <button onClick={() => handleRename(selected)} className="text-blue-600 hover:underline">Rename</button>
+                <button onClick={() => handleDelete(selected)} className="text-red-600 hover:underline">Delete</button>
+              </div>
+            </div>
+
+            <div className="p-3 rounded border bg-gray-50 space-y-2">
+              <h3 className="text-sm font-bold text-gray-700">Add by village or age</h3>
+              <div className="grid grid-cols-3 gap-2">
+                <Select value={village} onChange={e => setVillage(e.target.value)}>
+                  <option value="">Any village</option>
+                  {villages.map(v => <option key={v} value={v}>{v}</option>)}
+                </Select>
+                <Input type="number" min="1" value={minAge} onChange={e => setMinAge(e.target.value)} placeholder="Min age" />
+                <Input type="number" min="1" value={maxAge} onChange={e => setMaxAge(e.target.value)} placeholder="Max age" />
+              </div>
+              <Button onClick={() => handleAssign(selected)} disabled={!criteriaSet} className="w-full justify-center">
+                {criteriaSet ? `Add ${criteriaMatches} matching student${criteriaMatches === 1 ? '' : 's'}` : 'Pick a village or age range'}
+              </Button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <h3 className="text-sm font-bold text-gray-700 mb-2">Members</h3>
+                <div className="h-72 overflow-y-auto border rounded divide-y">
+                  {members.map(s => (
+                    <div key={s.id} className="p-2 flex justify-between items-center text-sm">
+                      <span>
+                        <span className="font-mono font-bold text-blue-600 mr-2">{s.id}</span>
+                        {s.name}
+                      </span>
+                      <button
+                        onClick={() => run(async () => { await MockBackend.removeGroupMembers(selected.id, [s.id]); })}
+                        className="text-red-600 hover:underline"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  ))}
+                  {members.length === 0 && <p className="p-4 text-center text-gray-500 text-sm">No students in this group yet.</p>}
+                </div>
+              </div>
+              <div>
+                <h3 className="text-sm font-bold text-gray-700 mb-2">Add students</h3>
+                <Input value={search} onChange={e => setSearch(e.target.value)} placeholder="Search name, village or code" className="mb-2" />
+                <div className="h-56 overflow-y-auto border rounded divide-y">
+                  {candidates.map(s => (
+                    <label key={s.id} className="p-2 flex items-center gap-2 text-sm cursor-pointer hover:bg-gray-50">
+                      <input
+                        type="checkbox"
+                        checked={picked.includes(s.id)}
+                        onChange={() => setPicked(ids => (ids.includes(s.id) ? ids.filter(id => id !== s.id) : [...ids, s.id]))}
+                      />
+                      <span className="font-mono text-blue-600">{s.id}</span>
+                      <span>{s.name}</span>
+                      <span className="text-xs text-gray-400 ml-auto">{s.village} · {s.age}</span>
+                    </label>
+                  ))}
+                  {candidates.length === 0 && <p className="p-4 text-center text-gray-500 text-sm">No other students match.</p>}
+                </div>
+                <Button onClick={() => handleAddPicked(selected)} disabled={picked.length === 0} className="w-full justify-center mt-2">
+                  Add {picked.length || ''} selected
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
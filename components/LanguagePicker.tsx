@@ -0,0 +1,27 @@
+import React from 'react';
+import { Language } from '../types';
+import { LANGUAGES, LANGUAGE_NAMES } from '../services/i18n';
+import { cn } from '../utils';
+
+// One button per language, each named in its own script so anyone can find theirs.
+export default function LanguagePicker({ value, onChange, className }: {
+  value: Language;
+  onChange: (language: Language) => void;
+  className?: string;
+}) {
+  return (
+    <div className={cn("flex justify-center gap-1 text-sm", className)}>
+      {LANGUAGES.map(l => (
+        <button
+          key={l}
+          lang={l}
+          onClick={() => onChange(l)}
+          aria-pressed={l === value}
+          className={cn("px-3 py-1 rounded-full", l === value ? "bg-blue-600 text-white" : "bg-gray-100 text-gray-700 hover:bg-gray-200")}
+        >
+          {LANGUAGE_NAMES[l]}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import React, { useEffect, useState } from 'react';
+import { AppSettings } from '../types';
+import { MockBackend } from '../services/mockBackend';
+import { LEADERBOARD_SIZE, LeaderboardEntry, LeaderboardPeriod, PERIOD_LABELS } from '../services/progress';
+import { DEFAULT_LANGUAGE, Translator, createTranslator } from '../services/i18n';
+import { Card } from './ui';
+import { cn } from '../utils';
+import GroupFilter from './GroupFilter';
+
+// Shared with the student dashboard, which passes its own translator; staff see English.
+const english = createTranslator(DEFAULT_LANGUAGE);
+
+export const PeriodTabs = ({ value, onChange, t = english }: {
+  value: LeaderboardPeriod;
+  onChange: (period: LeaderboardPeriod) => void;
+  t?: Translator;
+}) => (
+  <div className="flex gap-1 text-sm">
+    {(Object.keys(PERIOD_LABELS) as LeaderboardPeriod[]).map(p => (
+      <button
+        key={p}
+        onClick={() => onChange(p)}
+        className={cn("px-3 py-1 rounded-full", p === value ? "bg-blue-600 text-white" : "bg-gray-100 text-gray-700 hover:bg-gray-200")}
+      >
+        {t(`period.${p}` as const)}
+      </button>
+    ))}
+  </div>
+);
+
+export const LeaderboardTable = ({ entries, t = english }: { entries: LeaderboardEntry[]; t?: Translator }) => (
+  <div className="border rounded overflow-hidden">
+    <table className="min-w-full divide-y divide-gray-200">
+      <thead className="bg-gray-50">
+        <tr>
+          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('board.rank')}</th>
+          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('board.student')}</th>
+          <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">{t('board.points')}</th>
+          <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">{t('board.quizzes')}</th>
+        </tr>
+      </thead>
+      <tbody className="bg-white divide-y divide-gray-200">
+        {entries.map((e, i) => (
+          <tr key={e.studentId || `${e.rank}-${i}`} className={cn(e.isYou && "bg-blue-50 font-bold")}>
+            <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">{e.rank}</td>
+            <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">
+              {e.name}
+              {e.isYou && <span className="ml-2 text-xs text-blue-700">{t('board.you')}</span>}
+              {e.studentId && !e.isYou && <span className="ml-2 text-xs font-mono text-gray-400">{e.studentId}</span>}
+            </td>
+            <td className="px-4 py-2 whitespace-nowrap text-sm text-right text-gray-900">{e.points}</td>
+            <td className="px-4 py-2 whitespace-nowrap text-sm text-right text-gray-500">{e.quizzes}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+    {entries.length === 0 && <p className="text-center text-gray-500 p-4 text-sm">{t('board.empty')}</p>}
+  </div>
+);
+
+// Staff view of the leaderboard, with the owner's privacy settings for what students see.
+export default function Leaderboard({ canConfigure }: { canConfigure: boolean }) {
+  const [period, setPeriod] = useState<LeaderboardPeriod>('WEEK');
+  const [groupId, setGroupId] = useState('');
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+  const [settings, setSettings] = useState<AppSettings | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    MockBackend.getSettings().then(setSettings).catch((err: any) => setError(err.message));
+  }, []);
+
+  useEffect(() => {
+    const load = () => MockBackend.getLeaderboard(period, groupId || undefined).then(setEntries).catch((err: any) => setError(err.message));
+    load();
+    return MockBackend.subscribeToEvents(event => {
+      if (event.type === 'SUBMISSION_RECEIVED') load();
+    });
+  }, [period, groupId]);
+
+  const updateLeaderboard = async (changes: Partial<AppSettings['leaderboard']>) => {
+    if (!settings) return;
+    try {
+      setError('');
+      setSettings(await MockBackend.saveSettings({ ...settings, leaderboard: { ...settings.leaderboard, ...changes } }));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <Card className="lg:col-span-2 space-y-4">
+        <div className="flex justify-between items-center gap-4">
+          <h2 className="text-lg font-bold">Leaderboard</h2>
+          <GroupFilter value={groupId} onChange={setGroupId} />
+        </div>
+        <PeriodTabs value={period} onChange={setPeriod} />
+        {error && <div className="p-3 bg-red-100 text-red-700 rounded text-sm">{error}</div>}
+        <LeaderboardTable entries={entries} />
+      </Card>
+
+      {settings && (
+        <Card className="space-y-3">
+          <h2 className="text-lg font-bold">What Students See</h2>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={settings.leaderboard.enabled}
+              disabled={!canConfigure}
+              onChange={e => updateLeaderboard({ enabled: e.target.checked })}
+            />
+            Show the leaderboard to students
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={settings.leaderboard.initialsOnly}
+              disabled={!canConfigure || !settings.leaderboard.enabled}
+              onChange={e => updateLeaderboard({ initialsOnly: e.target.checked })}
+            />
+            Only rank and initials for other students
+          </label>
+          <p className="text-xs text-gray-500">
+            Students always see their own name and rank. They get the top {LEADERBOARD_SIZE} plus their own row, for everyone or for one of their groups.
+          </p>
+          {!canConfigure && <p className="text-xs text-gray-400">Only the owner can change these.</p>}
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+import React, { useEffect, useState } from 'react';
+import { LiveHostView, Quiz, QuizStatus } from '../types';
+import { MockBackend } from '../services/mockBackend';
+import { formatCorrectAnswer } from '../services/questionTypes';
+import { Button, Card, Select } from './ui';
+import RichText from './RichText';
+import { cn } from '../utils';
+
+// The host's screen for a quiz show, meant for the projector: the question and its
+// countdown, then how the room answered and who is ahead.
+export default function LiveShowHost() {
+  const [quizzes, setQuizzes] = useState<Quiz[]>([]);
+  const [quizId, setQuizId] = useState<string | null>(null);
+  const [show, setShow] = useState<LiveHostView | null>(null);
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  const loadQuizzes = async () => {
+    try {
+      const live = (await MockBackend.getQuizzes()).filter(q => q.live && q.publishedAt);
+      setQuizzes(live);
+      setQuizId(current => current ?? (live.find(q => q.status === QuizStatus.OPEN) || live[live.length - 1])?.id ?? null);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const loadShow = async (id = quizId) => {
+    if (!id) return;
+    try {
+      setShow(await MockBackend.getLiveShow(id));
+      setError('');
+    } catch (err: any) {
+      setShow(null);
+      setError(err.message);
+    }
+  };
+
+  useEffect(() => {
+    loadQuizzes();
+  }, []);
+
+  useEffect(() => {
+    loadShow();
+    const clock = setInterval(() => setNow(Date.now()), 250);
+    const unsubscribe = MockBackend.subscribeToEvents(event => {
+      if (event.type === 'QUIZ_PUBLISHED' || event.type === 'QUIZ_CLOSED') loadQuizzes();
+      if (
+        (event.type === 'LIVE_SHOW_UPDATED' || event.type === 'QUESTION_STARTED' || event.type === 'QUESTION_CLOSED' || event.type === 'LIVE_SHOW_ENDED') &&
+        event.data?.quizId === quizId
+      ) {
+        loadShow();
+      }
+    });
+    return () => {
+      clearInterval(clock);
+      unsubscribe();
+    };
+  }, [quizId]);
+
+  const run = async (action: (id: string) => Promise<LiveHostView>, confirmText?: string) => {
+    if (!quizId || (confirmText && !confirm(confirmText))) return;
+    setBusy(true);
+    try {
+      setShow(await action(quizId));
+      setError('');
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const secondsLeft = show?.questionEndsAt ? Math.max(0, Math.ceil((show.questionEndsAt - now) / 1000)) : 0;
+  const isLast = !!show && show.index + 1 >= show.total;
+  const mostPicked = Math.max(1, ...(show?.distribution?.options.map(o => o.count) || []));
+
+  return (
+    <div className="space-y-6">
+      <Card className="space-y-4">
+        <div className="flex justify-between items-center gap-4">
+          <div>
+            <h2 className="text-lg font-bold">Quiz Show</h2>
+            <p className="text-sm text-gray-500">
+              {show
+                ? `${show.players} players · ${show.index < 0 ? 'not started' : `question ${show.index + 1} of ${show.total}`}`
+                : 'Publish a quiz marked "Live quiz show" to host it here.'}
+            </p>
+          </div>
+          {quizzes.length > 0 && (
+            <Select value={quizId || ''} onChange={e => setQuizId(e.target.value)} className="max-w-[16rem]">
+              {quizzes.map(q => <option key={q.id} value={q.id}>{q.title} ({q.status})</option>)}
+            </Select>
+          )}
+        </div>
+        {error && <div className="p-3 bg-red-100 text-red-700 rounded">{error}</div>}
+
+        {show && show.phase !== 'ENDED' && (
+          <div className="flex flex-wrap gap-2">
+            {show.phase === 'QUESTION' ? (
+              <Button onClick={() => run(MockBackend.closeLiveQuestion)} disabled={busy}>Close question</Button>
+            ) : (
+              <Button onClick={() => run(MockBackend.startLiveQuestion)} disabled={busy || isLast}>
+                {show.index < 0 ? 'Start first question' : 'Next question'}
+              </Button>
+            )}
+            <Button
+              onClick={() => run(MockBackend.endLiveShow, "End the show? Everyone's answers are submitted and the quiz closes.")}
+              disabled={busy}
+              className="bg-red-100 text-red-700 hover:bg-red-200"
+            >
+              End show
+            </Button>
+          </div>
+        )}
+        {show?.phase === 'ENDED' && <p className="text-sm text-gray-600">The show is over. Results are in Reports and Analytics like any other quiz.</p>}
+      </Card>
+
+      {show?.question && show.phase !== 'WAITING' && (
+        <Card className="space-y-4">
+          <div className="flex justify-between items-start gap-4">
+            <RichText content={show.question.text} className="text-xl font-medium flex-1 min-w-0" />
+            {show.phase === 'QUESTION' && (
+              <div className={cn("text-4xl font-mono font-bold", secondsLeft <= 5 ? "text-red-600" : "text-gray-800")}>{secondsLeft}</div>
+            )}
+          </div>
+          {show.phase === 'QUESTION' && (
+            <p className="text-sm text-gray-600">
+              {show.answered} of {show.players} answered
+              {secondsLeft === 0 && ' · time is up, closing...'}
+            </p>
+          )}
+
+          {show.distribution && (
+            <div className="space-y-3">
+              {show.distribution.options.map(o => (
+                <div key={o.id} className="space-y-1">
+                  <div className="flex justify-between text-sm">
+                    <span className={cn(o.correct && "font-bold text-green-700")}>
+                      {o.correct && '✓ '}<RichText content={o.text} inline />
+                    </span>
+                    <span className="font-mono">{o.count}</span>
+                  </div>
+                  <div className="h-3 bg-gray-100 rounded">
+                    <div
+                      className={cn("h-3 rounded", o.correct ? "bg-green-500" : "bg-gray-400")}
+                      style={{ width: `${(o.count / mostPicked) * 100}%` }}
+                    />
+                  </div>
+                </div>
+              ))}
+              {show.distribution.options.length === 0 && (
+                <p className="text-sm">
+                  <span className="text-gray-500">Correct answer: </span>
+                  <RichText content={formatCorrectAnswer(show.question, true)} inline className="font-medium text-green-700" />
+                </p>
+              )}
+              <p className="text-sm text-gray-600">
+                {show.distribution.correct} right · {show.distribution.partial} partly right · {show.distribution.incorrect} wrong · {show.distribution.unanswered} no answer
+              </p>
+            </div>
+          )}
+        </Card>
+      )}
+
+      {show && show.standings.length > 0 && (
+        <Card className="space-y-3">
+          <h3 className="font-bold">Standings</h3>
+          <div className="border rounded overflow-hidden">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rank</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Student</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Right</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Points</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {show.standings.map(row => (
+                  <tr key={row.studentId}>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">{row.rank}</td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">
+                      {row.name}
+                      <span className="ml-2 text-xs font-mono text-gray-400">{row.studentId}</span>
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-right text-gray-500">{row.correct}</td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-right text-gray-900">{row.points}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+}
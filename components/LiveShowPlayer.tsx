@@ -0,0 +1,164 @@
+import React, { useEffect, useState } from 'react';
+import { AnswerValue, LiveStanding, LiveStudentView } from '../types';
+import { MockBackend } from '../services/mockBackend';
+import { Translator, translateError } from '../services/i18n';
+import { Button, Card } from './ui';
+import AnswerInput, { AnswerFeedback } from './AnswerInput';
+import RichText from './RichText';
+import { cn } from '../utils';
+
+const Standings = ({ rows, t }: { rows: LiveStanding[]; t: Translator }) => (
+  <div className="text-left">
+    <h3 className="text-sm font-bold text-gray-500 uppercase mb-2">{t('live.standings')}</h3>
+    <ol className="divide-y border rounded">
+      {rows.map(row => (
+        <li key={`${row.rank}:${row.name}`} className={cn("px-3 py-2 flex gap-3 text-sm", row.isYou && "bg-blue-50 font-medium")}>
+          <span className="w-6 text-gray-500">{row.rank}</span>
+          <span className="flex-1">{row.name} {row.isYou && <span className="text-gray-500">{t('board.you')}</span>}</span>
+          <span className="font-mono">{row.points}</span>
+        </li>
+      ))}
+    </ol>
+  </div>
+);
+
+// A student's screen during a quiz show. The host moves everyone along; this
+// screen fetches its view again whenever the show tells it something changed.
+export default function LiveShowPlayer({ quizId, studentId, onClose, t }: {
+  quizId: string;
+  studentId: string;
+  onClose: () => void;
+  t: Translator;
+}) {
+  const [view, setView] = useState<LiveStudentView | null>(null);
+  const [pending, setPending] = useState<AnswerValue | null>(null);
+  const [error, setError] = useState('');
+  const [now, setNow] = useState(Date.now());
+
+  const refresh = () =>
+    MockBackend.getLiveShowForStudent(quizId, studentId)
+      .then(setView)
+      .catch((err: any) => setError(translateError(t, err.message)));
+
+  useEffect(() => {
+    MockBackend.joinLiveShow(quizId, studentId)
+      .then(setView)
+      .catch((err: any) => setError(translateError(t, err.message)));
+    const clock = setInterval(() => setNow(Date.now()), 250);
+    // Events can be missed while the connection is coming back, so check in now and then too
+    const poll = setInterval(refresh, 5000);
+    const unsubscribe = MockBackend.subscribeToEvents(event => {
+      if (
+        (event.type === 'QUESTION_STARTED' || event.type === 'QUESTION_CLOSED' || event.type === 'LIVE_SHOW_ENDED') &&
+        event.data?.quizId === quizId
+      ) {
+        setError('');
+        refresh();
+      }
+    });
+    return () => {
+      clearInterval(clock);
+      clearInterval(poll);
+      unsubscribe();
+    };
+  }, [quizId, studentId]);
+
+  const handleAnswer = async (value: AnswerValue) => {
+    if (!view?.question) return;
+    setPending(value);
+    try {
+      setView(await MockBackend.answerLiveQuestion(quizId, studentId, view.question.id, value));
+    } catch (err: any) {
+      setError(translateError(t, err.message));
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const secondsLeft = view?.questionEndsAt ? Math.max(0, Math.ceil((view.questionEndsAt - now) / 1000)) : 0;
+  const feedback: AnswerFeedback | null =
+    pending !== null ? { value: pending, pending: true } :
+    view?.answer !== undefined ? { value: view.answer, pending: false, ...view.result } :
+    null;
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col items-center justify-center p-4">
+      <Card className="max-w-2xl w-full space-y-6">
+        <div className="flex justify-between items-center border-b pb-4">
+          <div>
+            <h2 className="text-xl font-bold">{view?.title || t('common.loading')}</h2>
+            {view && view.index >= 0 && (
+              <p className="text-sm text-gray-500">{t('runner.questionOf', { current: view.index + 1, total: view.total })}</p>
+            )}
+          </div>
+          {view && (
+            <div className="text-right">
+              <div className="text-lg font-bold text-blue-700">{t('live.points', { points: view.points })}</div>
+              {view.rank && <div className="text-xs text-gray-500">{t('live.rank', { rank: view.rank, players: view.players })}</div>}
+            </div>
+          )}
+        </div>
+        {error && <div className="p-3 bg-red-100 text-red-700 rounded">{error}</div>}
+
+        {view?.phase === 'WAITING' && (
+          <div className="py-12 text-center">
+            <h3 className="text-2xl font-light text-gray-600">{t('live.waiting')}</h3>
+            <p className="mt-2 text-gray-500">{t('live.players', { count: view.players })}</p>
+          </div>
+        )}
+
+        {(view?.phase === 'QUESTION' || view?.phase === 'REVEAL') && view.question && (
+          <div className="space-y-4">
+            {view.phase === 'QUESTION' && (
+              <div className={cn("text-center text-4xl font-mono font-bold", secondsLeft <= 5 ? "text-red-600" : "text-gray-800")}>
+                {secondsLeft}
+              </div>
+            )}
+            <RichText content={view.question.text} className="text-lg font-medium" />
+            <div key={view.question.id}>
+              <AnswerInput
+                question={view.question}
+                feedback={feedback}
+                onAnswer={handleAnswer}
+                disabled={view.phase !== 'QUESTION' || secondsLeft === 0}
+                t={t}
+              />
+            </div>
+            {view.phase === 'QUESTION' && view.answer !== undefined && (
+              <p className="text-center text-gray-500">{t('live.lockedIn')}</p>
+            )}
+            {view.phase === 'REVEAL' && (
+              <div className="text-center space-y-1">
+                {view.answer === undefined && (
+                  <>
+                    <p className="text-gray-600">{t('live.noAnswer')}</p>
+                    {view.result?.correctAnswer && (
+                      <RichText content={t('answer.correctAnswer', { answer: view.result.correctAnswer })} className="text-sm" />
+                    )}
+                  </>
+                )}
+                <p className="text-2xl font-bold text-blue-700">{t('live.earned', { points: view.result?.points ?? 0 })}</p>
+                <p className="text-sm text-gray-500">{t('live.nextSoon')}</p>
+              </div>
+            )}
+          </div>
+        )}
+
+        {view?.phase === 'ENDED' && (
+          <div className="py-6 text-center space-y-2">
+            <h3 className="text-2xl font-bold text-gray-800">{t('live.ended')}</h3>
+            {view.rank && <p className="text-lg">{t('live.rank', { rank: view.rank, players: view.players })}</p>}
+          </div>
+        )}
+
+        {view && view.phase !== 'QUESTION' && view.standings.length > 0 && <Standings rows={view.standings} t={t} />}
+
+        {(view?.phase === 'ENDED' || (!view && error)) && (
+          <div className="text-center">
+            <Button onClick={onClose}>{t('common.backToLobby')}</Button>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+import React, { useEffect, useState } from 'react';
+import { IntegrityEvent, LiveAttempt, ProctorConnection, Quiz, QuizStatus } from '../types';
+import { MockBackend } from '../services/mockBackend';
+import { INTEGRITY_LABELS } from '../services/proctoring';
+import { Card, Select } from './ui';
+import { cn, formatTime } from '../utils';
+
+const connectionBadge: Record<ProctorConnection, string> = {
+  CONNECTED: 'bg-green-100 text-green-800',
+  RECONNECTING: 'bg-yellow-100 text-yellow-800',
+  LOST: 'bg-red-100 text-red-800',
+  SUBMITTED: 'bg-gray-100 text-gray-700',
+};
+
+// "Left the tab ×2, Paste attempt" for the compact flags column.
+const summarizeEvents = (events: IntegrityEvent[]) => {
+  const counts = new Map<string, number>();
+  events.forEach(e => counts.set(INTEGRITY_LABELS[e.kind], (counts.get(INTEGRITY_LABELS[e.kind]) || 0) + 1));
+  return Array.from(counts.entries()).map(([label, n]) => (n > 1 ? `${label} ×${n}` : label));
+};
+
+// Live per-student view of a running quiz. Also works after the quiz closes,
+// as the place teachers review each student's integrity log.
+export default function ProctorBoard() {
+  const [quizzes, setQuizzes] = useState<Quiz[]>([]);
+  const [quizId, setQuizId] = useState<string | null>(null);
+  const [rows, setRows] = useState<LiveAttempt[]>([]);
+  const [selectedStudentId, setSelectedStudentId] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [error, setError] = useState('');
+
+  const loadQuizzes = async () => {
+    try {
+      const all = (await MockBackend.getQuizzes()).filter(q => q.publishedAt);
+      setQuizzes(all);
+      // Default to a quiz that is running, else the most recent one
+      setQuizId(current => current ?? (all.find(q => q.status === QuizStatus.OPEN) || all[all.length - 1])?.id ?? null);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  // Polled, so a failure shows until a later poll succeeds; the rows are then the last good ones
+  const loadBoard = async (id = quizId) => {
+    if (!id) return;
+    try {
+      setRows(await MockBackend.getLiveBoard(id));
+      setError('');
+    } catch (err: any) {
+      setError(`Board not updating: ${err.message}`);
+    }
+  };
+
+  useEffect(() => {
+    loadQuizzes();
+  }, []);
+
+  useEffect(() => {
+    loadBoard();
+    // Heartbeats don't raise events, so poll to notice students going quiet
+    const poll = setInterval(() => loadBoard(), 5000);
+    const clock = setInterval(() => setNow(Date.now()), 1000);
+    const unsubscribe = MockBackend.subscribeToEvents(event => {
+      if (event.type === 'QUIZ_PUBLISHED' || event.type === 'QUIZ_CLOSED') loadQuizzes();
+      if (
+        (event.type === 'ATTEMPT_PROGRESS' || event.type === 'INTEGRITY_EVENT' || event.type === 'SUBMISSION_RECEIVED') &&
+        event.data?.quizId === quizId
+      ) {
+        loadBoard();
+      }
+    });
+    return () => {
+      clearInterval(poll);
+      clearInterval(clock);
+      unsubscribe();
+    };
+  }, [quizId]);
+
+  const selected = rows.find(r => r.studentId === selectedStudentId);
+  const flagged = rows.filter(r => r.integrityEvents.length > 0).length;
+
+  return (
+    <div className="space-y-6">
+      <Card className="space-y-4">
+        <div className="flex justify-between items-center gap-4">
+          <div>
+            <h2 className="text-lg font-bold">Live Monitor</h2>
+            <p className="text-sm text-gray-500">
+              {rows.filter(r => r.connection !== 'SUBMITTED').length} in progress · {rows.filter(r => r.connection === 'SUBMITTED').length} submitted · {flagged} flagged
+            </p>
+          </div>
+          {quizzes.length > 0 && (
+            <Select
+              value={quizId || ''}
+              onChange={e => {
+                setQuizId(e.target.value);
+                setSelectedStudentId(null);
+              }}
+              className="max-w-[16rem]"
+            >
+              {quizzes.map(q => <option key={q.id} value={q.id}>{q.title} ({q.status})</option>)}
+            </Select>
+          )}
+        </div>
+        {error && <div className="p-3 bg-red-100 text-red-700 rounded">{error}</div>}
+
+        <div className="overflow-x-auto border rounded bg-white">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Code</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Question</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Time Left</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Connection</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Flags</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {rows.map(row => (
+                <tr
+                  key={row.studentId}
+                  onClick={() => setSelectedStudentId(row.studentId)}
+                  className={cn("cursor-pointer hover:bg-gray-50", selectedStudentId === row.studentId && "bg-blue-50")}
+                >
+                  <td className="px-4 py-2 whitespace-nowrap text-sm font-bold text-blue-600">{row.studentId}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">{row.studentName}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">
+                    {Math.min(row.currentIndex + 1, row.totalQuestions)}/{row.totalQuestions}
+                    <span className="text-gray-400"> · {row.answered} answered</span>
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm font-mono text-gray-700">
+                    {row.connection === 'SUBMITTED' ? '-' : formatTime(Math.max(0, Math.floor((row.deadline - now) / 1000)))}
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm">
+                    <span className={cn("px-2 py-0.5 rounded text-xs font-medium", connectionBadge[row.connection])}>{row.connection}</span>
+                  </td>
+                  <td className="px-4 py-2 text-sm">
+                    {row.integrityEvents.length === 0 ? (
+                      <span className="text-gray-400">-</span>
+                    ) : (
+                      <span className="text-red-700">{summarizeEvents(row.integrityEvents).join(', ')}</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {rows.length === 0 && <p className="text-center text-gray-500 p-4">No student has started this quiz yet.</p>}
+        </div>
+      </Card>
+
+      {selected && (
+        <Card className="space-y-3">
+          <h3 className="font-bold">Event log: {selected.studentName} ({selected.studentId})</h3>
+          {selected.integrityEvents.length === 0 ? (
+            <p className="text-sm text-gray-500">No integrity events recorded.</p>
+          ) : (
+            <ul className="divide-y border rounded text-sm">
+              {selected.integrityEvents.map((e, i) => (
+                <li key={i} className="px-3 py-2 flex gap-4">
+                  <span className="font-mono text-gray-500">{new Date(e.at).toLocaleTimeString()}</span>
+                  <span className="font-medium text-gray-900">{INTEGRITY_LABELS[e.kind]}</span>
+                  <span className="text-gray-500">Question {e.questionIndex + 1}</span>
+                  {e.detail && <span className="text-gray-500">{e.detail}</span>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </Card>
+      )}
+    </div>
+  );
+}
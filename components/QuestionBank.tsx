@@ -0,0 +1,320 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Difficulty, Language, Question, QuestionInput, QuestionType } from '../types';
+import { MockBackend } from '../services/mockBackend';
+import { QuestionFilter, matchesQuestionFilter, validateQuestion } from '../services/questionBank';
+import { Button, Input, Card, Select } from './ui';
+import QuestionImport from './QuestionImport';
+import AnswerKeyEditor, { withType } from './AnswerKeyEditor';
+import TranslationEditor from './TranslationEditor';
+import QuestionPreview from './QuestionPreview';
+import RichText, { rememberImages } from './RichText';
+import { QUESTION_TYPE_LABELS } from '../services/questionTypes';
+import { DEFAULT_LANGUAGE, LANGUAGES, LANGUAGE_NAMES, missingTranslations } from '../services/i18n';
+import { imageMarkdown, toPlainText } from '../services/richText';
+import { prepareImageFile } from '../services/images';
+import { cn } from '../utils';
+
+const emptyDraft = (): QuestionInput => ({
+  type: QuestionType.SINGLE_CHOICE,
+  text: '',
+  options: [{ id: 'a', text: '' }, { id: 'b', text: '' }],
+  correctAnswer: 'a',
+  subject: '',
+  difficulty: Difficulty.EASY,
+  gradeLevel: undefined,
+  tags: [],
+});
+
+const toDraft = ({ id, version, updatedAt, ...input }: Question): QuestionInput => ({
+  ...input,
+  options: (input.options || []).map(o => ({ ...o })),
+  correctAnswers: input.correctAnswers && [...input.correctAnswers],
+  acceptedAnswers: input.acceptedAnswers && [...input.acceptedAnswers],
+  translations: input.translations && { ...input.translations },
+  tags: [...input.tags],
+});
+
+const difficultyBadge: Record<Difficulty, string> = {
+  [Difficulty.EASY]: 'bg-green-100 text-green-800',
+  [Difficulty.MEDIUM]: 'bg-yellow-100 text-yellow-800',
+  [Difficulty.HARD]: 'bg-red-100 text-red-800',
+};
+
+export default function QuestionBank() {
+  const [questions, setQuestions] = useState<Question[]>([]);
+  const [filter, setFilter] = useState<QuestionFilter>({});
+  const [editingId, setEditingId] = useState<string | null>(null); // 'new' for a new question
+  const [draft, setDraft] = useState<QuestionInput>(emptyDraft());
+  const [tagText, setTagText] = useState('');
+  const [error, setError] = useState('');
+  const [listError, setListError] = useState(''); // Loading or changing the list; `error` is the editor's
+  const [importing, setImporting] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const imageInput = useRef<HTMLInputElement>(null);
+
+  const loadQuestions = async () => {
+    try {
+      setQuestions(await MockBackend.getQuestions());
+      setListError('');
+    } catch (err: any) {
+      setListError(err.message);
+    }
+  };
+
+  useEffect(() => {
+    loadQuestions();
+  }, []);
+
+  const subjects = Array.from(new Set<string>(questions.map(q => q.subject))).sort();
+  const tags = Array.from(new Set<string>(questions.flatMap(q => q.tags))).sort();
+  const grades = Array.from(new Set<number>(questions.map(q => q.gradeLevel).filter(g => g !== undefined)))
+    .sort((a, b) => a - b);
+  const visible = questions.filter(q => matchesQuestionFilter(q, filter));
+
+  const startEdit = (question: Question | null) => {
+    const next = question ? toDraft(question) : emptyDraft();
+    setEditingId(question ? question.id : 'new');
+    setDraft(next);
+    setTagText(next.tags.join(', '));
+    setError('');
+  };
+
+  const handleSave = async () => {
+    const input = { ...draft, tags: tagText.split(',') };
+    const errors = validateQuestion(input);
+    if (errors.length > 0) {
+      setError(errors.join('. '));
+      return;
+    }
+    try {
+      if (editingId === 'new') await MockBackend.createQuestion(input);
+      else if (editingId) await MockBackend.updateQuestion(editingId, input);
+      setEditingId(null);
+      await loadQuestions();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  // Uploads the picture to the bank and adds a reference to it at the end of the question.
+  const handleImage = async (file: File | undefined) => {
+    if (!file) return;
+    setUploading(true);
+    try {
+      const image = await MockBackend.uploadImage(file.name, await prepareImageFile(file));
+      rememberImages([image]);
+      const alt = file.name.replace(/\.[^.]+$/, '');
+      setDraft(d => ({ ...d, text: `${d.text.trimEnd()}\n\n${imageMarkdown(alt, image.id)}`.trimStart() }));
+      setError('');
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setUploading(false);
+      if (imageInput.current) imageInput.current.value = '';
+    }
+  };
+
+  const handleDuplicate = async (id: string) => {
+    try {
+      await MockBackend.duplicateQuestion(id);
+      await loadQuestions();
+    } catch (err: any) {
+      setListError(err.message);
+    }
+  };
+
+  const handleDelete = async (question: Question) => {
+    if (!confirm(`Delete "${toPlainText(question.text)}"? Published quizzes keep their copy.`)) return;
+    try {
+      await MockBackend.deleteQuestion(question.id);
+      if (editingId === question.id) setEditingId(null);
+      await loadQuestions();
+    } catch (err: any) {
+      setListError(err.message);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      {importing && (
+        <div className="lg:col-span-3">
+          <QuestionImport
+            existingTexts={questions.map(q => q.text)}
+            onImported={loadQuestions}
+            onClose={() => setImporting(false)}
+          />
+        </div>
+      )}
+      <Card className="lg:col-span-2 space-y-4">
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-bold">Question Bank ({visible.length}/{questions.length})</h2>
+          <div className="flex gap-2">
+            <Button onClick={() => setImporting(true)} className="bg-gray-700 hover:bg-gray-800">Import</Button>
+            <Button onClick={() => startEdit(null)} className="bg-green-600 hover:bg-green-700">New Question</Button>
+          </div>
+        </div>
+        {listError && <div className="p-3 bg-red-100 text-red-700 rounded text-sm">{listError}</div>}
+
+        <div className="grid grid-cols-2 md:grid-cols-7 gap-2">
+          <Input
+            className="col-span-2 md:col-span-1"
+            placeholder="Search..."
+            value={filter.search || ''}
+            onChange={e => setFilter({ ...filter, search: e.target.value })}
+          />
+          <Select
+            value={filter.type || ''}
+            onChange={e => setFilter({ ...filter, type: (e.target.value as QuestionType) || undefined })}
+          >
+            <option value="">All types</option>
+            {Object.values(QuestionType).map(t => <option key={t} value={t}>{QUESTION_TYPE_LABELS[t]}</option>)}
+          </Select>
+          <Select value={filter.subject || ''} onChange={e => setFilter({ ...filter, subject: e.target.value || undefined })}>
+            <option value="">All subjects</option>
+            {subjects.map(s => <option key={s} value={s}>{s}</option>)}
+          </Select>
+          <Select
+            value={filter.difficulty || ''}
+            onChange={e => setFilter({ ...filter, difficulty: (e.target.value as Difficulty) || undefined })}
+          >
+            <option value="">All difficulties</option>
+            {Object.values(Difficulty).map(d => <option key={d} value={d}>{d}</option>)}
+          </Select>
+          <Select
+            value={filter.gradeLevel ?? ''}
+            onChange={e => setFilter({ ...filter, gradeLevel: e.target.value ? parseInt(e.target.value) : undefined })}
+          >
+            <option value="">All grades</option>
+            {grades.map(g => <option key={g} value={g}>Grade {g}</option>)}
+          </Select>
+          <Select value={filter.tag || ''} onChange={e => setFilter({ ...filter, tag: e.target.value || undefined })}>
+            <option value="">All tags</option>
+            {tags.map(t => <option key={t} value={t}>{t}</option>)}
+          </Select>
+          <Select
+            value={filter.missingLanguage || ''}
+            onChange={e => setFilter({ ...filter, missingLanguage: (e.target.value as Language) || undefined })}
+          >
+            <option value="">Any translation</option>
+            {LANGUAGES.filter(l => l !== DEFAULT_LANGUAGE).map(l => (
+              <option key={l} value={l}>Missing {LANGUAGE_NAMES[l]}</option>
+            ))}
+          </Select>
+        </div>
+
+        <div className="h-[32rem] overflow-y-auto border rounded divide-y">
+          {visible.map(q => (
+            <div key={q.id} className={cn("p-3 flex justify-between gap-4", editingId === q.id && "bg-blue-50")}>
+              <div className="space-y-1 min-w-0">
+                <RichText content={q.text} className="font-medium text-gray-900" />
+                <div className="flex flex-wrap gap-1 text-xs">
+                  <span className="px-2 py-0.5 rounded bg-gray-800 text-white">{QUESTION_TYPE_LABELS[q.type]}</span>
+                  <span className="px-2 py-0.5 rounded bg-gray-100 text-gray-700">{q.subject}</span>
+                  <span className={cn("px-2 py-0.5 rounded", difficultyBadge[q.difficulty])}>{q.difficulty}</span>
+                  {q.gradeLevel !== undefined && <span className="px-2 py-0.5 rounded bg-purple-100 text-purple-800">Grade {q.gradeLevel}</span>}
+                  {q.tags.map(t => <span key={t} className="px-2 py-0.5 rounded bg-blue-100 text-blue-800">#{t}</span>)}
+                  {missingTranslations(q).map(l => (
+                    <span key={l} className="px-2 py-0.5 rounded bg-orange-100 text-orange-800">no {LANGUAGE_NAMES[l]}</span>
+                  ))}
+                  <span className="px-2 py-0.5 text-gray-400">v{q.version}</span>
+                </div>
+              </div>
+              <div className="flex gap-2 shrink-0 items-start">
+                <button onClick={() => startEdit(q)} className="text-sm text-blue-600 hover:underline">Edit</button>
+                <button onClick={() => handleDuplicate(q.id)} className="text-sm text-gray-600 hover:underline">Duplicate</button>
+                <button onClick={() => handleDelete(q)} className="text-sm text-red-600 hover:underline">Delete</button>
+              </div>
+            </div>
+          ))}
+          {visible.length === 0 && <p className="text-center text-gray-500 p-4">No questions match.</p>}
+        </div>
+      </Card>
+
+      <Card className="space-y-4">
+        {!editingId ? (
+          <p className="text-gray-500 text-sm">Select a question to edit, or create a new one.</p>
+        ) : (
+          <>
+            <h2 className="text-lg font-bold">{editingId === 'new' ? 'New Question' : 'Edit Question'}</h2>
+            {error && <div className="p-3 bg-red-100 text-red-700 rounded text-sm">{error}</div>}
+            <div>
+              <div className="flex justify-between items-center mb-1">
+                <label className="block text-sm font-medium text-gray-700">Question</label>
+                <button onClick={() => imageInput.current?.click()} disabled={uploading} className="text-sm text-blue-600 hover:underline disabled:opacity-50">
+                  {uploading ? 'Uploading...' : 'Insert image'}
+                </button>
+                <input
+                  ref={imageInput}
+                  type="file"
+                  accept="image/png,image/jpeg,image/gif,image/webp"
+                  className="hidden"
+                  onChange={e => handleImage(e.target.files?.[0])}
+                />
+              </div>
+              <textarea
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 font-mono text-sm"
+                rows={4}
+                value={draft.text}
+                onChange={e => setDraft({ ...draft, text: e.target.value })}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Questions, options and explanations take **bold**, *italic*, `code`, $x^2$ or $$math$$ on its own
+                line, ``` code blocks and - lists.
+              </p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+              <Select value={draft.type} onChange={e => setDraft(withType(draft, e.target.value as QuestionType))}>
+                {Object.values(QuestionType).map(t => <option key={t} value={t}>{QUESTION_TYPE_LABELS[t]}</option>)}
+              </Select>
+            </div>
+            <AnswerKeyEditor draft={draft} onChange={setDraft} />
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Explanation (shown in the post-quiz review)</label>
+              <textarea
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                rows={2}
+                value={draft.explanation || ''}
+                onChange={e => setDraft({ ...draft, explanation: e.target.value })}
+              />
+            </div>
+            <QuestionPreview draft={draft} />
+            <TranslationEditor draft={draft} onChange={setDraft} />
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Subject</label>
+                <Input value={draft.subject} onChange={e => setDraft({ ...draft, subject: e.target.value })} list="bank-subjects" />
+                <datalist id="bank-subjects">
+                  {subjects.map(s => <option key={s} value={s} />)}
+                </datalist>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Difficulty</label>
+                <Select value={draft.difficulty} onChange={e => setDraft({ ...draft, difficulty: e.target.value as Difficulty })}>
+                  {Object.values(Difficulty).map(d => <option key={d} value={d}>{d}</option>)}
+                </Select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Grade level</label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={draft.gradeLevel ?? ''}
+                  onChange={e => setDraft({ ...draft, gradeLevel: e.target.value ? parseInt(e.target.value) : undefined })}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Tags</label>
+                <Input value={tagText} onChange={e => setTagText(e.target.value)} placeholder="algebra, fractions" />
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={handleSave} className="flex-1">Save</Button>
+              <Button onClick={() => setEditingId(null)} className="bg-gray-200 text-gray-800 hover:bg-gray-300">Cancel</Button>
+            </div>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { Difficulty } from '../types';
+import { MockBackend } from '../services/mockBackend';
+import { ImportFormat, ImportRow, detectFormat, isImportable, parseQuestionFile } from '../services/questionImport';
+import { QUESTION_TYPE_LABELS, formatCorrectAnswer } from '../services/questionTypes';
+import { Button, Input, Card, Select } from './ui';
+import { cn } from '../utils';
+
+const FORMAT_LABELS: Record<ImportFormat, string> = {
+  CSV: 'CSV (spreadsheet)',
+  GIFT: 'GIFT',
+  MOODLE_XML: 'Moodle XML',
+};
+
+const CSV_HINT =
+  'Columns: question, type, option a … option f (or options as "a=…|b=…"), correct, tolerance, subject, difficulty, grade, tags, explanation';
+
+// Parse a file, preview every question with its problems, then add the valid ones.
+export default function QuestionImport({ existingTexts, onImported, onClose }: {
+  existingTexts: string[];
+  onImported: () => void;
+  onClose: () => void;
+}) {
+  const [format, setFormat] = useState<ImportFormat>('CSV');
+  const [source, setSource] = useState('');
+  const [subject, setSubject] = useState('General');
+  const [difficulty, setDifficulty] = useState<Difficulty>(Difficulty.MEDIUM);
+  const [rows, setRows] = useState<ImportRow[] | null>(null);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const preview = (text = source, fmt = format) => {
+    setError('');
+    setMessage('');
+    try {
+      setRows(parseQuestionFile(fmt, text, { subject: subject.trim() || 'General', difficulty }, existingTexts));
+    } catch (err: any) {
+      setRows(null);
+      setError(err.message);
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const text = await file.text();
+    const fmt = detectFormat(file.name, text);
+    setFormat(fmt);
+    setSource(text);
+    preview(text, fmt);
+  };
+
+  const importable = (rows || []).filter(isImportable);
+
+  const handleImport = async () => {
+    try {
+      const { added, skipped } = await MockBackend.importQuestions(importable.map(r => r.input!));
+      setMessage(`Added ${added.length} questions${skipped ? `, skipped ${skipped} already in the bank` : ''}.`);
+      setRows(null);
+      setSource('');
+      onImported();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <Card className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-lg font-bold">Import Questions</h2>
+        <button onClick={onClose} className="text-sm text-gray-600 hover:underline">Close</button>
+      </div>
+      {error && <div className="p-3 bg-red-100 text-red-700 rounded text-sm">{error}</div>}
+      {message && <div className="p-3 bg-green-100 text-green-800 rounded text-sm">{message}</div>}
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-2 items-end">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">File</label>
+          <input
+            type="file"
+            accept=".csv,.txt,.gift,.xml"
+            onChange={e => {
+              handleFile(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+            className="block w-full text-sm text-gray-600"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Format</label>
+          <Select value={format} onChange={e => setFormat(e.target.value as ImportFormat)}>
+            {Object.entries(FORMAT_LABELS).map(([f, label]) => <option key={f} value={f}>{label}</option>)}
+          </Select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Default subject</label>
+          <Input value={subject} onChange={e => setSubject(e.target.value)} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Default difficulty</label>
+          <Select value={difficulty} onChange={e => setDifficulty(e.target.value as Difficulty)}>
+            {Object.values(Difficulty).map(d => <option key={d} value={d}>{d}</option>)}
+          </Select>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Or paste the file contents</label>
+        <textarea
+          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm font-mono text-xs focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          rows={6}
+          value={source}
+          onChange={e => setSource(e.target.value)}
+          placeholder={format === 'CSV' ? CSV_HINT : format === 'GIFT' ? '::Q1:: 2 + 2 = ? { =4 ~3 ~5 }' : '<quiz><question type="multichoice">…</question></quiz>'}
+        />
+        <Button onClick={() => preview()} disabled={!source.trim()} className="mt-2">Preview</Button>
+      </div>
+
+      {rows && (
+        <>
+          <div className="flex justify-between items-center">
+            <p className="text-sm text-gray-600">
+              {importable.length} of {rows.length} ready to add ·{' '}
+              {rows.filter(r => r.duplicate).length} duplicates · {rows.filter(r => r.errors.length > 0).length} with errors
+            </p>
+            <Button onClick={handleImport} disabled={importable.length === 0} className="bg-green-600 hover:bg-green-700">
+              Add {importable.length} Questions
+            </Button>
+          </div>
+          <div className="max-h-96 overflow-y-auto border rounded divide-y">
+            {rows.map((row, i) => (
+              <div
+                key={i}
+                className={cn("p-3 text-sm", row.errors.length > 0 ? "bg-red-50" : row.duplicate ? "bg-yellow-50" : "bg-white")}
+              >
+                <div className="flex justify-between gap-4">
+                  <span className="font-medium text-gray-900">{row.input?.text || <em className="text-gray-400">(no question text)</em>}</span>
+                  <span className="text-xs text-gray-500 shrink-0">{row.source}</span>
+                </div>
+                {row.input && row.errors.length === 0 && (
+                  <div className="text-xs text-gray-600 mt-1">
+                    {(row.input.options || []).map(o => (
+                      <span key={o.id} className="mr-3">{o.id.toUpperCase()}. {o.text}</span>
+                    ))}
+                    <span className="font-bold text-green-700 mr-3">Answer: {formatCorrectAnswer(row.input)}</span>
+                    <span className="text-gray-400">
+                      {QUESTION_TYPE_LABELS[row.input.type]} · {row.input.subject} · {row.input.difficulty}
+                    </span>
+                  </div>
+                )}
+                {row.errors.map(e => <p key={e} className="text-xs text-red-700 mt-1">{e}</p>)}
+                {row.duplicate && row.errors.length === 0 && (
+                  <p className="text-xs text-yellow-800 mt-1">Already in the bank; will be skipped</p>
+                )}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,26 @@
+import React from 'react';
+import { QuestionInput, QuestionType } from '../types';
+import { choicesFor } from '../services/questionTypes';
+import RichText from './RichText';
+
+// The draft as a student will see it, updated as the teacher types.
+export default function QuestionPreview({ draft }: { draft: QuestionInput }) {
+  const options = draft.type === QuestionType.ORDERING ? draft.options || [] : choicesFor(draft);
+  return (
+    <div className="space-y-2 border rounded-md p-3 bg-gray-50">
+      <p className="text-xs font-medium text-gray-500 uppercase tracking-wider">Preview</p>
+      {draft.text.trim() ? <RichText content={draft.text} className="font-medium" /> : <p className="text-gray-400 text-sm">Nothing to preview yet.</p>}
+      {options.length > 0 && (
+        <ul className="space-y-1 text-sm">
+          {options.map((opt, i) => (
+            <li key={opt.id} className="p-2 border rounded bg-white">
+              <span className="font-bold mr-2">{draft.type === QuestionType.ORDERING ? `${i + 1}.` : `${String.fromCharCode(65 + i)}.`}</span>
+              <RichText content={opt.text} inline />
+            </li>
+          ))}
+        </ul>
+      )}
+      {draft.explanation?.trim() && <RichText content={draft.explanation} className="text-sm text-gray-700 bg-blue-50 rounded p-2" />}
+    </div>
+  );
+}
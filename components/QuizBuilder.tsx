@@ -0,0 +1,461 @@
+import React, { useEffect, useState } from 'react';
+import { Difficulty, FeedbackPolicy, Group, Question, Quiz, QuizDrawRule, QuizStatus } from '../types';
+import { MockBackend } from '../services/mockBackend';
+import { matchesQuestionFilter } from '../services/questionBank';
+import { describeRule } from '../services/quizBuilder';
+import { describeAudience } from '../services/groups';
+import { LANGUAGE_NAMES, missingTranslations } from '../services/i18n';
+import { Button, Input, Card, Select } from './ui';
+import { cn } from '../utils';
+
+const statusBadge: Record<QuizStatus, string> = {
+  [QuizStatus.DRAFT]: 'bg-gray-100 text-gray-700',
+  [QuizStatus.SCHEDULED]: 'bg-blue-100 text-blue-800',
+  [QuizStatus.OPEN]: 'bg-green-100 text-green-800',
+  [QuizStatus.CLOSED]: 'bg-red-100 text-red-800',
+};
+
+const FEEDBACK_LABELS: Record<FeedbackPolicy, string> = {
+  [FeedbackPolicy.NONE]: 'None: only "answer saved"',
+  [FeedbackPolicy.SELECTION]: 'Right or wrong',
+  [FeedbackPolicy.SHOW_CORRECT]: 'Right or wrong, and the right answer',
+};
+
+const defaultTitle = () => `Daily Quiz - ${new Date().toLocaleDateString()}`;
+
+// <input type="datetime-local"> works in local time without a zone suffix
+const parseLocalDateTime = (value: string) => (value ? new Date(value).getTime() : undefined);
+
+// Empty means the setting is off
+const parseOptionalNumber = (value: string) => (value.trim() ? parseFloat(value) : undefined);
+
+const formatScoring = (quiz: Quiz) =>
+  [
+    quiz.passPercent !== undefined && `pass ${quiz.passPercent}%`,
+    quiz.negativeMarkPercent && `−${quiz.negativeMarkPercent}% if wrong`,
+    quiz.timeBonusPercent && `+${quiz.timeBonusPercent}% speed bonus`,
+    quiz.reviewAfterClose && 'review after close',
+    quiz.live && 'live show',
+  ].filter(Boolean).join(' · ');
+
+const formatWindow = (quiz: Quiz) => {
+  const opens = quiz.opensAt ? new Date(quiz.opensAt).toLocaleString() : 'on publish';
+  const closes = quiz.closesAt ? new Date(quiz.closesAt).toLocaleString() : 'when closed';
+  return `${opens} → ${closes}`;
+};
+
+// Publishing goes ahead either way: untranslated parts are shown in English.
+const confirmTranslations = (questions: Question[]) => {
+  const gaps = questions.flatMap(q => {
+    const missing = missingTranslations(q);
+    return missing.length > 0 ? [`• ${q.text} (${missing.map(l => LANGUAGE_NAMES[l]).join(', ')})`] : [];
+  });
+  if (gaps.length === 0) return true;
+  const more = gaps.length > 10 ? `\n...and ${gaps.length - 10} more` : '';
+  return confirm(
+    `${gaps.length} question${gaps.length === 1 ? ' is' : 's are'} missing translations, so some students will see English:\n` +
+      `${gaps.slice(0, 10).join('\n')}${more}\n\nPublish anyway?`,
+  );
+};
+
+export default function QuizBuilder({ onPublished }: { onPublished?: () => void }) {
+  const [bank, setBank] = useState<Question[]>([]);
+  const [quizzes, setQuizzes] = useState<Quiz[]>([]);
+  const [groups, setGroups] = useState<Group[]>([]);
+
+  // Quiz settings
+  const [title, setTitle] = useState(defaultTitle());
+  const [durationMinutes, setDurationMinutes] = useState('10');
+  const [secondsPerQuestion, setSecondsPerQuestion] = useState('60');
+  const [shuffleQuestions, setShuffleQuestions] = useState(false);
+  const [shuffleOptions, setShuffleOptions] = useState(false);
+  const [opensAt, setOpensAt] = useState('');
+  const [closesAt, setClosesAt] = useState('');
+  const [points, setPoints] = useState<Record<string, string>>({});
+  const [negativeMarkPercent, setNegativeMarkPercent] = useState('');
+  const [timeBonusPercent, setTimeBonusPercent] = useState('');
+  const [passPercent, setPassPercent] = useState('');
+  const [feedbackPolicy, setFeedbackPolicy] = useState<FeedbackPolicy>(FeedbackPolicy.SELECTION);
+  const [reviewAfterClose, setReviewAfterClose] = useState(false);
+  const [live, setLive] = useState(false);
+  const [groupIds, setGroupIds] = useState<string[]>([]); // None picked: every student
+
+  // Question selection
+  const [mode, setMode] = useState<'MANUAL' | 'RULES'>('MANUAL');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [search, setSearch] = useState('');
+  const [rules, setRules] = useState<QuizDrawRule[]>([{ count: 10 }]);
+  const [error, setError] = useState('');
+
+  const loadData = async () => {
+    try {
+      setBank(await MockBackend.getQuestions());
+      setQuizzes(await MockBackend.getQuizzes());
+      setGroups(await MockBackend.getGroups());
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const subjects = Array.from(new Set<string>(bank.map(q => q.subject))).sort();
+  const tags = Array.from(new Set<string>(bank.flatMap(q => q.tags))).sort();
+  const questionById = (id: string): Question | undefined => bank.find(q => q.id === id);
+  const searchResults = bank.filter(q => matchesQuestionFilter(q, { search }));
+
+  const toggleQuestion = (id: string) => {
+    setSelectedIds(selectedIds.includes(id) ? selectedIds.filter(x => x !== id) : [...selectedIds, id]);
+  };
+
+  const moveQuestion = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= selectedIds.length) return;
+    const next = [...selectedIds];
+    [next[index], next[target]] = [next[target], next[index]];
+    setSelectedIds(next);
+  };
+
+  const updateRule = (index: number, patch: Partial<QuizDrawRule>) => {
+    setRules(rules.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+  };
+
+  const handleDraw = async () => {
+    try {
+      setSelectedIds(await MockBackend.drawQuestions(rules));
+      setError('');
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleSave = async (publish: boolean) => {
+    const duration = parseInt(durationMinutes);
+    const perQuestion = parseInt(secondsPerQuestion);
+    if (isNaN(duration) || isNaN(perQuestion)) {
+      setError('Duration and seconds per question must be numbers');
+      return;
+    }
+    if (publish && !confirmTranslations(selectedIds.map(questionById).filter((q): q is Question => !!q))) return;
+    // Only questions still selected and not left at the default of 1 point
+    const questionPoints: Record<string, number> = {};
+    selectedIds.forEach(id => {
+      if (points[id]?.trim() && parseFloat(points[id]) !== 1) questionPoints[id] = parseFloat(points[id]);
+    });
+    try {
+      const quiz = await MockBackend.createQuiz({
+        id: `quiz-${Date.now().toString(36)}`,
+        title,
+        durationMinutes: duration,
+        secondsPerQuestion: perQuestion,
+        questionIds: selectedIds,
+        status: QuizStatus.DRAFT,
+        opensAt: parseLocalDateTime(opensAt),
+        closesAt: parseLocalDateTime(closesAt),
+        shuffleQuestions,
+        shuffleOptions,
+        points: Object.keys(questionPoints).length > 0 ? questionPoints : undefined,
+        negativeMarkPercent: parseOptionalNumber(negativeMarkPercent),
+        timeBonusPercent: parseOptionalNumber(timeBonusPercent),
+        passPercent: parseOptionalNumber(passPercent),
+        feedbackPolicy,
+        reviewAfterClose,
+        live: live || undefined,
+        groupIds: groupIds.length > 0 ? groupIds : undefined,
+      });
+      if (publish) {
+        await MockBackend.publishQuiz(quiz.id);
+        onPublished?.();
+      }
+      setSelectedIds([]);
+      setPoints({});
+      setTitle(defaultTitle());
+      setOpensAt('');
+      setClosesAt('');
+      setGroupIds([]);
+      setError('');
+      await loadData();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handlePublish = async (quiz: Quiz) => {
+    if (!confirmTranslations(quiz.questionIds.map(questionById).filter((q): q is Question => !!q))) return;
+    try {
+      await MockBackend.publishQuiz(quiz.id);
+      onPublished?.();
+      await loadData();
+    } catch (err: any) {
+      alert(err.message);
+    }
+  };
+
+  const handleClose = async (quiz: Quiz) => {
+    if (!confirm(`Close "${quiz.title}" now? Students still taking it will be submitted.`)) return;
+    try {
+      await MockBackend.closeQuiz(quiz.id);
+      await loadData();
+    } catch (err: any) {
+      alert(err.message);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card className="space-y-4">
+          <h2 className="text-lg font-bold">Quiz Builder</h2>
+          {error && <div className="p-3 bg-red-100 text-red-700 rounded text-sm">{error}</div>}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Title</label>
+            <Input value={title} onChange={e => setTitle(e.target.value)} />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Total minutes</label>
+              <Input type="number" min={1} value={durationMinutes} onChange={e => setDurationMinutes(e.target.value)} />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Seconds / question</label>
+              <Input type="number" min={1} value={secondsPerQuestion} onChange={e => setSecondsPerQuestion(e.target.value)} />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Opens (empty: on publish)</label>
+              <Input type="datetime-local" value={opensAt} onChange={e => setOpensAt(e.target.value)} />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Closes (empty: close by hand)</label>
+              <Input type="datetime-local" value={closesAt} onChange={e => setClosesAt(e.target.value)} />
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Pass mark % (empty: none)</label>
+              <Input type="number" min={0} max={100} value={passPercent} onChange={e => setPassPercent(e.target.value)} />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Wrong answer loses %</label>
+              <Input type="number" min={0} max={100} value={negativeMarkPercent} onChange={e => setNegativeMarkPercent(e.target.value)} placeholder="0" />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Speed bonus up to %</label>
+              <Input type="number" min={0} max={100} value={timeBonusPercent} onChange={e => setTimeBonusPercent(e.target.value)} placeholder="0" />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            Percentages are of each question's points. Skipped and timed-out questions never lose points.
+          </p>
+          <div className="grid grid-cols-2 gap-3 items-end">
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Feedback after each answer</label>
+              <Select value={feedbackPolicy} onChange={e => setFeedbackPolicy(e.target.value as FeedbackPolicy)}>
+                {Object.values(FeedbackPolicy).map(p => <option key={p} value={p}>{FEEDBACK_LABELS[p]}</option>)}
+              </Select>
+            </div>
+            <label className="flex items-center gap-2 text-sm pb-2">
+              <input type="checkbox" checked={reviewAfterClose} onChange={e => setReviewAfterClose(e.target.checked)} />
+              Answer review once the quiz closes
+            </label>
+          </div>
+          {groups.length > 0 && (
+            <div>
+              <span className="block text-xs font-medium text-gray-700 mb-1">
+                Publish to {groupIds.length === 0 && <span className="font-normal text-gray-500">(none picked: every student)</span>}
+              </span>
+              <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+                {groups.map(g => (
+                  <label key={g.id} className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={groupIds.includes(g.id)}
+                      onChange={() => setGroupIds(ids => (ids.includes(g.id) ? ids.filter(id => id !== g.id) : [...ids, g.id]))}
+                    />
+                    {g.name} <span className="text-xs text-gray-400">({g.studentIds.length})</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+          <div className="flex gap-6 text-sm">
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={shuffleQuestions} onChange={e => setShuffleQuestions(e.target.checked)} />
+              Shuffle question order per student
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={shuffleOptions} onChange={e => setShuffleOptions(e.target.checked)} />
+              Shuffle options per student
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={live} onChange={e => setLive(e.target.checked)} />
+              Live quiz show
+            </label>
+          </div>
+          {live && (
+            <p className="text-xs text-gray-500">
+              You move the class through the questions together from the Quiz Show tab. Each question gets the seconds per
+              question above; quicker right answers score more show points. Question order is not shuffled.
+            </p>
+          )}
+
+          <div className="flex gap-2 border-b">
+            {([['MANUAL', 'Pick by hand'], ['RULES', 'Random draw']] as const).map(([m, label]) => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className={cn("px-3 py-2 text-sm font-medium border-b-2", mode === m ? "border-blue-600 text-blue-600" : "border-transparent text-gray-500")}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {mode === 'MANUAL' ? (
+            <div className="space-y-2">
+              <Input placeholder="Search the bank..." value={search} onChange={e => setSearch(e.target.value)} />
+              <div className="h-64 overflow-y-auto border rounded divide-y">
+                {searchResults.map(q => (
+                  <label key={q.id} className="flex items-start gap-2 p-2 text-sm cursor-pointer hover:bg-gray-50">
+                    <input type="checkbox" className="mt-1" checked={selectedIds.includes(q.id)} onChange={() => toggleQuestion(q.id)} />
+                    <span className="flex-1">{q.text}</span>
+                    <span className="text-xs text-gray-400">{q.difficulty}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {rules.map((rule, i) => (
+                <div key={i} className="grid grid-cols-12 gap-2 items-center">
+                  <Input
+                    className="col-span-2"
+                    type="number"
+                    min={1}
+                    value={rule.count}
+                    onChange={e => updateRule(i, { count: parseInt(e.target.value) || 0 })}
+                  />
+                  <Select
+                    className="col-span-3"
+                    value={rule.difficulty || ''}
+                    onChange={e => updateRule(i, { difficulty: (e.target.value as Difficulty) || undefined })}
+                  >
+                    <option value="">Any difficulty</option>
+                    {Object.values(Difficulty).map(d => <option key={d} value={d}>{d}</option>)}
+                  </Select>
+                  <Select className="col-span-3" value={rule.subject || ''} onChange={e => updateRule(i, { subject: e.target.value || undefined })}>
+                    <option value="">Any subject</option>
+                    {subjects.map(s => <option key={s} value={s}>{s}</option>)}
+                  </Select>
+                  <Select className="col-span-3" value={rule.tag || ''} onChange={e => updateRule(i, { tag: e.target.value || undefined })}>
+                    <option value="">Any tag</option>
+                    {tags.map(t => <option key={t} value={t}>{t}</option>)}
+                  </Select>
+                  <button onClick={() => setRules(rules.filter((_, j) => j !== i))} className="col-span-1 text-red-600 text-sm">✕</button>
+                </div>
+              ))}
+              <div className="flex justify-between items-center">
+                <button onClick={() => setRules([...rules, { count: 1 }])} className="text-sm text-blue-600 hover:underline">+ Add rule</button>
+                <Button onClick={handleDraw} disabled={rules.length === 0}>Draw Questions</Button>
+              </div>
+              <p className="text-xs text-gray-500">{rules.map(describeRule).join(' + ')}</p>
+            </div>
+          )}
+        </Card>
+
+        <Card className="space-y-4">
+          <h2 className="text-lg font-bold">
+            Selected Questions ({selectedIds.length}) ·{' '}
+            {selectedIds.reduce((sum, id) => sum + (parseFloat(points[id]) || 1), 0)} points
+          </h2>
+          <ol className="h-96 overflow-y-auto border rounded divide-y">
+            {selectedIds.map((id, i) => {
+              const question = questionById(id);
+              const missing = question ? missingTranslations(question) : [];
+              return (
+                <li key={id} className="flex items-center gap-2 p-2 text-sm">
+                  <span className="w-6 text-gray-400">{i + 1}.</span>
+                  <span className="flex-1">{question?.text || id}</span>
+                  {missing.length > 0 && (
+                    <span className="text-xs px-1.5 rounded bg-orange-100 text-orange-800" title="Missing translations">
+                      no {missing.map(l => LANGUAGE_NAMES[l]).join('/')}
+                    </span>
+                  )}
+                  <Input
+                    type="number"
+                    min={0}
+                    step="any"
+                    className="w-16 py-1 text-xs"
+                    title="Points"
+                    placeholder="1"
+                    value={points[id] ?? ''}
+                    onChange={e => setPoints({ ...points, [id]: e.target.value })}
+                  />
+                  <span className="text-xs text-gray-400">pts</span>
+                  <button onClick={() => moveQuestion(i, -1)} className="text-gray-500 hover:text-gray-800">↑</button>
+                  <button onClick={() => moveQuestion(i, 1)} className="text-gray-500 hover:text-gray-800">↓</button>
+                  <button onClick={() => toggleQuestion(id)} className="text-red-600">✕</button>
+                </li>
+              );
+            })}
+            {selectedIds.length === 0 && <li className="p-4 text-center text-gray-500">No questions selected yet.</li>}
+          </ol>
+          <div className="flex gap-2">
+            <Button onClick={() => handleSave(false)} disabled={selectedIds.length === 0} className="flex-1 bg-gray-700 hover:bg-gray-800">
+              Save as Draft
+            </Button>
+            <Button onClick={() => handleSave(true)} disabled={selectedIds.length === 0} className="flex-1 bg-green-600 hover:bg-green-700">
+              Save & Publish
+            </Button>
+          </div>
+        </Card>
+      </div>
+
+      <Card>
+        <h2 className="text-lg font-bold mb-4">Quizzes</h2>
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Title</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Questions</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Timing</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Window</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">For</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+              <th className="px-4 py-2"></th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {quizzes.map(quiz => (
+              <tr key={quiz.id}>
+                <td className="px-4 py-2 text-sm font-medium text-gray-900">{quiz.title}</td>
+                <td className="px-4 py-2 text-sm text-gray-700">{quiz.questionIds.length}</td>
+                <td className="px-4 py-2 text-sm text-gray-700">
+                  {quiz.durationMinutes} min · {quiz.secondsPerQuestion}s/q
+                  {formatScoring(quiz) && <div className="text-xs text-gray-500">{formatScoring(quiz)}</div>}
+                </td>
+                <td className="px-4 py-2 text-xs text-gray-500">{formatWindow(quiz)}</td>
+                <td className="px-4 py-2 text-xs text-gray-500">{describeAudience(quiz, groups)}</td>
+                <td className="px-4 py-2 text-sm">
+                  <span className={cn("px-2 py-0.5 rounded text-xs font-medium", statusBadge[quiz.status])}>{quiz.status}</span>
+                </td>
+                <td className="px-4 py-2 text-right">
+                  {quiz.status === QuizStatus.DRAFT && (
+                    <button onClick={() => handlePublish(quiz)} className="text-sm text-green-700 hover:underline">Publish</button>
+                  )}
+                  {(quiz.status === QuizStatus.OPEN || quiz.status === QuizStatus.SCHEDULED) && (
+                    <button onClick={() => handleClose(quiz)} className="text-sm text-red-600 hover:underline">Close</button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {quizzes.length === 0 && <p className="text-center text-gray-500 p-4">No quizzes yet.</p>}
+      </Card>
+    </div>
+  );
+}
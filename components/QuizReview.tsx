@@ -0,0 +1,82 @@
+import React, { useEffect, useState } from 'react';
+import { QuizReview as Review } from '../types';
+import { MockBackend } from '../services/mockBackend';
+import { formatAnswer, formatCorrectAnswer } from '../services/questionTypes';
+import { formatScore } from '../services/scoring';
+import { Translator, translateError, trueFalseOptions } from '../services/i18n';
+import { Button, Card } from './ui';
+import RichText, { preloadImages } from './RichText';
+import { cn } from '../utils';
+
+// A student's own answers next to the right ones and the teacher's explanations.
+export default function QuizReview({ quizId, studentId, onClose, t }: {
+  quizId: string;
+  studentId: string;
+  onClose: () => void;
+  t: Translator;
+}) {
+  const [review, setReview] = useState<Review | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    MockBackend.getQuizReview(quizId, studentId)
+      .then(async loaded => {
+        const contents = loaded.items.flatMap(({ question }) => [
+          question.text,
+          question.explanation || '',
+          ...(question.options || []).map(o => o.text),
+        ]);
+        await preloadImages(contents).catch(() => {});
+        setReview(loaded);
+      })
+      .catch((err: any) => setError(translateError(t, err.message)));
+  }, [quizId, studentId]);
+
+  const trueFalse = trueFalseOptions(t);
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4">
+      <Card className="max-w-3xl mx-auto space-y-6">
+        <div className="flex justify-between items-center border-b pb-4">
+          <div>
+            <h2 className="text-xl font-bold">{review?.quiz.title || t('common.review')}</h2>
+            {review && (
+              <p className="text-sm text-gray-500">
+                {t('review.youScored', { score: formatScore(review.submission, { pass: t('score.pass'), fail: t('score.fail') }) })}
+              </p>
+            )}
+          </div>
+          <Button onClick={onClose} className="bg-gray-200 text-gray-800 hover:bg-gray-300">{t('common.backToLobby')}</Button>
+        </div>
+        {error && <div className="p-3 bg-red-100 text-red-700 rounded">{error}</div>}
+        {!review && !error && <div className="text-center text-gray-500">{t('common.loading')}</div>}
+        {review?.items.map(({ question, answer, result }, i) => (
+          <div
+            key={question.id}
+            className={cn(
+              "border-l-4 pl-4 space-y-1",
+              answer === undefined ? "border-gray-300" : result?.isCorrect ? "border-green-500" : result?.credit ? "border-yellow-400" : "border-red-500"
+            )}
+          >
+            <div className="font-medium flex gap-2">
+              <span className="text-gray-400">{i + 1}.</span>
+              <RichText content={question.text} className="flex-1 min-w-0" />
+            </div>
+            <p className="text-sm">
+              <span className="text-gray-500">{t('review.yourAnswer')} </span>
+              {answer === undefined ? <em className="text-gray-400">{t('review.notAnswered')}</em> : <RichText content={formatAnswer(question, answer, true, trueFalse)} inline />}
+              <span className="text-gray-400 ml-2">{t('review.points', { points: result?.points ?? 0 })}</span>
+            </p>
+            {!result?.isCorrect && (
+              <p className="text-sm">
+                <span className="text-gray-500">{t('review.correctAnswer')} </span>
+                <RichText content={formatCorrectAnswer(question, true, trueFalse)} inline className="font-medium text-green-700" />
+              </p>
+            )}
+            {question.explanation && <RichText content={question.explanation} className="text-sm text-gray-700 bg-blue-50 rounded p-2" />}
+          </div>
+        ))}
+      </Card>
+    </div>
+  );
+}
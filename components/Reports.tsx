@@ -0,0 +1,173 @@
+import React, { useEffect, useState } from 'react';
+import { Quiz } from '../types';
+import { MockBackend } from '../services/mockBackend';
+import {
+  QuizResults,
+  classSummaryHtml,
+  downloadFile,
+  fileSlug,
+  printHtml,
+  reportCardsHtml,
+  resultsToCsv,
+  resultsToJson,
+} from '../services/export';
+import { formatScore } from '../services/scoring';
+import { Button, Card, Select } from './ui';
+import GroupFilter from './GroupFilter';
+
+// Results exports, printable reports, and (for the owner) whole-database backup/restore.
+export default function Reports({ canBackup, onRestored }: { canBackup?: boolean; onRestored?: () => void }) {
+  const [quizzes, setQuizzes] = useState<Quiz[]>([]);
+  const [quizId, setQuizId] = useState<string | null>(null);
+  const [groupId, setGroupId] = useState('');
+  const [results, setResults] = useState<QuizResults | null>(null);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const loadQuizzes = async () => {
+    try {
+      const published = (await MockBackend.getQuizzes()).filter(q => q.publishedAt);
+      setQuizzes(published);
+      setQuizId(current => (current && published.some(q => q.id === current) ? current : published[published.length - 1]?.id ?? null));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  useEffect(() => {
+    loadQuizzes();
+  }, []);
+
+  useEffect(() => {
+    setResults(null);
+    if (!quizId) return;
+    MockBackend.getQuizResults(quizId, groupId || undefined)
+      .then(loaded => {
+        setResults(loaded);
+        setError('');
+      })
+      .catch((err: any) => setError(err.message));
+  }, [quizId, groupId]);
+
+  const run = (action: () => void) => {
+    try {
+      setError('');
+      action();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const slug = results ? fileSlug(results.quiz.title) : '';
+  const taken = results?.rows.filter(r => r.submission).length ?? 0;
+
+  const handleBackup = async () => {
+    try {
+      setError('');
+      const backup = await MockBackend.exportBackup();
+      const stamp = new Date(backup.exportedAt).toISOString().slice(0, 10);
+      downloadFile(`quizmaster-backup-${stamp}.json`, JSON.stringify(backup, null, 2), 'application/json');
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleRestore = async (file: File | undefined) => {
+    if (!file) return;
+    if (!confirm('Restoring replaces ALL students, questions, quizzes and results on this machine. Continue?')) return;
+    try {
+      setError('');
+      const state = await MockBackend.restoreBackup(await file.text());
+      setMessage(
+        `Restored ${state.users.length} students, ${state.questions.length} questions, ${state.quizzes.length} quizzes and ${state.submissions.length} submissions.`,
+      );
+      await loadQuizzes();
+      onRestored?.();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <Card className="lg:col-span-2 space-y-4">
+        <div className="flex justify-between items-center gap-4">
+          <h2 className="text-lg font-bold">Results & Reports</h2>
+          {quizzes.length > 0 && (
+            <div className="flex gap-2">
+              <GroupFilter value={groupId} onChange={setGroupId} />
+              <Select value={quizId || ''} onChange={e => setQuizId(e.target.value)} className="max-w-[16rem]">
+                {quizzes.map(q => <option key={q.id} value={q.id}>{q.title}</option>)}
+              </Select>
+            </div>
+          )}
+        </div>
+        {error && <div className="p-3 bg-red-100 text-red-700 rounded text-sm">{error}</div>}
+
+        {!results ? (
+          !error && <p className="text-sm text-gray-500">{quizzes.length === 0 ? 'Publish a quiz to export its results.' : 'Loading...'}</p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600">{taken} of {results.rows.length} students took this quiz.</p>
+            <div className="flex flex-wrap gap-2">
+              <Button onClick={() => run(() => downloadFile(`${slug}-results.csv`, resultsToCsv(results), 'text/csv'))}>
+                Export CSV
+              </Button>
+              <Button onClick={() => run(() => downloadFile(`${slug}-results.json`, resultsToJson(results), 'application/json'))}>
+                Export JSON
+              </Button>
+              <Button onClick={() => run(() => printHtml(classSummaryHtml(results)))} className="bg-gray-700 hover:bg-gray-800">
+                Print Class Summary
+              </Button>
+              <Button onClick={() => run(() => printHtml(reportCardsHtml(results)))} className="bg-gray-700 hover:bg-gray-800">
+                Print All Report Cards
+              </Button>
+            </div>
+            <div className="h-80 overflow-y-auto border rounded divide-y">
+              {results.rows.map(row => (
+                <div key={row.student.id} className="p-3 flex justify-between items-center gap-4">
+                  <div className="text-sm">
+                    <span className="font-bold text-blue-600 mr-2">{row.student.id}</span>
+                    <span className="text-gray-900">{row.student.name}</span>
+                    <span className="text-gray-500 ml-2">
+                      {row.submission ? formatScore(row.submission) : 'Not taken'}
+                    </span>
+                  </div>
+                  <button
+                    onClick={() => run(() => printHtml(reportCardsHtml(results, [row])))}
+                    className="text-sm text-blue-600 hover:underline"
+                  >
+                    Report card
+                  </button>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </Card>
+
+      {canBackup && (
+        <Card className="space-y-4">
+          <h2 className="text-lg font-bold">Backup & Restore</h2>
+          <p className="text-sm text-gray-600">
+            One JSON file with every student, question, quiz and result. Restore it on another machine to move the data there.
+          </p>
+          {message && <div className="p-3 bg-green-100 text-green-800 rounded text-sm">{message}</div>}
+          <Button onClick={handleBackup} className="w-full justify-center bg-green-600 hover:bg-green-700">Download Backup</Button>
+          <label className="block">
+            <span className="block text-sm font-medium text-gray-700 mb-1">Restore from backup</span>
+            <input
+              type="file"
+              accept="application/json,.json"
+              onChange={e => {
+                handleRestore(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+              className="block w-full text-sm text-gray-600"
+            />
+          </label>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from 'react';
+import katex from 'katex';
+import hljs from 'highlight.js/lib/common';
+// Bundled rather than linked, so math and code look right on a LAN with no internet
+import 'katex/dist/katex.min.css';
+import 'highlight.js/styles/github-dark.min.css';
+import { QuestionImage } from '../types';
+import { MockBackend } from '../services/mockBackend';
+import { Block, Inline, imageIdsIn, parseInline, parseRichText } from '../services/richText';
+import { cn } from '../utils';
+
+// Pictures already fetched, by id. The quiz runner loads a quiz's pictures when it
+// starts, so they are still here if the connection drops mid-quiz.
+const imageCache = new Map<string, string>();
+
+export const rememberImages = (images: QuestionImage[]) => images.forEach(i => imageCache.set(i.id, i.dataUrl));
+
+export const preloadImages = async (contents: string[]) => {
+  const missing = Array.from(new Set(contents.flatMap(imageIdsIn))).filter(id => !imageCache.has(id));
+  if (missing.length > 0) rememberImages(await MockBackend.getImages(missing));
+};
+
+// KaTeX escapes whatever it is given, and with `trust` off it refuses commands
+// that could link out or add HTML. Its MathML copy is what screen readers read.
+const renderMath = (tex: string, displayMode: boolean) =>
+  katex.renderToString(tex, { displayMode, throwOnError: false, trust: false, strict: 'ignore', output: 'htmlAndMathml' });
+
+// highlight.js escapes the code; unknown languages are shown plain.
+const highlight = (code: string, language?: string) =>
+  language && hljs.getLanguage(language) ? hljs.highlight(code, { language, ignoreIllegals: true }).value : null;
+
+const renderInline = (nodes: Inline[]): React.ReactNode[] =>
+  nodes.map((node, i) => {
+    switch (node.kind) {
+      case 'text':
+        return node.text;
+      case 'strong':
+        return <strong key={i}>{renderInline(node.children)}</strong>;
+      case 'em':
+        return <em key={i}>{renderInline(node.children)}</em>;
+      case 'code':
+        return <code key={i} className="px-1 rounded bg-gray-100 font-mono text-[0.9em]">{node.text}</code>;
+      case 'math':
+        return <span key={i} className={cn(node.display && "block my-2 text-center")} dangerouslySetInnerHTML={{ __html: renderMath(node.tex, node.display) }} />;
+      case 'image': {
+        const src = imageCache.get(node.imageId);
+        return src
+          ? <img key={i} src={src} alt={node.alt} className="inline-block max-w-full h-auto max-h-80 rounded align-middle" />
+          : <span key={i} className="text-gray-400">[{node.alt || 'image'}]</span>;
+      }
+      case 'break':
+        return <br key={i} />;
+    }
+  });
+
+const renderBlock = (block: Block, i: number) => {
+  switch (block.kind) {
+    case 'paragraph':
+      return <p key={i}>{renderInline(block.children)}</p>;
+    case 'list': {
+      const items = block.items.map((item, j) => <li key={j}>{renderInline(item)}</li>);
+      return block.ordered
+        ? <ol key={i} className="list-decimal pl-6 space-y-1">{items}</ol>
+        : <ul key={i} className="list-disc pl-6 space-y-1">{items}</ul>;
+    }
+    case 'code': {
+      const highlighted = highlight(block.text, block.language);
+      return (
+        <pre key={i} className="p-3 rounded bg-gray-900 text-gray-100 text-sm overflow-x-auto text-left">
+          {highlighted !== null
+            ? <code className="hljs" dangerouslySetInnerHTML={{ __html: highlighted }} />
+            : <code>{block.text}</code>}
+        </pre>
+      );
+    }
+    case 'math':
+      return <div key={i} className="my-2 overflow-x-auto" dangerouslySetInnerHTML={{ __html: renderMath(block.tex, true) }} />;
+  }
+};
+
+// Question and option content: formatting, math, code and pictures. `inline` is
+// for single lines such as options, which sit inside a button or label.
+export default function RichText({ content, inline = false, className }: {
+  content: string;
+  inline?: boolean;
+  className?: string;
+}) {
+  const [, setLoaded] = useState(0);
+
+  useEffect(() => {
+    if (imageIdsIn(content).every(id => imageCache.has(id))) return;
+    let cancelled = false;
+    preloadImages([content])
+      .then(() => !cancelled && setLoaded(n => n + 1))
+      .catch(() => {}); // Shown as its alt text until it can be fetched
+    return () => {
+      cancelled = true;
+    };
+  }, [content]);
+
+  if (inline) return <span className={className}>{renderInline(parseInline(content))}</span>;
+  return <div className={cn("space-y-2", className)}>{parseRichText(content).map(renderBlock)}</div>;
+}
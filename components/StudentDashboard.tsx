@@ -0,0 +1,174 @@
+import React, { useEffect, useState } from 'react';
+import { Language } from '../types';
+import { MockBackend } from '../services/mockBackend';
+import { HistoryEntry, LeaderboardEntry, LeaderboardPeriod, StudentHistory, TagStat } from '../services/progress';
+import { formatScore } from '../services/scoring';
+import { Translator, formatDateTime, translateError } from '../services/i18n';
+import { Button, Card, Select } from './ui';
+import { cn } from '../utils';
+import { LeaderboardTable, PeriodTabs } from './Leaderboard';
+
+// Percent per quiz, oldest to newest, as a small line chart.
+const TrendChart = ({ entries, t }: { entries: HistoryEntry[]; t: Translator }) => {
+  const points = [...entries].reverse();
+  if (points.length < 2) return <p className="text-sm text-gray-500">{t('progress.trendEmpty')}</p>;
+  const x = (i: number) => 10 + (i / (points.length - 1)) * 280;
+  const y = (percent: number) => 90 - percent * 0.8;
+  return (
+    <svg viewBox="0 0 300 100" className="w-full h-32" role="img" aria-label={t('progress.trendLabel')}>
+      {[0, 50, 100].map(p => (
+        <g key={p}>
+          <line x1="10" x2="290" y1={y(p)} y2={y(p)} className="stroke-gray-200" strokeWidth="0.5" />
+          <text x="0" y={y(p) + 3} className="fill-gray-400" fontSize="6">{p}</text>
+        </g>
+      ))}
+      <polyline
+        points={points.map((e, i) => `${x(i)},${y(e.percent)}`).join(' ')}
+        fill="none"
+        className="stroke-blue-600"
+        strokeWidth="1.5"
+      />
+      {points.map((e, i) => (
+        <circle key={e.quizId} cx={x(i)} cy={y(e.percent)} r="2" className="fill-blue-600">
+          <title>{`${e.title}: ${e.percent}%`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+const TagBars = ({ tags, t }: { tags: TagStat[]; t: Translator }) => (
+  <div className="space-y-1">
+    {tags.map(tag => (
+      <div key={tag.tag} className="flex items-center gap-2 text-sm">
+        <span className="w-28 truncate text-gray-700" title={tag.tag}>{tag.tag}</span>
+        <div className="flex-1 h-3 bg-gray-100 rounded">
+          <div
+            className={cn("h-3 rounded", tag.percent >= 70 ? "bg-green-500" : tag.percent >= 40 ? "bg-yellow-400" : "bg-red-400")}
+            style={{ width: `${tag.percent}%` }}
+          />
+        </div>
+        <span className="w-20 text-right text-xs text-gray-500">
+          {t('progress.tagCount', { percent: Math.round(tag.percent), count: tag.answered })}
+        </span>
+      </div>
+    ))}
+  </div>
+);
+
+// A student's past quizzes, progress over time, strengths by tag, streak and leaderboard.
+export default function StudentDashboard({ studentId, onReview, onClose, language, t }: {
+  studentId: string;
+  onReview: (quizId: string) => void;
+  onClose: () => void;
+  language: Language;
+  t: Translator;
+}) {
+  const [history, setHistory] = useState<StudentHistory | null>(null);
+  const [period, setPeriod] = useState<LeaderboardPeriod>('WEEK');
+  const [groupId, setGroupId] = useState('');
+  const [board, setBoard] = useState<LeaderboardEntry[]>([]);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    MockBackend.getStudentHistory(studentId)
+      .then(setHistory)
+      .catch((err: any) => setError(translateError(t, err.message)));
+  }, [studentId]);
+
+  useEffect(() => {
+    if (!history?.leaderboardEnabled) return;
+    MockBackend.getStudentLeaderboard(studentId, period, groupId || undefined)
+      .then(setBoard)
+      .catch((err: any) => setError(translateError(t, err.message)));
+  }, [history, period, groupId]);
+
+  const average = history && history.entries.length > 0
+    ? Math.round(history.entries.reduce((sum, e) => sum + e.percent, 0) / history.entries.length)
+    : null;
+  // Only tags seen often enough to say something
+  const shownTags = history?.tags.filter(tag => tag.answered >= 2) || [];
+  const days = (count: number) => t(count === 1 ? 'progress.dayOne' : 'progress.dayMany', { count });
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div className="flex justify-between items-center">
+          <h2 className="text-2xl font-bold">{t('lobby.progress')}</h2>
+          <Button onClick={onClose} className="bg-gray-200 text-gray-800 hover:bg-gray-300">{t('common.backToLobby')}</Button>
+        </div>
+        {error && <div className="p-3 bg-red-100 text-red-700 rounded">{error}</div>}
+        {!history && !error && <div className="text-center text-gray-500">{t('common.loading')}</div>}
+
+        {history && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {[
+                [t('progress.quizzesTaken'), String(history.entries.length)],
+                [t('progress.average'), average === null ? '-' : `${average}%`],
+                [t('progress.streak'), days(history.streak.current)],
+                [t('progress.bestStreak'), days(history.streak.best)],
+              ].map(([label, value]) => (
+                <div key={label} className="bg-white rounded-lg shadow p-4">
+                  <div className="text-xs uppercase text-gray-500">{label}</div>
+                  <div className="text-2xl font-bold text-gray-900">{value}</div>
+                </div>
+              ))}
+            </div>
+            {history.streak.current > 0 && !history.streak.takenToday && (
+              <p className="text-sm text-blue-800 bg-blue-50 rounded p-3">{t('progress.keepStreak')}</p>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <Card className="space-y-2">
+                <h3 className="font-bold">{t('progress.trend')}</h3>
+                <TrendChart entries={history.entries} t={t} />
+              </Card>
+              <Card className="space-y-2">
+                <h3 className="font-bold">{t('progress.tags')}</h3>
+                {shownTags.length === 0 ? <p className="text-sm text-gray-500">{t('progress.tagsEmpty')}</p> : <TagBars tags={shownTags} t={t} />}
+              </Card>
+            </div>
+
+            <Card className="space-y-2">
+              <h3 className="font-bold">{t('progress.history')}</h3>
+              <div className="divide-y border rounded">
+                {history.entries.map(e => (
+                  <div key={e.quizId} className="p-3 flex justify-between items-center gap-4 text-sm">
+                    <div>
+                      <div className="font-medium text-gray-900">{e.title}</div>
+                      <div className="text-xs text-gray-500">{formatDateTime(language, e.submittedAt)}</div>
+                    </div>
+                    <div className="flex items-center gap-4">
+                      <span className={cn("font-medium", e.passed === false ? "text-red-700" : "text-gray-800")}>{formatScore(e, { pass: t('score.pass'), fail: t('score.fail') })}</span>
+                      {e.reviewable && (
+                        <button onClick={() => onReview(e.quizId)} className="text-blue-600 hover:underline">{t('common.review')}</button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+                {history.entries.length === 0 && <p className="p-4 text-center text-gray-500">{t('progress.historyEmpty')}</p>}
+              </div>
+            </Card>
+
+            {history.leaderboardEnabled && (
+              <Card className="space-y-3">
+                <div className="flex justify-between items-center gap-4">
+                  <h3 className="font-bold">{t('progress.leaderboard')}</h3>
+                  {history.groups.length > 0 && (
+                    <Select value={groupId} onChange={e => setGroupId(e.target.value)} className="max-w-[12rem]">
+                      <option value="">{t('progress.everyone')}</option>
+                      {history.groups.map(g => <option key={g.id} value={g.id}>{g.name}</option>)}
+                    </Select>
+                  )}
+                </div>
+                <PeriodTabs value={period} onChange={setPeriod} t={t} />
+                <LeaderboardTable entries={board} t={t} />
+              </Card>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+import React, { useEffect, useState } from 'react';
+import { Accommodations, Group, User } from '../types';
+import { MockBackend } from '../services/mockBackend';
+import { TIME_MULTIPLIERS, describeAccommodations, isLegacyStudentCode, matchesStudentSearch, registrationKey } from '../services/students';
+import { Button, Card, Input, Select } from './ui';
+import { cn } from '../utils';
+import GroupFilter from './GroupFilter';
+
+// Find a student by name, village or code; replace a lost code, set or clear a
+// PIN, grant extra time or turn off auto-advance, and merge duplicate
+// registrations. Proctors can look up but not change.
+export default function StudentDirectory({ canManage }: { canManage: boolean }) {
+  const [students, setStudents] = useState<User[]>([]);
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [groupId, setGroupId] = useState('');
+  const [query, setQuery] = useState('');
+  const [mergingId, setMergingId] = useState<string | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+  const [accommodatingId, setAccommodatingId] = useState<string | null>(null);
+  const [accommodations, setAccommodations] = useState<Accommodations>({});
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const load = async () => {
+    setStudents(await MockBackend.getStudents());
+    setGroups(await MockBackend.getGroups());
+  };
+
+  useEffect(() => {
+    load().catch((err: any) => setError(err.message));
+  }, []);
+
+  const run = async (action: () => Promise<string>) => {
+    try {
+      setError('');
+      setMessage(await action());
+      await load();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  // Registrations sharing name, age and village, flagged as likely duplicates
+  const keyCounts = new Map<string, number>();
+  students.forEach(s => keyCounts.set(registrationKey(s), (keyCounts.get(registrationKey(s)) || 0) + 1));
+  const isPossibleDuplicate = (s: User) => (keyCounts.get(registrationKey(s)) || 0) > 1;
+
+  const members = groups.find(g => g.id === groupId)?.studentIds;
+  const matches = students
+    .filter(s => matchesStudentSearch(s, query) && (!members || members.includes(s.id)))
+    .sort((a, b) => a.name.localeCompare(b.name) || a.id.localeCompare(b.id));
+
+  const handleRegenerate = (student: User) => {
+    if (!confirm(`Give ${student.name} a new code? ${student.id} will stop working straight away.`)) return;
+    run(async () => {
+      const updated = await MockBackend.regenerateStudentCode(student.id);
+      return `${student.name}'s new code is ${updated.id}.`;
+    });
+  };
+
+  const handlePin = (student: User) => {
+    const pin = prompt(
+      student.hasPin
+        ? `New PIN for ${student.name} (4 to 6 digits), or leave empty to remove the PIN:`
+        : `PIN for ${student.name} (4 to 6 digits):`,
+    );
+    if (pin === null || (!pin && !student.hasPin)) return;
+    run(async () => {
+      await MockBackend.setStudentPin(student.id, pin || null);
+      return pin ? `PIN set for ${student.name}.` : `PIN removed for ${student.name}.`;
+    });
+  };
+
+  const startAccommodations = (student: User) => {
+    setMergingId(null);
+    setAccommodatingId(student.id);
+    setAccommodations(student.accommodations || {});
+  };
+
+  const handleAccommodations = (student: User) => {
+    run(async () => {
+      const updated = await MockBackend.setStudentAccommodations(student.id, accommodations);
+      setAccommodatingId(null);
+      const summary = describeAccommodations(updated.accommodations);
+      return summary
+        ? `${student.name} now has ${summary}, from their next quiz.`
+        : `${student.name} has no accommodations from their next quiz.`;
+    });
+  };
+
+  const startMerge = (student: User) => {
+    setAccommodatingId(null);
+    setMergingId(student.id);
+    // Suggest the earliest-listed matching registration as the one to keep
+    setMergeTargetId(students.find(s => s.id !== student.id && registrationKey(s) === registrationKey(student))?.id || '');
+  };
+
+  const handleMerge = (duplicate: User) => {
+    const kept = students.find(s => s.id === mergeTargetId);
+    if (!kept) return;
+    if (!confirm(`Merge ${duplicate.id} into ${kept.id}? ${duplicate.id} will be deleted and its results moved to ${kept.id}.`)) return;
+    run(async () => {
+      const result = await MockBackend.mergeStudents(kept.id, duplicate.id);
+      setMergingId(null);
+      return (
+        `Merged into ${kept.id}: ${result.movedSubmissions} result(s) moved` +
+        (result.droppedSubmissions ? `, ${result.droppedSubmissions} dropped because ${kept.id} had already taken those quizzes.` : '.')
+      );
+    });
+  };
+
+  return (
+    <Card className="space-y-4">
+      <div className="flex justify-between items-center gap-4">
+        <h2 className="text-lg font-bold">Students</h2>
+        <div className="flex gap-2">
+          <GroupFilter value={groupId} onChange={setGroupId} groups={groups} />
+          <Input value={query} onChange={e => setQuery(e.target.value)} placeholder="Search name, village or code" className="max-w-xs" />
+        </div>
+      </div>
+      {error && <div className="p-3 bg-red-100 text-red-700 rounded text-sm">{error}</div>}
+      {message && <div className="p-3 bg-green-100 text-green-800 rounded text-sm">{message}</div>}
+      <div className="border rounded overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Code</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Age</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Village</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">PIN</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Accommodations</th>
+              {canManage && <th className="px-4 py-2"></th>}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {matches.map(s => (
+              <tr key={s.id} className={cn(isPossibleDuplicate(s) && "bg-yellow-50")}>
+                <td className="px-4 py-2 whitespace-nowrap text-sm font-mono font-bold text-blue-600">
+                  {s.id}
+                  {isLegacyStudentCode(s.id) && <span className="ml-2 text-xs font-sans font-normal text-gray-400" title="Issued before codes had a typo check">old</span>}
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">
+                  {s.name}
+                  {isPossibleDuplicate(s) && <span className="ml-2 text-xs text-yellow-800">possible duplicate</span>}
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">{s.age ?? '-'}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">{s.village || '-'}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">{s.hasPin ? 'Yes' : '-'}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">{describeAccommodations(s.accommodations) || '-'}</td>
+                {canManage && (
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-right space-x-3">
+                    {mergingId === s.id ? (
+                      <span className="inline-flex items-center gap-2">
+                        <span className="text-gray-500">Keep</span>
+                        <Select value={mergeTargetId} onChange={e => setMergeTargetId(e.target.value)} className="w-48 py-1">
+                          <option value="">Choose a student...</option>
+                          {students.filter(o => o.id !== s.id).map(o => (
+                            <option key={o.id} value={o.id}>{o.id} · {o.name}</option>
+                          ))}
+                        </Select>
+                        <Button onClick={() => handleMerge(s)} disabled={!mergeTargetId} className="py-1">Merge</Button>
+                        <button onClick={() => setMergingId(null)} className="text-gray-500 hover:underline">Cancel</button>
+                      </span>
+                    ) : accommodatingId === s.id ? (
+                      <span className="inline-flex items-center gap-2">
+                        <Select
+                          value={String(accommodations.timeMultiplier ?? 1)}
+                          onChange={e => setAccommodations({ ...accommodations, timeMultiplier: Number(e.target.value) })}
+                          className="w-32 py-1"
+                          aria-label="Extra time"
+                        >
+                          {TIME_MULTIPLIERS.map(m => (
+                            <option key={m} value={m}>{m === 1 ? 'Normal time' : `${m}× time`}</option>
+                          ))}
+                        </Select>
+                        <label className="inline-flex items-center gap-1 text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={!!accommodations.noAutoAdvance}
+                            onChange={e => setAccommodations({ ...accommodations, noAutoAdvance: e.target.checked })}
+                          />
+                          No auto-advance
+                        </label>
+                        <Button onClick={() => handleAccommodations(s)} className="py-1">Save</Button>
+                        <button onClick={() => setAccommodatingId(null)} className="text-gray-500 hover:underline">Cancel</button>
+                      </span>
+                    ) : (
+                      <>
+                        <button onClick={() => handleRegenerate(s)} className="text-blue-600 hover:underline">New code</button>
+                        <button onClick={() => handlePin(s)} className="text-blue-600 hover:underline">{s.hasPin ? 'Change PIN' : 'Set PIN'}</button>
+                        <button onClick={() => startAccommodations(s)} className="text-blue-600 hover:underline">Accommodations</button>
+                        <button onClick={() => startMerge(s)} className="text-blue-600 hover:underline">Merge into...</button>
+                      </>
+                    )}
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {matches.length === 0 && (
+          <p className="text-center text-gray-500 p-4">{students.length === 0 ? 'No students registered yet.' : 'No students match that search.'}</p>
+        )}
+      </div>
+    </Card>
+  );
+}
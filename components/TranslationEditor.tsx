@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { Language, QuestionInput, QuestionTranslation, QuestionType } from '../types';
+import { DEFAULT_LANGUAGE, LANGUAGES, LANGUAGE_NAMES, missingTranslations } from '../services/i18n';
+import { usesOptions } from '../services/questionTypes';
+import { Input } from './ui';
+import { cn } from '../utils';
+
+const textareaClass =
+  "w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500";
+
+// The question's text, options and explanation in each student language, next to
+// the English they translate. The answer key itself is shared by every language.
+export default function TranslationEditor({ draft, onChange }: {
+  draft: QuestionInput;
+  onChange: (draft: QuestionInput) => void;
+}) {
+  const others = LANGUAGES.filter(l => l !== DEFAULT_LANGUAGE);
+  const [language, setLanguage] = useState<Language>(others[0]);
+  const missing = missingTranslations(draft);
+  const translation: QuestionTranslation = draft.translations?.[language] || { text: '' };
+
+  const update = (change: Partial<QuestionTranslation>) =>
+    onChange({ ...draft, translations: { ...draft.translations, [language]: { ...translation, ...change } } });
+
+  return (
+    <div className="space-y-2 border-t pt-4">
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-medium text-gray-700">Translations</label>
+        <div className="flex gap-1">
+          {others.map(l => (
+            <button
+              key={l}
+              onClick={() => setLanguage(l)}
+              className={cn(
+                "px-2 py-0.5 rounded text-sm",
+                language === l ? "bg-blue-600 text-white" : "bg-gray-100 text-gray-700 hover:bg-gray-200",
+              )}
+            >
+              {LANGUAGE_NAMES[l]}{missing.includes(l) && ' •'}
+            </button>
+          ))}
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">
+        Anything left blank is shown in English. A dot marks a language that still has gaps.
+      </p>
+      <textarea
+        className={textareaClass}
+        rows={2}
+        placeholder={draft.text || 'Question'}
+        value={translation.text}
+        onChange={e => update({ text: e.target.value })}
+      />
+      {usesOptions(draft.type) && (draft.options || []).map((opt, i) => (
+        <div key={opt.id} className="flex items-center gap-2">
+          <span className="font-bold w-4">{draft.type === QuestionType.ORDERING ? i + 1 : opt.id.toUpperCase()}</span>
+          <Input
+            placeholder={opt.text}
+            value={translation.options?.[opt.id] || ''}
+            onChange={e => update({ options: { ...translation.options, [opt.id]: e.target.value } })}
+          />
+        </div>
+      ))}
+      {draft.type === QuestionType.SHORT_TEXT && (
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">More accepted answers, one per line (accepted whatever language a student uses)</label>
+          <textarea
+            className={textareaClass}
+            rows={2}
+            value={(translation.acceptedAnswers || []).join('\n')}
+            onChange={e => update({ acceptedAnswers: e.target.value.split('\n') })}
+          />
+        </div>
+      )}
+      <textarea
+        className={textareaClass}
+        rows={2}
+        placeholder={draft.explanation || 'Explanation'}
+        value={translation.explanation || ''}
+        onChange={e => update({ explanation: e.target.value })}
+      />
+    </div>
+  );
+}
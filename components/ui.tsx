@@ -0,0 +1,38 @@
+import React from 'react';
+import { cn } from '../utils';
+
+export const Button = ({ className, ...props }: React.ButtonHTMLAttributes<HTMLButtonElement>) => (
+  <button
+    className={cn(
+      "px-4 py-2 rounded-md font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2",
+      "bg-blue-600 text-white hover:bg-blue-700 focus:ring-blue-500",
+      "disabled:opacity-50 disabled:cursor-not-allowed",
+      className
+    )}
+    {...props}
+  />
+);
+
+export const Input = ({ className, ...props }: React.InputHTMLAttributes<HTMLInputElement>) => (
+  <input
+    className={cn(
+      "w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500",
+      className
+    )}
+    {...props}
+  />
+);
+
+export const Card = ({ children, className }: { children: React.ReactNode; className?: string }) => (
+  <div className={cn("bg-white shadow rounded-lg p-6", className)}>{children}</div>
+);
+
+export const Select = ({ className, ...props }: React.SelectHTMLAttributes<HTMLSelectElement>) => (
+  <select
+    className={cn(
+      "w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm bg-white focus:outline-none focus:ring-blue-500 focus:border-blue-500",
+      className
+    )}
+    {...props}
+  />
+);
@@ -1,12 +1,40 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+// Styles and fonts are bundled so the app looks right with no internet
+import '@fontsource/inter/latin-300.css';
+import '@fontsource/inter/latin-400.css';
+import '@fontsource/inter/latin-500.css';
+import '@fontsource/inter/latin-600.css';
+import '@fontsource/inter/latin-700.css';
+import '@fontsource/noto-sans-sinhala/sinhala-400.css';
+import '@fontsource/noto-sans-sinhala/sinhala-500.css';
+import '@fontsource/noto-sans-sinhala/sinhala-700.css';
+import '@fontsource/noto-sans-tamil/tamil-400.css';
+import '@fontsource/noto-sans-tamil/tamil-500.css';
+import '@fontsource/noto-sans-tamil/tamil-700.css';
+import './index.css';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// The service worker caches the app so students can open it and finish a quiz offline.
+// Only in builds: in dev it would serve stale modules. What this page already loaded
+// is handed to it, since it only sees requests made after it starts.
+if ('serviceWorker' in navigator && import.meta.env.PROD) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js')
+      .then(() => navigator.serviceWorker.ready)
+      .then(registration => {
+        const urls = performance.getEntriesByType('resource').map(entry => entry.name).filter(url => url.startsWith(location.origin));
+        registration.active?.postMessage({ type: 'CACHE_URLS', urls });
+      })
+      .catch(err => console.error('Service worker registration failed', err));
+  });
+}
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
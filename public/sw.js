@@ -0,0 +1,64 @@
+// Lets the student app open and keep running without a connection. Pages are
+// fetched fresh when possible and fall back to the last copy; build files (scripts,
+// styles, fonts) are cached the first time they load.
+const CACHE = 'quizmaster-pro-v1';
+const SHELL = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg'];
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(CACHE)
+      .then(cache => cache.addAll(SHELL))
+      .then(() => self.skipWaiting()),
+  );
+});
+
+// Drop caches from older versions of this file
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+const remember = (request, response) => {
+  // Cross-origin scripts without CORS come back opaque; they are still worth keeping
+  if (response.ok || response.type === 'opaque') {
+    const copy = response.clone();
+    caches.open(CACHE).then(cache => cache.put(request, copy));
+  }
+  return response;
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || !url.protocol.startsWith('http')) return;
+
+  if (request.mode === 'navigate') {
+    // Network first, so a new version is picked up as soon as there is a connection
+    event.respondWith(
+      fetch(request)
+        .then(response => remember('/index.html', response))
+        .catch(() => caches.match('/index.html')),
+    );
+    return;
+  }
+
+  event.respondWith(
+    caches.match(request).then(cached => cached || fetch(request).then(response => remember(request, response))),
+  );
+});
+
+// On a first visit the page loads its build files before this worker is running,
+// so they never pass through the fetch handler above. The page sends their URLs
+// once the worker is active, and they are stored now rather than never.
+self.addEventListener('message', event => {
+  if (event.data?.type !== 'CACHE_URLS' || !Array.isArray(event.data.urls)) return;
+  const urls = event.data.urls.filter(url => typeof url === 'string' && new URL(url).origin === self.location.origin);
+  event.waitUntil(
+    caches.open(CACHE).then(cache =>
+      Promise.all(urls.map(url => cache.match(url).then(hit => hit || cache.add(url).catch(() => undefined)))),
+    ),
+  );
+});
@@ -0,0 +1,158 @@
+import { WebSocketServer, WebSocket } from 'ws';
+import { BackendEvent, UserRole } from '../types';
+import {
+  HEARTBEAT_TIMEOUT_MS,
+  PROTOCOL_VERSION,
+  Presence,
+  ServerMessage,
+  canPublish,
+  isEventFor,
+  parseClientMessage,
+} from '../services/realtime/protocol';
+
+// Self-hosted realtime relay for a LAN without internet access:
+//   npm run realtime            (REALTIME_PORT defaults to 8787)
+// then build or serve the app with VITE_REALTIME_URL=ws://<this-machine>:8787
+
+const PORT = Number(process.env.REALTIME_PORT || 8787);
+const REPLAY_BUFFER_SIZE = 1000;
+// Events are ids and counters; anything near this size is not from the app
+const MAX_FRAME_BYTES = 64 * 1024;
+
+interface Client {
+  clientId: string | null; // Set by hello
+  presence: Presence | null;
+  lastSeen: number;
+}
+
+const clients = new Map<WebSocket, Client>();
+const history: { seq: number; origin: string; event: BackendEvent }[] = [];
+let seq = 0;
+let lastOnlineCount = -1;
+
+const send = (socket: WebSocket, message: ServerMessage) => {
+  if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const broadcast = (message: ServerMessage, except?: WebSocket) => {
+  clients.forEach((client, socket) => {
+    if (socket !== except && client.clientId) send(socket, message);
+  });
+};
+
+// Distinct students with a live heartbeat; one student on two tabs counts once.
+const onlineCount = () => {
+  const ids = new Set<string>();
+  clients.forEach(c => {
+    if (c.presence?.role === UserRole.STUDENT) ids.add(c.presence.userId);
+  });
+  return ids.size;
+};
+
+const broadcastPresence = (force = false) => {
+  const count = onlineCount();
+  if (!force && count === lastOnlineCount) return;
+  lastOnlineCount = count;
+  broadcast({ type: 'presence', onlineCount: count });
+};
+
+const wss = new WebSocketServer({ port: PORT, maxPayload: MAX_FRAME_BYTES });
+
+wss.on('connection', socket => {
+  clients.set(socket, { clientId: null, presence: null, lastSeen: Date.now() });
+
+  // A bad frame (unmasked, oversized, invalid UTF-8) costs that device its
+  // connection, not the whole room its relay. `close` below tidies up.
+  socket.on('error', () => socket.terminate());
+
+  socket.on('message', data => {
+    const client = clients.get(socket);
+    if (!client) return;
+    client.lastSeen = Date.now();
+
+    const msg = parseClientMessage(data.toString());
+    if (!msg) {
+      send(socket, { type: 'error', message: 'Malformed message' });
+      return;
+    }
+    if (msg.type !== 'hello' && !client.clientId) {
+      send(socket, { type: 'error', message: 'Say hello first' });
+      return;
+    }
+
+    switch (msg.type) {
+      case 'hello': {
+        if (msg.protocol !== PROTOCOL_VERSION) {
+          send(socket, { type: 'error', message: `Unsupported protocol ${msg.protocol}; server speaks ${PROTOCOL_VERSION}` });
+          socket.close();
+          return;
+        }
+        client.clientId = msg.clientId;
+        client.presence = msg.presence;
+
+        // Replay what the client missed while it was away
+        const missed = msg.lastSeq === null ? [] : history.filter(h => h.seq > msg.lastSeq!);
+        const oldest = history[0]?.seq ?? seq + 1;
+        const gap = msg.lastSeq !== null && msg.lastSeq < oldest - 1;
+        send(socket, { type: 'welcome', seq, replayed: missed.length, gap });
+        missed.filter(h => isEventFor(h.event, client.presence)).forEach(h => send(socket, { type: 'event', ...h }));
+        send(socket, { type: 'presence', onlineCount: onlineCount() });
+        broadcastPresence();
+        break;
+      }
+      case 'publish': {
+        if (!canPublish(msg.event, client.presence)) {
+          send(socket, { type: 'error', message: `Not allowed to publish ${msg.event.type}` });
+          break;
+        }
+        seq++;
+        const entry = { seq, origin: client.clientId!, event: msg.event };
+        history.push(entry);
+        if (history.length > REPLAY_BUFFER_SIZE) history.shift();
+        // The sender already delivered it locally, but needs the seq to stay in step.
+        // Students outside the event's audience never see it.
+        clients.forEach((c, s) => {
+          if (c.clientId && (s === socket || isEventFor(entry.event, c.presence))) send(s, { type: 'event', ...entry });
+        });
+        break;
+      }
+      case 'presence':
+        client.presence = msg.presence;
+        broadcastPresence();
+        break;
+      case 'ping':
+        send(socket, { type: 'pong', at: msg.at });
+        break;
+    }
+  });
+
+  socket.on('close', () => {
+    clients.delete(socket);
+    broadcastPresence();
+  });
+});
+
+// Drop clients whose heartbeats stopped (sleeping laptops, pulled cables)
+setInterval(() => {
+  const now = Date.now();
+  clients.forEach((client, socket) => {
+    if (now - client.lastSeen > HEARTBEAT_TIMEOUT_MS) {
+      clients.delete(socket);
+      socket.terminate();
+    }
+  });
+  broadcastPresence();
+}, HEARTBEAT_TIMEOUT_MS / 3);
+
+let listening = false;
+
+wss.on('error', err => {
+  console.error(`Realtime server error: ${err.message}`);
+  // Failing to bind (port in use) is fatal; anything later is not
+  if (!listening) process.exit(1);
+});
+
+wss.on('listening', () => {
+  listening = true;
+  console.log(`Realtime server listening on ws://0.0.0.0:${PORT}`);
+});
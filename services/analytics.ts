@@ -0,0 +1,135 @@
+import { AnswerValue, Question, QuestionType, Submission } from '../types';
+import { answerCredit } from './grading';
+import { choicesFor } from './questionTypes';
+
+export interface HistogramBin {
+  label: string; // e.g. "40–49%"
+  count: number;
+}
+
+export interface DistractorCount {
+  optionId: string;
+  text: string;
+  count: number;
+  isCorrect: boolean;
+}
+
+export interface ItemAnalysis {
+  questionId: string;
+  text: string;
+  answered: number;
+  unanswered: number; // Skipped by the question timer; not counted as wrong
+  correct: number; // Full credit only
+  difficultyIndex: number | null; // Average credit of the answers given (higher = easier)
+  discriminationIndex: number | null; // Upper minus lower group average credit, -1..1
+  distractors: DistractorCount[];
+  needsReview: boolean;
+}
+
+export interface QuizAnalytics {
+  quizId: string;
+  started: number;
+  submitted: number;
+  passed: number | null; // Null when the quiz has no pass mark
+  completionRate: number | null; // Submitted out of started
+  mean: number | null; // Percent scores
+  median: number | null;
+  histogram: HistogramBin[];
+  items: ItemAnalysis[];
+}
+
+// Share of the class in each of the upper and lower groups for the discrimination index.
+const GROUP_SHARE = 0.27;
+
+const percent = (s: Submission) => s.percent;
+
+export const median = (values: number[]) => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Ten bins of ten percentage points; a perfect score lands in the last one.
+export const scoreHistogram = (submissions: Submission[]): HistogramBin[] => {
+  const bins = Array.from({ length: 10 }, (_, i) => ({ label: i === 9 ? '90–100%' : `${i * 10}–${i * 10 + 9}%`, count: 0 }));
+  submissions.forEach(s => {
+    bins[Math.min(9, Math.floor(percent(s) / 10))].count += 1;
+  });
+  return bins;
+};
+
+// Uses the grade recorded at submission time, so later regrading rules don't rewrite history.
+const creditFor = (submission: Submission, question: Question, value: AnswerValue) =>
+  submission.results?.find(r => r.questionId === question.id)?.credit ?? answerCredit(question, value);
+
+const creditIn = (group: Submission[], question: Question) =>
+  group.reduce((sum, s) => {
+    const answer = s.answers.find(a => a.questionId === question.id);
+    return sum + (answer ? creditFor(s, question, answer.value) : 0);
+  }, 0);
+
+const picked = (value: AnswerValue, optionId: string) => (Array.isArray(value) ? value.includes(optionId) : value === optionId);
+
+const isCorrectChoice = (question: Question, optionId: string) =>
+  question.type === QuestionType.MULTI_SELECT ? !!question.correctAnswers?.includes(optionId) : question.correctAnswer === optionId;
+
+export const analyzeItem = (question: Question, submissions: Submission[]): ItemAnalysis => {
+  const answers = submissions
+    .map(s => ({ submission: s, answer: s.answers.find(a => a.questionId === question.id) }))
+    .filter(x => x.answer !== undefined);
+  const credits = answers.map(x => creditFor(x.submission, question, x.answer!.value));
+  const correct = credits.filter(c => c === 1).length;
+
+  // Classical upper/lower groups by total score; an unanswered item counts against its group
+  let discriminationIndex: number | null = null;
+  const groupSize = Math.max(1, Math.round(submissions.length * GROUP_SHARE));
+  if (submissions.length >= 2) {
+    const ranked = [...submissions].sort((a, b) => percent(b) - percent(a));
+    const upper = ranked.slice(0, groupSize);
+    const lower = ranked.slice(-groupSize);
+    discriminationIndex = (creditIn(upper, question) - creditIn(lower, question)) / groupSize;
+  }
+
+  const difficultyIndex = answers.length > 0 ? credits.reduce((a, b) => a + b, 0) / answers.length : null;
+  return {
+    questionId: question.id,
+    text: question.text,
+    answered: answers.length,
+    unanswered: submissions.length - answers.length,
+    correct,
+    difficultyIndex,
+    discriminationIndex,
+    // Only for types where the student picks options; typed answers and orderings have none
+    distractors: choicesFor(question).map(o => ({
+      optionId: o.id,
+      text: o.text,
+      count: answers.filter(x => picked(x.answer!.value, o.id)).length,
+      isCorrect: isCorrectChoice(question, o.id),
+    })),
+    // Almost nobody or almost everybody gets it right, or strong students do no better than weak ones
+    needsReview:
+      (difficultyIndex !== null && (difficultyIndex < 0.2 || difficultyIndex > 0.95)) ||
+      (discriminationIndex !== null && discriminationIndex < 0.1),
+  };
+};
+
+export const analyzeQuiz = (
+  quizId: string,
+  questions: Question[],
+  submissions: Submission[],
+  started: number,
+): QuizAnalytics => {
+  const scores = submissions.map(percent);
+  return {
+    quizId,
+    started,
+    submitted: submissions.length,
+    passed: submissions.some(s => s.passed !== undefined) ? submissions.filter(s => s.passed).length : null,
+    completionRate: started > 0 ? submissions.length / started : null,
+    mean: scores.length > 0 ? scores.reduce((a, b) => a + b, 0) / scores.length : null,
+    median: median(scores),
+    histogram: scoreHistogram(submissions),
+    items: questions.map(q => analyzeItem(q, submissions)),
+  };
+};
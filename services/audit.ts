@@ -0,0 +1,165 @@
+import { AuditAction, AuditCheck, AuditEntry, AuditFilter } from '../types';
+import { toCsv } from './export';
+
+// The audit log is a hash chain: each entry's hash covers its own content and the
+// previous entry's hash, so editing, removing or reordering an entry breaks every
+// hash after it. Whoever can write storage could still rebuild the whole chain;
+// the head hash shown in the viewer is what to note down (or print) to catch that.
+
+export const AUDIT_GENESIS_HASH = '0'.repeat(64);
+
+export const AUDIT_LABELS: Record<AuditAction, string> = {
+  STUDENT_REGISTERED: 'Student registered',
+  STUDENT_LOGIN: 'Student login',
+  STAFF_LOGIN: 'Staff login',
+  LOGIN_FAILED: 'Failed login',
+  LOGOUT: 'Logout',
+  PASSWORD_CHANGED: 'Password changed',
+  STAFF_ACCOUNT_CREATED: 'Staff account created',
+  STAFF_ACCOUNT_DISABLED: 'Staff account disabled',
+  STAFF_ACCOUNT_ENABLED: 'Staff account enabled',
+  STAFF_PASSWORD_RESET: 'Staff password reset',
+  STUDENT_LANGUAGE_CHANGED: 'Student language changed',
+  STUDENT_CODE_REGENERATED: 'Student code regenerated',
+  STUDENT_PIN_CHANGED: 'Student PIN changed',
+  STUDENT_ACCOMMODATIONS_CHANGED: 'Accommodations changed',
+  STUDENTS_MERGED: 'Students merged',
+  SETTINGS_CHANGED: 'Settings changed',
+  GROUP_SAVED: 'Group saved',
+  GROUP_DELETED: 'Group deleted',
+  GROUP_MEMBERS_CHANGED: 'Group members changed',
+  QUESTION_CREATED: 'Question created',
+  QUESTIONS_IMPORTED: 'Questions imported',
+  QUESTION_UPDATED: 'Question edited',
+  QUESTION_DELETED: 'Question deleted',
+  IMAGE_UPLOADED: 'Image uploaded',
+  QUIZ_SAVED: 'Quiz saved',
+  QUIZ_PUBLISHED: 'Quiz published',
+  QUIZ_CLOSED: 'Quiz closed',
+  QUIZ_STARTED: 'Quiz started',
+  QUIZ_SUBMITTED: 'Quiz submitted',
+  SUBMISSION_REGRADED: 'Submission regraded',
+  LIVE_SHOW_ENDED: 'Live show ended',
+  BACKUP_EXPORTED: 'Backup exported',
+  BACKUP_RESTORED: 'Backup restored',
+};
+
+// --- SHA-256 ---
+// Synchronous, so an entry and its hash are written in the same step as the change
+// it records. (Web Crypto is async and needs https, which a LAN server may not have.)
+
+const K = Uint32Array.from([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+export const sha256Hex = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  // Message, a 1 bit, zero padding, then the bit length in the last 8 bytes
+  const padded = new Uint8Array(Math.ceil((bytes.length + 9) / 64) * 64);
+  padded.set(bytes);
+  padded[bytes.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 8, Math.floor(bytes.length / 0x20000000));
+  view.setUint32(padded.length - 4, (bytes.length * 8) >>> 0);
+
+  const h = Uint32Array.from([0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19]);
+  const w = new Uint32Array(64);
+  for (let offset = 0; offset < padded.length; offset += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(offset + i * 4);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+    let [a, b, c, d, e, f, g, hh] = h;
+    for (let i = 0; i < 64; i++) {
+      const t1 = hh + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + K[i] + w[i];
+      const t2 = (rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c));
+      hh = g;
+      g = f;
+      f = e;
+      e = (d + t1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) >>> 0;
+    }
+    [a, b, c, d, e, f, g, hh].forEach((v, i) => (h[i] = h[i] + v));
+  }
+  return Array.from(h, v => v.toString(16).padStart(8, '0')).join('');
+};
+
+// --- Chain ---
+
+// Everything but the hash itself, as an array so key order can't change the result.
+const hashInput = (entry: Omit<AuditEntry, 'hash'>) =>
+  JSON.stringify([
+    entry.seq,
+    entry.at,
+    entry.actor ?? null,
+    entry.actorRole ?? null,
+    entry.action,
+    entry.target ?? null,
+    entry.before ?? null,
+    entry.after ?? null,
+    entry.prevHash,
+  ]);
+
+export const hashAuditEntry = (entry: Omit<AuditEntry, 'hash'>) => sha256Hex(hashInput(entry));
+
+// Walks the whole chain. The first entry that doesn't fit is where tampering starts.
+export const verifyAuditLog = (entries: AuditEntry[]): AuditCheck => {
+  let prevHash = AUDIT_GENESIS_HASH;
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    const problem =
+      entry.seq !== i + 1 ? 'an entry is missing or out of order' :
+      entry.prevHash !== prevHash ? 'it does not follow the entry before it' :
+      hashAuditEntry(entry) !== entry.hash ? 'its content was changed' :
+      '';
+    if (problem) return { ok: false, entries: entries.length, brokenAt: entry.seq, problem };
+    prevHash = entry.hash;
+  }
+  return { ok: true, entries: entries.length, headHash: prevHash };
+};
+
+// --- Viewing and export ---
+
+export const matchesAuditFilter = (entry: AuditEntry, { action, actor, search, from, to }: AuditFilter) => {
+  if (action && entry.action !== action) return false;
+  if (actor && !(entry.actor || '').toLowerCase().includes(actor.trim().toLowerCase())) return false;
+  if (from !== undefined && entry.at < from) return false;
+  if (to !== undefined && entry.at > to) return false;
+  if (!search?.trim()) return true;
+  // Details are searched as text, so a student code finds every entry that mentions it
+  const text = [entry.actor, entry.target, JSON.stringify(entry.before ?? ''), JSON.stringify(entry.after ?? '')].join(' ').toLowerCase();
+  return text.includes(search.trim().toLowerCase());
+};
+
+const details = (value: unknown) => (value === undefined ? '' : JSON.stringify(value));
+
+export const auditToCsv = (entries: AuditEntry[]) =>
+  toCsv([
+    ['Seq', 'Time', 'Actor', 'Role', 'Action', 'Target', 'Before', 'After', 'Previous Hash', 'Hash'],
+    ...entries.map(e => [
+      e.seq,
+      new Date(e.at).toISOString(),
+      e.actor,
+      e.actorRole,
+      AUDIT_LABELS[e.action],
+      e.target,
+      details(e.before),
+      details(e.after),
+      e.prevHash,
+      e.hash,
+    ]),
+  ]);
@@ -0,0 +1,58 @@
+import { User, UserRole } from '../types';
+
+export const STAFF_ROLES = [UserRole.OWNER, UserRole.TEACHER, UserRole.PROCTOR];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  [UserRole.STUDENT]: 'Student',
+  [UserRole.OWNER]: 'Owner',
+  [UserRole.TEACHER]: 'Teacher',
+  [UserRole.PROCTOR]: 'Proctor',
+};
+
+export const isStaff = (user: Pick<User, 'role'> | null | undefined) => !!user && STAFF_ROLES.includes(user.role);
+
+// A session ends after this long without a request; the quiz heartbeat keeps students' alive.
+export const SESSION_IDLE_MS = 8 * 60 * 60 * 1000;
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Failed logins allowed per student code or username, and from one device overall,
+// within a sliding window. Beyond that, logins are refused until the window passes.
+export const LOGIN_WINDOW_MS = 15 * 60 * 1000;
+export const MAX_FAILED_LOGINS = 5;
+export const MAX_FAILED_LOGINS_PER_CLIENT = 20;
+
+// The first owner account on a fresh install. It has to pick a new password on first login.
+export const DEFAULT_OWNER = { username: 'admin', name: 'Administrator', password: 'password' };
+
+const PBKDF2_ITERATIONS = 100_000;
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+export const randomToken = (byteLength = 32) => toHex(crypto.getRandomValues(new Uint8Array(byteLength)));
+
+export const hashPassword = async (password: string, salt: string) => {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt: encoder.encode(salt), iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    key,
+    256,
+  );
+  return toHex(new Uint8Array(bits));
+};
+
+// Compares every character so the time taken doesn't hint at how much matched.
+export const hashesMatch = (a: string, b: string) => {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  return diff === 0;
+};
+
+export const validatePassword = (password: string, username?: string): string[] => {
+  const errors: string[] = [];
+  if (password.length < MIN_PASSWORD_LENGTH) errors.push(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  if (username && password.toLowerCase() === username.toLowerCase()) errors.push('Password must not be the username');
+  if (password === DEFAULT_OWNER.password) errors.push('Choose a password other than the default');
+  return errors;
+};
@@ -0,0 +1,189 @@
+import { Question, Quiz, Submission, User } from '../types';
+import { median } from './analytics';
+import { formatAnswer, formatCorrectAnswer } from './questionTypes';
+import { formatScore } from './scoring';
+
+// Everything a results export or printed report needs for one quiz.
+export interface QuizResults {
+  quiz: Quiz;
+  questions: Question[]; // As pinned when the quiz was published
+  rows: ResultRow[]; // One per registered student, whether or not they took the quiz
+}
+
+export interface ResultRow {
+  student: User;
+  startedAt?: number;
+  submission?: Submission;
+}
+
+const formatDate = (at?: number) => (at ? new Date(at).toISOString() : '');
+
+const passLabel = (s?: Submission) => (s?.passed === undefined ? '' : s.passed ? 'Pass' : 'Fail');
+
+// --- CSV / JSON ---
+
+const csvCell = (value: string | number | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: (string | number | undefined)[][]) => rows.map(r => r.map(csvCell).join(',')).join('\r\n');
+
+export const resultsToCsv = ({ questions, rows }: QuizResults) => {
+  const header = ['Code', 'Name', 'Village', 'Age', 'Started At', 'Submitted At', 'Points', 'Max Points', 'Percent', 'Result'];
+  questions.forEach((_, i) => header.push(`Q${i + 1}`));
+  return toCsv([
+    header,
+    ...rows.map(({ student, startedAt, submission }) => [
+      student.id,
+      student.name,
+      student.village,
+      student.age,
+      formatDate(startedAt),
+      formatDate(submission?.submittedAt),
+      submission?.score,
+      submission?.maxScore,
+      submission?.percent,
+      passLabel(submission),
+      ...questions.map(q => {
+        const answer = submission?.answers.find(a => a.questionId === q.id);
+        return answer ? formatAnswer(q, answer.value) : '';
+      }),
+    ]),
+  ]);
+};
+
+export const resultsToJson = ({ quiz, questions, rows }: QuizResults) =>
+  JSON.stringify(
+    {
+      quiz: { id: quiz.id, title: quiz.title, publishedAt: formatDate(quiz.publishedAt), closesAt: formatDate(quiz.closesAt) },
+      questions: questions.map((q, i) => ({ number: i + 1, id: q.id, version: q.version, text: q.text })),
+      results: rows.map(({ student, startedAt, submission }) => ({
+        code: student.id,
+        name: student.name,
+        village: student.village ?? null,
+        age: student.age ?? null,
+        startedAt: formatDate(startedAt) || null,
+        submittedAt: formatDate(submission?.submittedAt) || null,
+        score: submission?.score ?? null,
+        maxScore: submission?.maxScore ?? null,
+        percent: submission?.percent ?? null,
+        passed: submission?.passed ?? null,
+        totalQuestions: submission?.totalQuestions ?? null,
+        answers: submission
+          ? questions.map(q => {
+              const answer = submission.answers.find(a => a.questionId === q.id);
+              const result = submission.results?.find(r => r.questionId === q.id);
+              return {
+                questionId: q.id,
+                value: answer?.value ?? null,
+                isCorrect: answer ? !!result?.isCorrect : null,
+                credit: answer ? result?.credit ?? 0 : null,
+                points: result?.points ?? 0,
+              };
+            })
+          : [],
+      })),
+    },
+    null,
+    2,
+  );
+
+// --- Printable reports ---
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]!);
+
+const PRINT_STYLES = `
+  body { font-family: system-ui, sans-serif; color: #111827; margin: 2rem; }
+  h1 { font-size: 1.5rem; margin: 0 0 .25rem; }
+  .muted { color: #6b7280; font-size: .875rem; }
+  table { width: 100%; border-collapse: collapse; margin-top: 1rem; font-size: .875rem; }
+  th, td { border: 1px solid #d1d5db; padding: .35rem .5rem; text-align: left; vertical-align: top; }
+  th { background: #f3f4f6; }
+  .score { font-size: 2rem; font-weight: 700; margin: 1rem 0; }
+  .card { page-break-after: always; }
+  .card:last-child { page-break-after: auto; }
+`;
+
+const printDocument = (title: string, body: string) =>
+  `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title><style>${PRINT_STYLES}</style></head><body>${body}</body></html>`;
+
+const reportCardBody = ({ quiz, questions }: QuizResults, { student, submission }: ResultRow) => {
+  const details = [
+    `Code ${escapeHtml(student.id)}`,
+    student.village && `Village ${escapeHtml(student.village)}`,
+    student.age !== undefined && `Age ${student.age}`,
+  ].filter(Boolean).join(' · ');
+
+  if (!submission) {
+    return `<section class="card"><h1>${escapeHtml(student.name)}</h1><p class="muted">${details}</p>
+      <p>${escapeHtml(quiz.title)}: not taken.</p></section>`;
+  }
+
+  const lines = questions.map((q, i) => {
+    const answer = submission.answers.find(a => a.questionId === q.id);
+    const result = submission.results?.find(r => r.questionId === q.id);
+    const mark = !answer ? 'Not answered' : result?.isCorrect ? '✓' : result?.credit ? `${Math.round(result.credit * 100)}%` : '✗';
+    return `<tr><td>${i + 1}</td><td>${escapeHtml(q.text)}</td>
+      <td>${answer ? escapeHtml(formatAnswer(q, answer.value, true)) : ''}</td>
+      <td>${escapeHtml(formatCorrectAnswer(q, true))}</td><td>${mark}</td><td>${result?.points ?? 0}</td></tr>`;
+  });
+
+  return `<section class="card"><h1>${escapeHtml(student.name)}</h1><p class="muted">${details}</p>
+    <p>${escapeHtml(quiz.title)} · submitted ${new Date(submission.submittedAt).toLocaleString()}</p>
+    <div class="score">${escapeHtml(formatScore(submission))}</div>
+    <table><thead><tr><th>#</th><th>Question</th><th>Answer</th><th>Correct answer</th><th></th><th>Points</th></tr></thead>
+    <tbody>${lines.join('')}</tbody></table></section>`;
+};
+
+// One page per student; pass a single row for a single report card.
+export const reportCardsHtml = (results: QuizResults, rows: ResultRow[] = results.rows) =>
+  printDocument(`${results.quiz.title} - Report cards`, rows.map(row => reportCardBody(results, row)).join(''));
+
+export const classSummaryHtml = (results: QuizResults) => {
+  const taken = results.rows.filter(r => r.submission);
+  const percents = taken.map(r => r.submission!.percent);
+  const passed = taken.filter(r => r.submission!.passed).length;
+  const hasPassMark = taken.some(r => r.submission!.passed !== undefined);
+  const mean = percents.length ? Math.round(percents.reduce((a, b) => a + b, 0) / percents.length) : null;
+  const mid = median(percents);
+  const lines = results.rows.map(({ student, submission }) => `<tr><td>${escapeHtml(student.id)}</td>
+    <td>${escapeHtml(student.name)}</td><td>${escapeHtml(student.village || '')}</td>
+    <td>${submission ? `${submission.score}/${submission.maxScore}` : 'Absent'}</td>
+    <td>${submission ? `${submission.percent}%` : ''}</td><td>${passLabel(submission)}</td>
+    <td>${submission ? new Date(submission.submittedAt).toLocaleString() : ''}</td></tr>`);
+
+  return printDocument(
+    `${results.quiz.title} - Class summary`,
+    `<h1>${escapeHtml(results.quiz.title)}: class summary</h1>
+    <p class="muted">${taken.length} of ${results.rows.length} students took the quiz ·
+      mean ${mean === null ? '-' : `${mean}%`} · median ${mid === null ? '-' : `${Math.round(mid)}%`}${hasPassMark ? ` · ${passed} passed` : ''}</p>
+    <table><thead><tr><th>Code</th><th>Name</th><th>Village</th><th>Points</th><th>Percent</th><th>Result</th><th>Submitted</th></tr></thead>
+    <tbody>${lines.join('')}</tbody></table>`,
+  );
+};
+
+// --- Browser helpers ---
+
+export const downloadFile = (filename: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Opens the report in a new window and brings up the print dialog.
+export const printHtml = (html: string) => {
+  const win = window.open('', '_blank');
+  if (!win) throw new Error('Allow pop-ups for this site to print reports');
+  win.document.write(html);
+  win.document.close();
+  win.focus();
+  win.print();
+};
+
+// "Daily Quiz - 1/2/2025" -> "daily-quiz-1-2-2025"
+export const fileSlug = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'export';
@@ -0,0 +1,107 @@
+import { Answer, AnswerValue, GradeResult, Question, QuestionResult, QuestionType } from '../types';
+import { QuizScoring, isPass, maxScore, questionPoints, roundPoints, scorePercent } from './scoring';
+
+// Server-side grading. Only the backend imports this module; the student client
+// never sees the answer key and never computes its own score.
+
+// Short text answers: surrounding and repeated spaces never matter, case only when the question says so.
+export const normalizeText = (text: string, caseSensitive = false) => {
+  const collapsed = text.trim().replace(/\s+/g, ' ');
+  return caseSensitive ? collapsed : collapsed.toLowerCase();
+};
+
+// Answers arrive from the client, so check they have the shape the question type expects.
+export const isValidAnswerValue = (question: Question, value: unknown): value is AnswerValue => {
+  const optionIds = (question.options || []).map(o => o.id);
+  const isIdList = (v: unknown): v is string[] =>
+    Array.isArray(v) && v.every(id => typeof id === 'string' && optionIds.includes(id)) && new Set(v).size === v.length;
+
+  switch (question.type) {
+    case QuestionType.MULTI_SELECT:
+      return isIdList(value) && value.length > 0;
+    case QuestionType.ORDERING:
+      return isIdList(value) && value.length === optionIds.length;
+    case QuestionType.TRUE_FALSE:
+      return value === 'true' || value === 'false';
+    case QuestionType.NUMERIC:
+      return typeof value === 'number' && Number.isFinite(value);
+    case QuestionType.SHORT_TEXT:
+      return typeof value === 'string' && value.trim().length > 0 && value.length <= 500;
+    default:
+      return typeof value === 'string' && optionIds.includes(value);
+  }
+};
+
+// Credit from 0 to 1 for one answer. Only multi-select gives partial credit.
+export const answerCredit = (question: Question, value: AnswerValue | undefined): number => {
+  if (value === undefined || !isValidAnswerValue(question, value)) return 0;
+
+  switch (question.type) {
+    case QuestionType.MULTI_SELECT: {
+      // Each right pick earns its share and each wrong pick takes one back, never below zero
+      const correct = question.correctAnswers || [];
+      const picked = value as string[];
+      const right = picked.filter(id => correct.includes(id)).length;
+      return correct.length > 0 ? Math.max(0, (right - (picked.length - right)) / correct.length) : 0;
+    }
+    case QuestionType.ORDERING:
+      return (value as string[]).every((id, i) => id === question.options![i].id) ? 1 : 0;
+    case QuestionType.NUMERIC:
+      // Small epsilon so 0.1 + 0.2 style float noise doesn't fail an exact answer
+      return question.numericAnswer !== undefined &&
+        Math.abs((value as number) - question.numericAnswer) <= (question.tolerance || 0) + 1e-9
+        ? 1
+        : 0;
+    case QuestionType.SHORT_TEXT: {
+      // Answers accepted in any language count for everyone, so the score never depends on which one a student saw
+      const accepted = [
+        ...(question.acceptedAnswers || []),
+        ...Object.values(question.translations || {}).flatMap(t => t?.acceptedAnswers || []),
+      ];
+      const given = normalizeText(value as string, question.caseSensitive);
+      return accepted.some(a => normalizeText(a, question.caseSensitive) === given) ? 1 : 0;
+    }
+    default:
+      return value === question.correctAnswer ? 1 : 0;
+  }
+};
+
+export const isAnswerCorrect = (question: Question, value: AnswerValue | undefined) => answerCredit(question, value) === 1;
+
+// Points for one question. A wrong answer can cost points; a skipped or timed-out
+// question never does. The time bonus needs the answer's live timing, so answers
+// that only arrived with the final submit never earn it.
+const questionScore = (question: Question, answer: Answer | undefined, credit: number, scoring: QuizScoring) => {
+  const points = questionPoints(scoring, question.id);
+  if (!answer) return 0;
+  if (credit === 0) return scoring.negativeMarkPercent ? (-points * scoring.negativeMarkPercent) / 100 : 0;
+  let bonus = 0;
+  if (scoring.timeBonusPercent && answer.timeTakenMs !== undefined && scoring.secondsPerQuestion > 0) {
+    const remaining = Math.max(0, 1 - answer.timeTakenMs / (scoring.secondsPerQuestion * 1000));
+    bonus = points * credit * (scoring.timeBonusPercent / 100) * remaining;
+  }
+  return points * credit + bonus;
+};
+
+export const gradeAnswers = (questions: Question[], answers: Answer[], scoring: QuizScoring): GradeResult => {
+  const byQuestion = new Map<string, Answer>();
+  answers.forEach(a => byQuestion.set(a.questionId, a));
+
+  const results: QuestionResult[] = questions.map(q => {
+    const answer = byQuestion.get(q.id);
+    const credit = answerCredit(q, answer?.value);
+    return { questionId: q.id, isCorrect: credit === 1, credit, points: roundPoints(questionScore(q, answer, credit, scoring)) };
+  });
+
+  const score = roundPoints(results.reduce((sum, r) => sum + r.points, 0));
+  const max = maxScore(scoring, questions.map(q => q.id));
+  const percent = scorePercent(score, max);
+  return {
+    score,
+    maxScore: max,
+    percent,
+    passed: isPass(percent, scoring.passPercent),
+    totalQuestions: questions.length,
+    results,
+  };
+};
@@ -0,0 +1,38 @@
+import { Group, GroupCriteria, GroupKind, Quiz, User } from '../types';
+
+export const GROUP_KIND_LABELS: Record<GroupKind, string> = {
+  [GroupKind.CLASS]: 'Class',
+  [GroupKind.GRADE]: 'Grade',
+  [GroupKind.COHORT]: 'Village cohort',
+};
+
+const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export const matchesGroupCriteria = (student: User, { village, minAge, maxAge }: GroupCriteria) =>
+  (!village || sameText(student.village || '', village)) &&
+  (minAge === undefined || (student.age !== undefined && student.age >= minAge)) &&
+  (maxAge === undefined || (student.age !== undefined && student.age <= maxAge));
+
+export const describeCriteria = ({ village, minAge, maxAge }: GroupCriteria) => {
+  const parts: string[] = [];
+  if (village) parts.push(`from ${village.trim()}`);
+  if (minAge !== undefined && maxAge !== undefined) parts.push(`aged ${minAge}-${maxAge}`);
+  else if (minAge !== undefined) parts.push(`aged ${minAge} or over`);
+  else if (maxAge !== undefined) parts.push(`aged ${maxAge} or under`);
+  return parts.length > 0 ? `Students ${parts.join(', ')}` : 'All students';
+};
+
+export const isTargeted = (quiz: Pick<Quiz, 'groupIds'>) => !!quiz.groupIds?.length;
+
+// Members of any of the given groups.
+export const groupMemberIds = (groups: Group[], groupIds: string[]) =>
+  new Set(groups.filter(g => groupIds.includes(g.id)).flatMap(g => g.studentIds));
+
+export const isQuizForStudent = (quiz: Pick<Quiz, 'groupIds'>, groups: Group[], studentId: string) =>
+  !isTargeted(quiz) || groupMemberIds(groups, quiz.groupIds!).has(studentId);
+
+// "Everyone", or the names of the groups a quiz is published to.
+export const describeAudience = (quiz: Pick<Quiz, 'groupIds'>, groups: Group[]) =>
+  isTargeted(quiz)
+    ? quiz.groupIds!.map(id => groups.find(g => g.id === id)?.name || 'Deleted group').join(', ')
+    : 'Everyone';
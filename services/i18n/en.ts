@@ -0,0 +1,189 @@
+// English is the base catalog: its keys are the message keys, and any key another
+// language lacks falls back to it. Placeholders look like {name}.
+export const en = {
+  'common.back': 'Back',
+  'common.cancel': 'Cancel',
+  'common.logout': 'Logout',
+  'common.loading': 'Loading...',
+  'common.backToLobby': 'Back to Lobby',
+  'common.language': 'Language',
+  'common.review': 'Review',
+
+  'select.subtitle': 'Select your portal to continue',
+  'select.studentLogin': 'Student Login',
+  'select.register': 'New Student Registration',
+  'select.admin': 'Admin Portal',
+
+  'register.title': 'Student Registration',
+  'register.intro': 'Enter your details to generate your Student Code.',
+  'register.name': 'Full Name',
+  'register.namePlaceholder': 'e.g. John Doe',
+  'register.age': 'Age',
+  'register.agePlaceholder': 'e.g. 18',
+  'register.village': 'Village',
+  'register.villagePlaceholder': 'e.g. Smallville',
+  'register.pin': 'PIN (optional)',
+  'register.pinPlaceholder': '4 to 6 digits',
+  'register.pinHint': 'With a PIN, nobody can log in with your code alone.',
+  'register.duplicate':
+    'A student called {name}, age {age}, from {village} is already registered. If that is you, ask your teacher to look up your code instead of registering again.',
+  'register.registerAnyway': 'This is a different student, register anyway',
+  'register.submit': 'Register & Get Code',
+  'register.allRequired': 'All fields are required',
+  'register.invalidAge': 'Please enter a valid age',
+
+  'registered.title': 'Registration Successful!',
+  'registered.yourCode': 'Your unique Student Code is:',
+  'registered.copy': 'Copy Code',
+  'registered.copied': 'Code copied to clipboard!',
+  'registered.saveCode': 'Please save this code. You will need it to login.',
+  'registered.saveCodeAndPin': 'Please save this code. You will need it, and your PIN, to login.',
+  'registered.proceed': 'Proceed to Login',
+
+  'login.title': 'Student Login',
+  'login.code': 'Student Code',
+  'login.codePlaceholder': 'e.g. K7Q-M4X',
+  'login.pin': 'PIN',
+  'login.pinHint': '(only if you chose one)',
+  'login.submit': 'Login',
+  'login.noCode': "Don't have a code?",
+  'login.registerHere': 'Register here',
+
+  'admin.title': 'Admin Login',
+  'admin.username': 'Admin Username',
+  'admin.password': 'Passcode',
+  'admin.enter': 'Enter',
+
+  'status.online': 'Online',
+  'status.connecting': 'Connecting...',
+  'status.offline': 'Offline',
+
+  'lobby.code': 'Code: {code}',
+  'lobby.queuedOne': 'Answers from a quiz are saved on this device and will be sent when you are back online.',
+  'lobby.queuedMany': 'Answers from {count} quizzes are saved on this device and will be sent when you are back online.',
+  'lobby.waiting': "Waiting for today's quiz...",
+  'lobby.stay': 'Please stay on this page.',
+  'lobby.available': 'Available now',
+  'lobby.nothingOpen': 'Nothing is open right now.',
+  'lobby.quizInfo': '{questions} questions · {minutes} min',
+  'lobby.closes': 'closes {time}',
+  'lobby.completed': 'Completed',
+  'lobby.start': 'Start',
+  'lobby.comingUp': 'Coming up',
+  'lobby.opens': 'Opens {time}',
+  'lobby.reviewAnswers': 'Review your answers',
+  'lobby.progress': 'My Progress',
+  'lobby.joinLive': 'Join live',
+  'lobby.liveInfo': '{questions} questions · live quiz show',
+
+  'runner.proctored': 'Proctored: leaving this page or copying is recorded',
+  'runner.total': 'Total: {time}',
+  'runner.offline': 'You are offline. Keep going: your answers are saved on this device and sent when the connection is back.',
+  'runner.questionOf': 'Question {current} of {total}',
+  'runner.questionTime': 'Question Time: {seconds}s',
+  'runner.loading': 'Loading questions...',
+  'runner.notFound': 'Error: Question not found.',
+  'runner.next': 'Next question',
+  'runner.finish': 'Finish quiz',
+  'runner.questionTimeUp': 'Time is up for this question.',
+  'runner.questionWarning': '{seconds} seconds left for this question',
+  'runner.totalWarning': 'One minute left for the whole quiz',
+
+  'live.waiting': 'Waiting for the host to start...',
+  'live.players': 'Players: {count}',
+  'live.points': '{points} pts',
+  'live.rank': 'Place {rank} of {players}',
+  'live.lockedIn': 'Answer locked in. Waiting for the others...',
+  'live.noAnswer': 'No answer this time.',
+  'live.earned': '+{points} points',
+  'live.nextSoon': 'Get ready for the next question!',
+  'live.ended': 'The show is over!',
+  'live.standings': 'Standings',
+
+  'result.title': 'Quiz Completed!',
+  'result.youScored': 'You scored',
+  'result.points': '/ {max} points',
+  'result.passed': 'Passed',
+  'result.notPassed': 'Not passed',
+  'result.offline': 'You are offline. Your answers are saved on this device, and your score will appear here once you are back online.',
+  'result.grading': 'Grading...',
+  'result.reviewLater': 'You can review your answers from the lobby once the quiz closes.',
+  'result.reviewLaterAt': 'You can review your answers from the lobby once the quiz closes ({time}).',
+
+  'answer.checking': 'Checking...',
+  'answer.saved': 'Answer saved',
+  'answer.correct': 'Correct!',
+  'answer.partly': 'Partly right ({percent}%)',
+  'answer.incorrect': 'Incorrect',
+  'answer.correctAnswer': 'Correct answer: {answer}',
+  'answer.selectAll': 'Select all that apply.',
+  'answer.orderHint': 'Put these in the right order, first at the top.',
+  'answer.moveUp': 'Move up',
+  'answer.moveDown': 'Move down',
+  'answer.submit': 'Submit Answer',
+  'answer.enterNumber': 'Enter a number',
+  'answer.typeAnswer': 'Type your answer',
+  'answer.true': 'True',
+  'answer.false': 'False',
+  'answer.keysChoice': 'Keys: press a number or letter to pick an option, then Enter to answer.',
+  'answer.keysMulti': 'Keys: press a number or letter to tick or untick an option, then Enter to submit.',
+  'answer.keysOrder': 'Keys: press the number of an item to pick it, the up and down arrows to move it, then Enter to submit.',
+  'answer.moved': '{item} is now number {position}',
+  'answer.yourChoice': 'Your answer',
+  'answer.rightOption': 'Correct answer',
+
+  'review.youScored': 'You scored {score}',
+  'review.yourAnswer': 'Your answer:',
+  'review.notAnswered': 'Not answered',
+  'review.points': '({points} points)',
+  'review.correctAnswer': 'Correct answer:',
+
+  'score.pass': 'Pass',
+  'score.fail': 'Fail',
+
+  'progress.quizzesTaken': 'Quizzes taken',
+  'progress.average': 'Average',
+  'progress.streak': 'Streak',
+  'progress.bestStreak': 'Best streak',
+  'progress.dayOne': '{count} day',
+  'progress.dayMany': '{count} days',
+  'progress.keepStreak': "Take today's quiz to keep your streak going!",
+  'progress.trend': 'Scores Over Time',
+  'progress.trendEmpty': 'Take a few more quizzes to see your trend.',
+  'progress.trendLabel': 'Score trend',
+  'progress.tags': 'Strengths & Weaknesses',
+  'progress.tagsEmpty': 'Not enough answers yet.',
+  'progress.tagCount': '{percent}% · {count}q',
+  'progress.history': 'Past Quizzes',
+  'progress.historyEmpty': 'No quizzes taken yet.',
+  'progress.leaderboard': 'Leaderboard',
+  'progress.everyone': 'Everyone',
+
+  'board.rank': 'Rank',
+  'board.student': 'Student',
+  'board.points': 'Points',
+  'board.quizzes': 'Quizzes',
+  'board.you': '(you)',
+  'board.empty': 'No quizzes taken in this period.',
+  'period.DAY': 'Today',
+  'period.WEEK': 'This week',
+  'period.ALL': 'All time',
+
+  // Server messages a student may see, matched word for word by translateError
+  'error.codeTypo': 'That code has a typo. Check each character and try again.',
+  'error.invalidLogin': 'Invalid student code or PIN',
+  'error.pinNeeded': 'Enter your PIN as well as your code',
+  'error.pinFormat': 'The PIN must be 4 to 6 digits',
+  'error.offline': 'No connection to the server',
+  'error.quizNotOpen': 'Quiz is not open',
+  'error.alreadySubmitted': 'You have already submitted this quiz',
+  'error.timeUp': 'Time is up for this quiz',
+  'error.questionTimeUp': 'Time is up for this question',
+  'error.loginFirst': 'Please log in first',
+  'error.otherClass': 'This quiz is for another class',
+  'error.joinFirst': 'Join the show first',
+  'error.playedLive': 'This quiz is played live: join the show from the lobby',
+};
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
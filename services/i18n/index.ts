@@ -0,0 +1,93 @@
+import { Language, Option, Question } from '../../types';
+import { MessageKey, Messages, en } from './en';
+import { si } from './si';
+import { ta } from './ta';
+
+// Portal text in the students' languages. Staff screens stay in English.
+
+export type { MessageKey };
+
+export const LANGUAGES: Language[] = ['en', 'si', 'ta'];
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+// Each language in its own script, as students look for it in a picker.
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  en: 'English',
+  si: 'සිංහල',
+  ta: 'தமிழ்',
+};
+
+// Used for dates and times, with Sri Lankan conventions for all three.
+const LOCALES: Record<Language, string> = { en: 'en-LK', si: 'si-LK', ta: 'ta-LK' };
+
+const CATALOGS: Record<Language, Partial<Messages>> = { en, si, ta };
+
+export const isLanguage = (value: unknown): value is Language => LANGUAGES.includes(value as Language);
+
+export type Translator = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+export const createTranslator = (language: Language): Translator => (key, params) => {
+  const message = CATALOGS[language][key] ?? en[key];
+  return params ? message.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match)) : message;
+};
+
+// Server errors arrive as English text. The ones a student can run into are in the
+// catalogs; anything else is shown as it came.
+const SERVER_ERRORS = new Map(
+  (Object.keys(en) as MessageKey[]).filter(key => key.startsWith('error.')).map(key => [en[key], key] as const)
+);
+
+export const translateError = (t: Translator, message: string) => {
+  const key = SERVER_ERRORS.get(message);
+  return key ? t(key) : message;
+};
+
+export const formatDateTime = (language: Language, at: number) => new Date(at).toLocaleString(LOCALES[language]);
+
+export const trueFalseOptions = (t: Translator): Option[] => [
+  { id: 'true', text: t('answer.true') },
+  { id: 'false', text: t('answer.false') },
+];
+
+// The question as a student in `language` reads it: translated text where there is
+// some, English where not. Ids and the answer key are untouched, so it grades the same.
+export const localizeQuestion = <
+  Q extends Pick<Question, 'text' | 'options' | 'explanation' | 'acceptedAnswers' | 'translations'>
+>(
+  question: Q,
+  language: Language
+): Q => {
+  const translation = language === DEFAULT_LANGUAGE ? undefined : question.translations?.[language];
+  if (!translation) return question;
+  return {
+    ...question,
+    text: translation.text.trim() || question.text,
+    options: question.options?.map(o => ({ ...o, text: translation.options?.[o.id]?.trim() || o.text })),
+    explanation: translation.explanation?.trim() || question.explanation,
+    ...(question.acceptedAnswers && translation.acceptedAnswers?.length && { acceptedAnswers: translation.acceptedAnswers }),
+  };
+};
+
+// Languages the question can't be shown in fully: its text, an option or its
+// explanation would fall back to English.
+export const missingTranslations = (question: Pick<Question, 'text' | 'options' | 'explanation' | 'translations'>) =>
+  LANGUAGES.filter(language => {
+    if (language === DEFAULT_LANGUAGE) return false;
+    const translation = question.translations?.[language];
+    if (!translation?.text.trim()) return true;
+    if ((question.options || []).some(o => !translation.options?.[o.id]?.trim())) return true;
+    return !!question.explanation?.trim() && !translation.explanation?.trim();
+  });
+
+// The language a device last used, so the entry screens open in it before anyone logs in.
+const LANGUAGE_KEY = 'quizmaster-pro/language';
+
+export const loadDeviceLanguage = (): Language => {
+  if (typeof localStorage === 'undefined') return DEFAULT_LANGUAGE;
+  const saved = localStorage.getItem(LANGUAGE_KEY);
+  return isLanguage(saved) ? saved : DEFAULT_LANGUAGE;
+};
+
+export const saveDeviceLanguage = (language: Language) => {
+  if (typeof localStorage !== 'undefined') localStorage.setItem(LANGUAGE_KEY, language);
+};
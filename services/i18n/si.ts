@@ -0,0 +1,185 @@
+import { Messages } from './en';
+
+export const si: Messages = {
+  'common.back': 'ආපසු',
+  'common.cancel': 'අවලංගු කරන්න',
+  'common.logout': 'ඉවත් වන්න',
+  'common.loading': 'පූරණය වෙමින්...',
+  'common.backToLobby': 'මුල් පිටුවට',
+  'common.language': 'භාෂාව',
+  'common.review': 'බලන්න',
+
+  'select.subtitle': 'ඉදිරියට යාමට ඔබේ දොරටුව තෝරන්න',
+  'select.studentLogin': 'සිසුන් පිවිසුම',
+  'select.register': 'නව සිසු ලියාපදිංචිය',
+  'select.admin': 'පරිපාලක දොරටුව',
+
+  'register.title': 'සිසු ලියාපදිංචිය',
+  'register.intro': 'ඔබේ සිසු කේතය ලබා ගැනීමට ඔබේ විස්තර ඇතුළත් කරන්න.',
+  'register.name': 'සම්පූර්ණ නම',
+  'register.namePlaceholder': 'උදා. කමල් පෙරේරා',
+  'register.age': 'වයස',
+  'register.agePlaceholder': 'උදා. 18',
+  'register.village': 'ගම',
+  'register.villagePlaceholder': 'උදා. මහනුවර',
+  'register.pin': 'PIN අංකය (අත්‍යවශ්‍ය නැත)',
+  'register.pinPlaceholder': 'ඉලක්කම් 4 සිට 6 දක්වා',
+  'register.pinHint': 'PIN අංකයක් ඇත්නම්, ඔබේ කේතය පමණක් භාවිතයෙන් කිසිවෙකුට පිවිසිය නොහැක.',
+  'register.duplicate':
+    '{village} හි, වයස {age} වන {name} නම් සිසුවෙකු දැනටමත් ලියාපදිංචි වී ඇත. එය ඔබ නම්, නැවත ලියාපදිංචි වීම වෙනුවට ඔබේ කේතය සොයා දෙන ලෙස ගුරුවරයාගෙන් ඉල්ලන්න.',
+  'register.registerAnyway': 'මෙය වෙනත් සිසුවෙකි, කෙසේ හෝ ලියාපදිංචි කරන්න',
+  'register.submit': 'ලියාපදිංචි වී කේතය ලබා ගන්න',
+  'register.allRequired': 'සියලු ක්ෂේත්‍ර අවශ්‍යයි',
+  'register.invalidAge': 'කරුණාකර වලංගු වයසක් ඇතුළත් කරන්න',
+
+  'registered.title': 'ලියාපදිංචිය සාර්ථකයි!',
+  'registered.yourCode': 'ඔබේ සිසු කේතය:',
+  'registered.copy': 'කේතය පිටපත් කරන්න',
+  'registered.copied': 'කේතය පිටපත් කළා!',
+  'registered.saveCode': 'කරුණාකර මෙම කේතය සුරකින්න. පිවිසීමට එය අවශ්‍ය වේ.',
+  'registered.saveCodeAndPin': 'කරුණාකර මෙම කේතය සුරකින්න. පිවිසීමට එය සහ ඔබේ PIN අංකය අවශ්‍ය වේ.',
+  'registered.proceed': 'පිවිසුමට යන්න',
+
+  'login.title': 'සිසුන් පිවිසුම',
+  'login.code': 'සිසු කේතය',
+  'login.codePlaceholder': 'උදා. K7Q-M4X',
+  'login.pin': 'PIN අංකය',
+  'login.pinHint': '(ඔබ එකක් තෝරා ඇත්නම් පමණි)',
+  'login.submit': 'පිවිසෙන්න',
+  'login.noCode': 'කේතයක් නැද්ද?',
+  'login.registerHere': 'මෙතැනින් ලියාපදිංචි වන්න',
+
+  'admin.title': 'පරිපාලක පිවිසුම',
+  'admin.username': 'පරිපාලක පරිශීලක නාමය',
+  'admin.password': 'මුරපදය',
+  'admin.enter': 'ඇතුළු වන්න',
+
+  'status.online': 'සබැඳිව',
+  'status.connecting': 'සම්බන්ධ වෙමින්...',
+  'status.offline': 'නොබැඳිව',
+
+  'lobby.code': 'කේතය: {code}',
+  'lobby.queuedOne': 'ප්‍රශ්නාවලියක පිළිතුරු මෙම උපාංගයේ සුරකින ලද අතර, ඔබ නැවත සබැඳි වූ විට යවනු ලැබේ.',
+  'lobby.queuedMany': 'ප්‍රශ්නාවලි {count}ක පිළිතුරු මෙම උපාංගයේ සුරකින ලද අතර, ඔබ නැවත සබැඳි වූ විට යවනු ලැබේ.',
+  'lobby.waiting': 'අද ප්‍රශ්නාවලිය එනතුරු රැඳී සිටින්න...',
+  'lobby.stay': 'කරුණාකර මෙම පිටුවේ රැඳී සිටින්න.',
+  'lobby.available': 'දැන් ලබා ගත හැක',
+  'lobby.nothingOpen': 'දැනට කිසිවක් විවෘත නැත.',
+  'lobby.quizInfo': 'ප්‍රශ්න {questions} · මිනිත්තු {minutes}',
+  'lobby.closes': '{time} ට වැසේ',
+  'lobby.completed': 'සම්පූර්ණයි',
+  'lobby.start': 'අරඹන්න',
+  'lobby.comingUp': 'ඉදිරියට',
+  'lobby.opens': '{time} ට විවෘත වේ',
+  'lobby.reviewAnswers': 'ඔබේ පිළිතුරු බලන්න',
+  'lobby.progress': 'මගේ ප්‍රගතිය',
+  'lobby.joinLive': 'සජීවීව එක්වන්න',
+  'lobby.liveInfo': 'ප්‍රශ්න {questions} · සජීවී ප්‍රශ්න විචාරාත්මක තරගය',
+
+  'runner.proctored': 'අධීක්ෂණය යටතේ: මෙම පිටුවෙන් ඉවත් වීම හෝ පිටපත් කිරීම සටහන් වේ',
+  'runner.total': 'මුළු කාලය: {time}',
+  'runner.offline': 'ඔබ නොබැඳිව සිටී. දිගටම කරගෙන යන්න: ඔබේ පිළිතුරු මෙම උපාංගයේ සුරකින අතර සම්බන්ධතාවය ලැබුණු විට යවනු ලැබේ.',
+  'runner.questionOf': 'ප්‍රශ්නය {current} / {total}',
+  'runner.questionTime': 'ප්‍රශ්න කාලය: තත්පර {seconds}',
+  'runner.loading': 'ප්‍රශ්න පූරණය වෙමින්...',
+  'runner.notFound': 'දෝෂය: ප්‍රශ්නය හමු නොවීය.',
+  'runner.next': 'ඊළඟ ප්‍රශ්නය',
+  'runner.finish': 'ප්‍රශ්නාවලිය අවසන් කරන්න',
+  'runner.questionTimeUp': 'මෙම ප්‍රශ්නයට කාලය අවසන්.',
+  'runner.questionWarning': 'මෙම ප්‍රශ්නයට තත්පර {seconds}ක් ඉතිරිව ඇත',
+  'runner.totalWarning': 'මුළු ප්‍රශ්නාවලියටම මිනිත්තුවක් ඉතිරිව ඇත',
+
+  'live.waiting': 'සත්කාරකයා ආරම්භ කරන තෙක් රැඳී සිටින්න...',
+  'live.players': 'ක්‍රීඩකයන්: {count}',
+  'live.points': 'ලකුණු {points}',
+  'live.rank': '{players} න් {rank} වන ස්ථානය',
+  'live.lockedIn': 'පිළිතුර ලැබුණි. අනෙක් අය එනතුරු රැඳී සිටින්න...',
+  'live.noAnswer': 'මෙවර පිළිතුරක් නැත.',
+  'live.earned': '+ලකුණු {points}',
+  'live.nextSoon': 'ඊළඟ ප්‍රශ්නයට සූදානම් වන්න!',
+  'live.ended': 'තරගය අවසන්!',
+  'live.standings': 'ස්ථාන',
+
+  'result.title': 'ප්‍රශ්නාවලිය අවසන්!',
+  'result.youScored': 'ඔබේ ලකුණු',
+  'result.points': '/ ලකුණු {max}',
+  'result.passed': 'සමත්',
+  'result.notPassed': 'අසමත්',
+  'result.offline': 'ඔබ නොබැඳිව සිටී. ඔබේ පිළිතුරු මෙම උපාංගයේ සුරකින ලද අතර, ඔබ නැවත සබැඳි වූ පසු ඔබේ ලකුණු මෙහි දිස් වේ.',
+  'result.grading': 'ලකුණු ගණනය වෙමින්...',
+  'result.reviewLater': 'ප්‍රශ්නාවලිය වැසුණු පසු ඔබේ පිළිතුරු මුල් පිටුවෙන් බැලිය හැක.',
+  'result.reviewLaterAt': 'ප්‍රශ්නාවලිය වැසුණු පසු ({time}) ඔබේ පිළිතුරු මුල් පිටුවෙන් බැලිය හැක.',
+
+  'answer.checking': 'පරීක්ෂා කරමින්...',
+  'answer.saved': 'පිළිතුර සුරකින ලදී',
+  'answer.correct': 'නිවැරදියි!',
+  'answer.partly': 'අර්ධ වශයෙන් නිවැරදියි ({percent}%)',
+  'answer.incorrect': 'වැරදියි',
+  'answer.correctAnswer': 'නිවැරදි පිළිතුර: {answer}',
+  'answer.selectAll': 'අදාළ සියල්ල තෝරන්න.',
+  'answer.orderHint': 'මේවා නිවැරදි අනුපිළිවෙළට සකසන්න, පළමුවැන්න ඉහළින්.',
+  'answer.moveUp': 'ඉහළට',
+  'answer.moveDown': 'පහළට',
+  'answer.submit': 'පිළිතුර යවන්න',
+  'answer.enterNumber': 'අංකයක් ඇතුළත් කරන්න',
+  'answer.typeAnswer': 'ඔබේ පිළිතුර ටයිප් කරන්න',
+  'answer.true': 'සත්‍ය',
+  'answer.false': 'අසත්‍ය',
+  'answer.keysChoice': 'යතුරු: විකල්පයක් තෝරා ගැනීමට අංකයක් හෝ අකුරක් ඔබා, පිළිතුරු දීමට Enter ඔබන්න.',
+  'answer.keysMulti': 'යතුරු: විකල්පයක් සලකුණු කිරීමට හෝ ඉවත් කිරීමට අංකයක් හෝ අකුරක් ඔබා, යැවීමට Enter ඔබන්න.',
+  'answer.keysOrder': 'යතුරු: අයිතමයක් තෝරා ගැනීමට එහි අංකය ද, එය ගෙන යාමට ඉහළ සහ පහළ ඊතල ද ඔබා, යැවීමට Enter ඔබන්න.',
+  'answer.moved': '{item} දැන් අංක {position}',
+  'answer.yourChoice': 'ඔබේ පිළිතුර',
+  'answer.rightOption': 'නිවැරදි පිළිතුර',
+
+  'review.youScored': 'ඔබේ ලකුණු {score}',
+  'review.yourAnswer': 'ඔබේ පිළිතුර:',
+  'review.notAnswered': 'පිළිතුරු දී නැත',
+  'review.points': '(ලකුණු {points})',
+  'review.correctAnswer': 'නිවැරදි පිළිතුර:',
+
+  'score.pass': 'සමත්',
+  'score.fail': 'අසමත්',
+
+  'progress.quizzesTaken': 'කළ ප්‍රශ්නාවලි',
+  'progress.average': 'සාමාන්‍යය',
+  'progress.streak': 'අඛණ්ඩ දින',
+  'progress.bestStreak': 'හොඳම අඛණ්ඩ දින',
+  'progress.dayOne': 'දින {count}',
+  'progress.dayMany': 'දින {count}',
+  'progress.keepStreak': 'ඔබේ අඛණ්ඩතාවය පවත්වා ගැනීමට අද ප්‍රශ්නාවලිය කරන්න!',
+  'progress.trend': 'කාලයත් සමඟ ලකුණු',
+  'progress.trendEmpty': 'ඔබේ ප්‍රවණතාවය දැකීමට තවත් ප්‍රශ්නාවලි කිහිපයක් කරන්න.',
+  'progress.trendLabel': 'ලකුණු ප්‍රවණතාවය',
+  'progress.tags': 'ශක්තීන් සහ දුර්වලතා',
+  'progress.tagsEmpty': 'තවම ප්‍රමාණවත් පිළිතුරු නැත.',
+  'progress.tagCount': '{percent}% · ප්‍රශ්න {count}',
+  'progress.history': 'පෙර ප්‍රශ්නාවලි',
+  'progress.historyEmpty': 'තවම ප්‍රශ්නාවලි කර නැත.',
+  'progress.leaderboard': 'ප්‍රමුඛ පුවරුව',
+  'progress.everyone': 'සියලු දෙනා',
+
+  'board.rank': 'ස්ථානය',
+  'board.student': 'සිසුවා',
+  'board.points': 'ලකුණු',
+  'board.quizzes': 'ප්‍රශ්නාවලි',
+  'board.you': '(ඔබ)',
+  'board.empty': 'මෙම කාලයේ කිසිදු ප්‍රශ්නාවලියක් කර නැත.',
+  'period.DAY': 'අද',
+  'period.WEEK': 'මෙම සතිය',
+  'period.ALL': 'සියලු කාලය',
+
+  'error.codeTypo': 'එම කේතයේ වැරැද්දක් ඇත. සෑම අකුරක්ම පරීක්ෂා කර නැවත උත්සාහ කරන්න.',
+  'error.invalidLogin': 'සිසු කේතය හෝ PIN අංකය වලංගු නැත',
+  'error.pinNeeded': 'ඔබේ කේතය සමඟ PIN අංකයද ඇතුළත් කරන්න',
+  'error.pinFormat': 'PIN අංකය ඉලක්කම් 4 සිට 6 දක්වා විය යුතුය',
+  'error.offline': 'සේවාදායකයට සම්බන්ධතාවයක් නැත',
+  'error.quizNotOpen': 'ප්‍රශ්නාවලිය විවෘත නැත',
+  'error.alreadySubmitted': 'ඔබ දැනටමත් මෙම ප්‍රශ්නාවලිය යවා ඇත',
+  'error.timeUp': 'මෙම ප්‍රශ්නාවලියේ කාලය අවසන්',
+  'error.questionTimeUp': 'මෙම ප්‍රශ්නයේ කාලය අවසන්',
+  'error.loginFirst': 'කරුණාකර පළමුව පිවිසෙන්න',
+  'error.otherClass': 'මෙම ප්‍රශ්නාවලිය වෙනත් පන්තියක් සඳහාය',
+  'error.joinFirst': 'පළමුව තරගයට එක්වන්න',
+  'error.playedLive': 'මෙම ප්‍රශ්නාවලිය සජීවීව කරනු ලැබේ: පිවිසුම් පිටුවෙන් තරගයට එක්වන්න',
+};
@@ -0,0 +1,185 @@
+import { Messages } from './en';
+
+export const ta: Messages = {
+  'common.back': 'பின்செல்',
+  'common.cancel': 'ரத்துசெய்',
+  'common.logout': 'வெளியேறு',
+  'common.loading': 'ஏற்றுகிறது...',
+  'common.backToLobby': 'முகப்புக்குத் திரும்பு',
+  'common.language': 'மொழி',
+  'common.review': 'பார்',
+
+  'select.subtitle': 'தொடர உங்கள் நுழைவாயிலைத் தேர்ந்தெடுக்கவும்',
+  'select.studentLogin': 'மாணவர் உள்நுழைவு',
+  'select.register': 'புதிய மாணவர் பதிவு',
+  'select.admin': 'நிர்வாகி நுழைவாயில்',
+
+  'register.title': 'மாணவர் பதிவு',
+  'register.intro': 'உங்கள் மாணவர் குறியீட்டைப் பெற உங்கள் விவரங்களை உள்ளிடவும்.',
+  'register.name': 'முழுப் பெயர்',
+  'register.namePlaceholder': 'எ.கா. கமலா ராஜன்',
+  'register.age': 'வயது',
+  'register.agePlaceholder': 'எ.கா. 18',
+  'register.village': 'கிராமம்',
+  'register.villagePlaceholder': 'எ.கா. நல்லூர்',
+  'register.pin': 'PIN (விருப்பத்தேர்வு)',
+  'register.pinPlaceholder': '4 முதல் 6 இலக்கங்கள்',
+  'register.pinHint': 'PIN இருந்தால், உங்கள் குறியீட்டை மட்டும் கொண்டு யாரும் உள்நுழைய முடியாது.',
+  'register.duplicate':
+    '{village} ஐச் சேர்ந்த, {age} வயதான {name} என்ற மாணவர் ஏற்கனவே பதிவு செய்துள்ளார். அது நீங்கள் என்றால், மீண்டும் பதிவு செய்வதற்குப் பதிலாக உங்கள் குறியீட்டைத் தேடித் தருமாறு ஆசிரியரிடம் கேளுங்கள்.',
+  'register.registerAnyway': 'இது வேறு மாணவர், எப்படியும் பதிவு செய்',
+  'register.submit': 'பதிவுசெய்து குறியீட்டைப் பெறு',
+  'register.allRequired': 'அனைத்து புலங்களும் தேவை',
+  'register.invalidAge': 'சரியான வயதை உள்ளிடவும்',
+
+  'registered.title': 'பதிவு வெற்றிகரமாக முடிந்தது!',
+  'registered.yourCode': 'உங்கள் மாணவர் குறியீடு:',
+  'registered.copy': 'குறியீட்டை நகலெடு',
+  'registered.copied': 'குறியீடு நகலெடுக்கப்பட்டது!',
+  'registered.saveCode': 'இந்தக் குறியீட்டைச் சேமித்துக் கொள்ளுங்கள். உள்நுழைய இது தேவைப்படும்.',
+  'registered.saveCodeAndPin': 'இந்தக் குறியீட்டைச் சேமித்துக் கொள்ளுங்கள். உள்நுழைய இதுவும் உங்கள் PIN உம் தேவைப்படும்.',
+  'registered.proceed': 'உள்நுழைவுக்குச் செல்',
+
+  'login.title': 'மாணவர் உள்நுழைவு',
+  'login.code': 'மாணவர் குறியீடு',
+  'login.codePlaceholder': 'எ.கா. K7Q-M4X',
+  'login.pin': 'PIN',
+  'login.pinHint': '(நீங்கள் ஒன்றைத் தேர்ந்தெடுத்திருந்தால் மட்டும்)',
+  'login.submit': 'உள்நுழை',
+  'login.noCode': 'குறியீடு இல்லையா?',
+  'login.registerHere': 'இங்கே பதிவு செய்யுங்கள்',
+
+  'admin.title': 'நிர்வாகி உள்நுழைவு',
+  'admin.username': 'நிர்வாகி பயனர்பெயர்',
+  'admin.password': 'கடவுச்சொல்',
+  'admin.enter': 'நுழை',
+
+  'status.online': 'இணைப்பில்',
+  'status.connecting': 'இணைக்கிறது...',
+  'status.offline': 'இணைப்பில்லை',
+
+  'lobby.code': 'குறியீடு: {code}',
+  'lobby.queuedOne': 'ஒரு வினாடி வினாவின் பதில்கள் இந்தச் சாதனத்தில் சேமிக்கப்பட்டுள்ளன, நீங்கள் மீண்டும் இணைப்பில் வந்ததும் அனுப்பப்படும்.',
+  'lobby.queuedMany': '{count} வினாடி வினாக்களின் பதில்கள் இந்தச் சாதனத்தில் சேமிக்கப்பட்டுள்ளன, நீங்கள் மீண்டும் இணைப்பில் வந்ததும் அனுப்பப்படும்.',
+  'lobby.waiting': 'இன்றைய வினாடி வினாவுக்காகக் காத்திருக்கிறது...',
+  'lobby.stay': 'இந்தப் பக்கத்திலேயே இருங்கள்.',
+  'lobby.available': 'இப்போது கிடைக்கிறது',
+  'lobby.nothingOpen': 'இப்போது எதுவும் திறந்திருக்கவில்லை.',
+  'lobby.quizInfo': '{questions} கேள்விகள் · {minutes} நிமி',
+  'lobby.closes': '{time} மூடப்படும்',
+  'lobby.completed': 'முடிந்தது',
+  'lobby.start': 'தொடங்கு',
+  'lobby.comingUp': 'வரவிருப்பவை',
+  'lobby.opens': '{time} திறக்கப்படும்',
+  'lobby.reviewAnswers': 'உங்கள் பதில்களைப் பாருங்கள்',
+  'lobby.progress': 'என் முன்னேற்றம்',
+  'lobby.joinLive': 'நேரலையில் சேருங்கள்',
+  'lobby.liveInfo': '{questions} கேள்விகள் · நேரலை வினாடி வினா நிகழ்ச்சி',
+
+  'runner.proctored': 'கண்காணிப்பில்: இந்தப் பக்கத்தை விட்டு வெளியேறுவது அல்லது நகலெடுப்பது பதிவு செய்யப்படும்',
+  'runner.total': 'மொத்தம்: {time}',
+  'runner.offline': 'நீங்கள் இணைப்பில் இல்லை. தொடருங்கள்: உங்கள் பதில்கள் இந்தச் சாதனத்தில் சேமிக்கப்பட்டு இணைப்பு வந்ததும் அனுப்பப்படும்.',
+  'runner.questionOf': 'கேள்வி {current} / {total}',
+  'runner.questionTime': 'கேள்வி நேரம்: {seconds} வி',
+  'runner.loading': 'கேள்விகளை ஏற்றுகிறது...',
+  'runner.notFound': 'பிழை: கேள்வி கிடைக்கவில்லை.',
+  'runner.next': 'அடுத்த கேள்வி',
+  'runner.finish': 'வினாடி வினாவை முடி',
+  'runner.questionTimeUp': 'இந்தக் கேள்விக்கான நேரம் முடிந்தது.',
+  'runner.questionWarning': 'இந்தக் கேள்விக்கு {seconds} விநாடிகள் மட்டுமே உள்ளன',
+  'runner.totalWarning': 'முழு வினாடி வினாவுக்கும் ஒரு நிமிடம் மட்டுமே உள்ளது',
+
+  'live.waiting': 'நடத்துநர் தொடங்கும் வரை காத்திருங்கள்...',
+  'live.players': 'பங்கேற்பாளர்கள்: {count}',
+  'live.points': '{points} புள்ளிகள்',
+  'live.rank': '{players} பேரில் {rank} ஆம் இடம்',
+  'live.lockedIn': 'பதில் பதிவானது. மற்றவர்களுக்காகக் காத்திருங்கள்...',
+  'live.noAnswer': 'இம்முறை பதில் இல்லை.',
+  'live.earned': '+{points} புள்ளிகள்',
+  'live.nextSoon': 'அடுத்த கேள்விக்குத் தயாராகுங்கள்!',
+  'live.ended': 'நிகழ்ச்சி முடிந்தது!',
+  'live.standings': 'நிலைகள்',
+
+  'result.title': 'வினாடி வினா முடிந்தது!',
+  'result.youScored': 'உங்கள் மதிப்பெண்',
+  'result.points': '/ {max} புள்ளிகள்',
+  'result.passed': 'தேர்ச்சி',
+  'result.notPassed': 'தேர்ச்சி இல்லை',
+  'result.offline': 'நீங்கள் இணைப்பில் இல்லை. உங்கள் பதில்கள் இந்தச் சாதனத்தில் சேமிக்கப்பட்டுள்ளன, மீண்டும் இணைப்பில் வந்ததும் உங்கள் மதிப்பெண் இங்கே தோன்றும்.',
+  'result.grading': 'மதிப்பிடுகிறது...',
+  'result.reviewLater': 'வினாடி வினா மூடப்பட்டதும் உங்கள் பதில்களை முகப்பிலிருந்து பார்க்கலாம்.',
+  'result.reviewLaterAt': 'வினாடி வினா மூடப்பட்டதும் ({time}) உங்கள் பதில்களை முகப்பிலிருந்து பார்க்கலாம்.',
+
+  'answer.checking': 'சரிபார்க்கிறது...',
+  'answer.saved': 'பதில் சேமிக்கப்பட்டது',
+  'answer.correct': 'சரி!',
+  'answer.partly': 'பகுதி சரி ({percent}%)',
+  'answer.incorrect': 'தவறு',
+  'answer.correctAnswer': 'சரியான பதில்: {answer}',
+  'answer.selectAll': 'பொருந்தும் அனைத்தையும் தேர்ந்தெடுக்கவும்.',
+  'answer.orderHint': 'இவற்றைச் சரியான வரிசையில் அமைக்கவும், முதலாவது மேலே.',
+  'answer.moveUp': 'மேலே நகர்த்து',
+  'answer.moveDown': 'கீழே நகர்த்து',
+  'answer.submit': 'பதிலைச் சமர்ப்பி',
+  'answer.enterNumber': 'ஒரு எண்ணை உள்ளிடவும்',
+  'answer.typeAnswer': 'உங்கள் பதிலைத் தட்டச்சு செய்யவும்',
+  'answer.true': 'உண்மை',
+  'answer.false': 'பொய்',
+  'answer.keysChoice': 'விசைகள்: ஒரு விருப்பத்தைத் தேர்ந்தெடுக்க எண் அல்லது எழுத்தை அழுத்தி, பதிலளிக்க Enter அழுத்தவும்.',
+  'answer.keysMulti': 'விசைகள்: ஒரு விருப்பத்தைக் குறிக்க அல்லது நீக்க எண் அல்லது எழுத்தை அழுத்தி, சமர்ப்பிக்க Enter அழுத்தவும்.',
+  'answer.keysOrder': 'விசைகள்: ஒரு உருப்படியைத் தேர்ந்தெடுக்க அதன் எண்ணையும், நகர்த்த மேல் கீழ் அம்புகளையும் அழுத்தி, சமர்ப்பிக்க Enter அழுத்தவும்.',
+  'answer.moved': '{item} இப்போது எண் {position}',
+  'answer.yourChoice': 'உங்கள் பதில்',
+  'answer.rightOption': 'சரியான பதில்',
+
+  'review.youScored': 'உங்கள் மதிப்பெண் {score}',
+  'review.yourAnswer': 'உங்கள் பதில்:',
+  'review.notAnswered': 'பதிலளிக்கவில்லை',
+  'review.points': '({points} புள்ளிகள்)',
+  'review.correctAnswer': 'சரியான பதில்:',
+
+  'score.pass': 'தேர்ச்சி',
+  'score.fail': 'தோல்வி',
+
+  'progress.quizzesTaken': 'எழுதிய வினாடி வினாக்கள்',
+  'progress.average': 'சராசரி',
+  'progress.streak': 'தொடர் நாட்கள்',
+  'progress.bestStreak': 'சிறந்த தொடர்',
+  'progress.dayOne': '{count} நாள்',
+  'progress.dayMany': '{count} நாட்கள்',
+  'progress.keepStreak': 'உங்கள் தொடரைத் தக்கவைக்க இன்றைய வினாடி வினாவை எழுதுங்கள்!',
+  'progress.trend': 'காலப்போக்கில் மதிப்பெண்கள்',
+  'progress.trendEmpty': 'உங்கள் போக்கைக் காண இன்னும் சில வினாடி வினாக்களை எழுதுங்கள்.',
+  'progress.trendLabel': 'மதிப்பெண் போக்கு',
+  'progress.tags': 'பலங்களும் பலவீனங்களும்',
+  'progress.tagsEmpty': 'இன்னும் போதுமான பதில்கள் இல்லை.',
+  'progress.tagCount': '{percent}% · {count} கே',
+  'progress.history': 'முந்தைய வினாடி வினாக்கள்',
+  'progress.historyEmpty': 'இன்னும் வினாடி வினா எதுவும் எழுதவில்லை.',
+  'progress.leaderboard': 'தரவரிசை',
+  'progress.everyone': 'அனைவரும்',
+
+  'board.rank': 'இடம்',
+  'board.student': 'மாணவர்',
+  'board.points': 'புள்ளிகள்',
+  'board.quizzes': 'வினாடி வினாக்கள்',
+  'board.you': '(நீங்கள்)',
+  'board.empty': 'இந்தக் காலத்தில் வினாடி வினா எதுவும் எழுதப்படவில்லை.',
+  'period.DAY': 'இன்று',
+  'period.WEEK': 'இந்த வாரம்',
+  'period.ALL': 'எல்லா காலமும்',
+
+  'error.codeTypo': 'அந்தக் குறியீட்டில் பிழை உள்ளது. ஒவ்வொரு எழுத்தையும் சரிபார்த்து மீண்டும் முயலவும்.',
+  'error.invalidLogin': 'மாணவர் குறியீடு அல்லது PIN தவறானது',
+  'error.pinNeeded': 'உங்கள் குறியீட்டுடன் PIN ஐயும் உள்ளிடவும்',
+  'error.pinFormat': 'PIN 4 முதல் 6 இலக்கங்களாக இருக்க வேண்டும்',
+  'error.offline': 'சேவையகத்துடன் இணைப்பு இல்லை',
+  'error.quizNotOpen': 'வினாடி வினா திறக்கப்படவில்லை',
+  'error.alreadySubmitted': 'இந்த வினாடி வினாவை ஏற்கனவே சமர்ப்பித்துவிட்டீர்கள்',
+  'error.timeUp': 'இந்த வினாடி வினாவுக்கான நேரம் முடிந்தது',
+  'error.questionTimeUp': 'இந்தக் கேள்விக்கான நேரம் முடிந்தது',
+  'error.loginFirst': 'முதலில் உள்நுழையவும்',
+  'error.otherClass': 'இந்த வினாடி வினா வேறு வகுப்புக்கானது',
+  'error.joinFirst': 'முதலில் நிகழ்ச்சியில் சேருங்கள்',
+  'error.playedLive': 'இந்த வினாடி வினா நேரலையில் நடைபெறுகிறது: முகப்பிலிருந்து நிகழ்ச்சியில் சேருங்கள்',
+};
@@ -0,0 +1,43 @@
+// Pictures for question content. They live in the question bank as data URLs, so
+// a quiz never fetches anything from outside and works offline once loaded.
+
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+const DATA_URL = /^data:(image\/[a-z]+);base64,([A-Za-z0-9+/]+={0,2})$/;
+
+// Big enough for a clear diagram, small enough that a bank of them still syncs quickly.
+export const MAX_IMAGE_BYTES = 300 * 1024;
+const MAX_IMAGE_SIDE = 1200;
+
+// Checked on the server for every upload. SVG is refused: it can carry scripts.
+export const validateImage = (dataUrl: string) => {
+  const match = DATA_URL.exec(dataUrl);
+  if (!match || !IMAGE_TYPES.includes(match[1])) return ['Images must be PNG, JPEG, GIF or WebP'];
+  const bytes = Math.floor((match[2].length * 3) / 4);
+  return bytes > MAX_IMAGE_BYTES ? [`Images must be under ${Math.round(MAX_IMAGE_BYTES / 1024)} KB`] : [];
+};
+
+const readAsDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('Could not read that file'));
+    reader.readAsDataURL(blob);
+  });
+
+// Draws the picture onto a canvas and re-encodes it, scaled down if it is large.
+// Whatever else the file carried (metadata, trailing bytes) is left behind.
+// GIFs are kept as they are so animations survive.
+export const prepareImageFile = async (file: File): Promise<string> => {
+  if (!IMAGE_TYPES.includes(file.type)) throw new Error('Images must be PNG, JPEG, GIF or WebP');
+  if (file.type === 'image/gif') return readAsDataUrl(file);
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_IMAGE_SIDE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  // Photos compress far better as JPEG; diagrams with few colours stay sharp as PNG
+  const png = canvas.toDataURL('image/png');
+  return file.type === 'image/jpeg' || validateImage(png).length > 0 ? canvas.toDataURL('image/jpeg', 0.85) : png;
+};
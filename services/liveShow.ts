@@ -0,0 +1,56 @@
+import { LiveAnswer, LiveDistribution, LiveShow, LiveStanding, Question, QuestionType } from '../types';
+import { choicesFor, correctOptionIds } from './questionTypes';
+import { rankLeaderboard } from './progress';
+
+// Quiz show scoring. Half the points are for being right and half for being quick:
+// a right answer straight away earns 1000, one at the buzzer 500. Partly right
+// multi-selects earn their share.
+export const LIVE_MAX_POINTS = 1000;
+
+export const livePoints = (credit: number, timeTakenMs: number, limitMs: number) => {
+  if (credit <= 0) return 0;
+  const remaining = limitMs > 0 ? Math.max(0, 1 - timeTakenMs / limitMs) : 0;
+  return Math.round(credit * LIVE_MAX_POINTS * (0.5 + 0.5 * remaining));
+};
+
+// The option bars on the host's screen, plus right/partly/wrong/no answer for every type.
+export const liveDistribution = (
+  question: Question,
+  answers: Record<string, LiveAnswer>,
+  playerIds: string[],
+): LiveDistribution => {
+  const given = playerIds.map(id => answers[id]).filter((a): a is LiveAnswer => !!a);
+  const picks = (value: LiveAnswer['value']) => (Array.isArray(value) ? value : [String(value)]);
+  const right = correctOptionIds(question) || [];
+  // An ordering answer is the whole list; counting its items would say nothing
+  const options = question.type === QuestionType.ORDERING ? [] : choicesFor(question);
+  return {
+    options: options.map(o => ({
+      id: o.id,
+      text: o.text,
+      count: given.filter(a => picks(a.value).includes(o.id)).length,
+      correct: right.includes(o.id),
+    })),
+    correct: given.filter(a => a.credit === 1).length,
+    partial: given.filter(a => a.credit > 0 && a.credit < 1).length,
+    incorrect: given.filter(a => a.credit === 0).length,
+    unanswered: playerIds.length - given.length,
+  };
+};
+
+// Show points so far for every player, best first; ties share a rank.
+export const liveStandings = (show: LiveShow, nameOf: (studentId: string) => string): LiveStanding[] =>
+  rankLeaderboard(
+    show.playerIds.map(studentId => {
+      const mine = Object.values(show.answers).map(byStudent => byStudent[studentId]).filter(Boolean);
+      return {
+        studentId,
+        name: nameOf(studentId),
+        points: mine.reduce((sum, a) => sum + a.points, 0),
+        correct: mine.filter(a => a.credit === 1).length,
+      };
+    }),
+  );
+
+// Players' screens show this many places, plus their own if they are further down.
+export const LIVE_STANDINGS_SIZE = 5;
@@ -0,0 +1,2042 @@
+import {
+  User,
+  UserRole,
+  Language,
+  AdminAccount,
+  AdminSummary,
+  Question,
+  QuestionInput,
+  QuestionType,
+  AnswerValue,
+  Difficulty,
+  StudentQuestion,
+  Quiz,
+  Group,
+  GroupCriteria,
+  AppSettings,
+  GroupKind,
+  QuizStatus,
+  QuizDrawRule,
+  QuizLobby,
+  QuizReview,
+  FeedbackPolicy,
+  AnswerCheck,
+  Attempt,
+  ResumableAttempt,
+  Answer,
+  Submission,
+  SubmissionDraft,
+  GradeResult,
+  OfflineBatch,
+  OfflineSyncResult,
+  BackendEvent,
+  IntegrityEvent,
+  IntegrityEventKind,
+  LiveAttempt,
+  ProctorConnection,
+  StudentMergeResult,
+  Accommodations,
+  QuestionImage,
+  LiveShow,
+  LiveHostView,
+  LiveStudentView,
+  LiveStanding,
+  AuditAction,
+  AuditEntry,
+  AuditFilter,
+  AuditLogView,
+} from '../types';
+import { answerCredit, gradeAnswers, isValidAnswerValue } from './grading';
+import {
+  generateStudentCode,
+  isWellFormedStudentCode,
+  normalizeStudentCode,
+  questionSeconds,
+  registrationKey,
+  validateAccommodations,
+  validatePin,
+} from './students';
+import { normalizeTags, pruneAnswerKey, validateQuestion } from './questionBank';
+import { drawQuestions } from './quizBuilder';
+import { seededShuffle } from './shuffle';
+import { ATTEMPT_STALE_MS } from './proctoring';
+import { isDeviceOnline } from './offline';
+import { QuizAnalytics, analyzeQuiz } from './analytics';
+import { groupMemberIds, isQuizForStudent, isTargeted, matchesGroupCriteria } from './groups';
+import {
+  LEADERBOARD_SIZE,
+  LeaderboardEntry,
+  LeaderboardPeriod,
+  StudentHistory,
+  computeStreak,
+  dayKey,
+  initials,
+  periodStart,
+  rankLeaderboard,
+  tagStats,
+} from './progress';
+import { QuizResults } from './export';
+import { questionKey } from './questionImport';
+import { correctOptionIds, formatCorrectAnswer } from './questionTypes';
+import { questionImageIds } from './richText';
+import { validateImage } from './images';
+import { AUDIT_GENESIS_HASH, hashAuditEntry, matchesAuditFilter, verifyAuditLog } from './audit';
+import { LIVE_STANDINGS_SIZE, liveDistribution, livePoints, liveStandings } from './liveShow';
+import { DEFAULT_LANGUAGE, createTranslator, isLanguage, localizeQuestion, trueFalseOptions } from './i18n';
+import {
+  DEFAULT_OWNER,
+  LOGIN_WINDOW_MS,
+  MAX_FAILED_LOGINS,
+  MAX_FAILED_LOGINS_PER_CLIENT,
+  SESSION_IDLE_MS,
+  STAFF_ROLES,
+  hashPassword,
+  hashesMatch,
+  isStaff,
+  randomToken,
+  validatePassword,
+} from './auth';
+import { ConnectionStatus, createTransport } from './realtime';
+import {
+  BackupFile,
+  CURRENT_SCHEMA_VERSION,
+  DEFAULT_SETTINGS,
+  StorageAdapter,
+  StoredState,
+  createBackup,
+  createBrowserStorage,
+  migrateState,
+  readBackup,
+} from './storage';
+
+// --- Simulated server state ---
+// Everything below stands in for a real server: the UI only talks to it through
+// the async MockBackend API and the event bus, never by touching this state.
+
+const seedQuestion = (
+  id: string,
+  text: string,
+  optionTexts: string[],
+  correctAnswer: string,
+  subject: string,
+  difficulty: Difficulty,
+  tags: string[],
+  gradeLevel: number,
+): Question => ({
+  id,
+  type: QuestionType.SINGLE_CHOICE,
+  text,
+  options: optionTexts.map((t, i) => ({ id: String.fromCharCode(97 + i), text: t })),
+  correctAnswer,
+  subject,
+  difficulty,
+  gradeLevel,
+  tags,
+  version: 1,
+  updatedAt: 0,
+});
+
+const SEED_QUESTIONS: Question[] = [
+  seedQuestion('q1', 'What is the capital of France?', ['Berlin', 'Madrid', 'Paris', 'Rome'], 'c', 'Geography', Difficulty.EASY, ['capitals', 'europe'], 5),
+  seedQuestion('q2', 'Which planet is known as the Red Planet?', ['Mars', 'Venus', 'Jupiter', 'Saturn'], 'a', 'Science', Difficulty.EASY, ['astronomy'], 5),
+  seedQuestion('q3', 'What is 7 x 8?', ['54', '56', '64', '48'], 'b', 'Mathematics', Difficulty.EASY, ['arithmetic', 'multiplication'], 4),
+  seedQuestion('q4', 'What gas do plants absorb from the air?', ['Oxygen', 'Nitrogen', 'Hydrogen', 'Carbon dioxide'], 'd', 'Science', Difficulty.MEDIUM, ['biology', 'plants'], 6),
+  seedQuestion('q5', 'How many continents are there?', ['5', '6', '7', '8'], 'c', 'Geography', Difficulty.EASY, ['continents'], 5),
+  seedQuestion('q6', 'What is the largest ocean on Earth?', ['Pacific', 'Atlantic', 'Indian', 'Arctic'], 'a', 'Geography', Difficulty.MEDIUM, ['oceans'], 6),
+  seedQuestion('q7', 'What is the boiling point of water at sea level?', ['90°C', '100°C', '110°C', '120°C'], 'b', 'Science', Difficulty.MEDIUM, ['physics'], 7),
+  seedQuestion('q8', 'Who wrote "Romeo and Juliet"?', ['Charles Dickens', 'Mark Twain', 'William Shakespeare', 'Jane Austen'], 'c', 'Literature', Difficulty.MEDIUM, ['authors'], 8),
+  seedQuestion('q9', 'What is the square root of 81?', ['7', '8', '9', '10'], 'c', 'Mathematics', Difficulty.MEDIUM, ['algebra', 'roots'], 7),
+  seedQuestion('q10', 'Which organ pumps blood through the body?', ['Lungs', 'Heart', 'Liver', 'Kidneys'], 'b', 'Science', Difficulty.EASY, ['biology', 'human-body'], 5),
+  seedQuestion('q11', 'How many sides does a hexagon have?', ['5', '6', '7', '8'], 'b', 'Mathematics', Difficulty.EASY, ['geometry', 'shapes'], 4),
+  seedQuestion('q12', 'What is the chemical symbol for gold?', ['Ag', 'Go', 'Au', 'Gd'], 'c', 'Science', Difficulty.HARD, ['chemistry', 'elements'], 9),
+];
+
+let users: User[] = [];
+let admins: AdminAccount[] = [];
+let groups: Group[] = [];
+let questions: Question[] = [...SEED_QUESTIONS];
+let questionArchive: Question[] = []; // Superseded versions still pinned by a published quiz
+let images: QuestionImage[] = [];
+let quizzes: Quiz[] = [];
+let submissions: Submission[] = [];
+let attempts: Attempt[] = [];
+let settings: AppSettings = { ...DEFAULT_SETTINGS };
+let auditLog: AuditEntry[] = [];
+// Running quiz shows. Not saved: a show only makes sense while the class is in the room.
+let liveShows: LiveShow[] = [];
+
+const transport = createTransport();
+
+// Late submissions are still accepted this long after the deadline, to cover network lag.
+const SUBMISSION_GRACE_MS = 30 * 1000;
+// Same idea for answers arriving just after a question's timer ran out.
+const ANSWER_GRACE_MS = 5 * 1000;
+// Shorter for a quiz show, where the whole class is waiting for the reveal.
+const LIVE_ANSWER_GRACE_MS = 1000;
+// A device that was offline can still send its answers this long after the deadline.
+const OFFLINE_SYNC_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// --- Persistence ---
+
+let storage: StorageAdapter = createBrowserStorage();
+let persistenceEnabled = false;
+let saveQueue: Promise<void> = Promise.resolve();
+
+const snapshot = (): StoredState => ({
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  users,
+  admins,
+  groups,
+  questions,
+  questionArchive,
+  images,
+  quizzes,
+  submissions,
+  attempts,
+  settings,
+  auditLog,
+});
+
+const applyState = (state: StoredState) => {
+  users = state.users;
+  admins = state.admins;
+  groups = state.groups;
+  questions = state.questions;
+  questionArchive = state.questionArchive;
+  images = state.images;
+  quizzes = state.quizzes;
+  submissions = state.submissions;
+  attempts = state.attempts;
+  settings = state.settings;
+  auditLog = state.auditLog;
+  liveShows = [];
+};
+
+const freshState = (): StoredState => ({
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  users: [],
+  admins: [],
+  groups: [],
+  questions: [...SEED_QUESTIONS],
+  questionArchive: [],
+  images: [],
+  quizzes: [],
+  submissions: [],
+  attempts: [],
+  settings: { ...DEFAULT_SETTINGS },
+  auditLog: [],
+});
+
+// Loads (and migrates) saved data. If it can't be read, we run from memory and
+// stop saving rather than overwrite data a newer version of the app may need.
+const hydrate = async () => {
+  persistenceEnabled = false;
+  try {
+    const raw = await storage.load();
+    applyState(raw ? migrateState(raw) : freshState());
+    persistenceEnabled = true;
+    await storage.save(snapshot());
+  } catch (err) {
+    console.error('Could not load saved data; changes will not be saved this session', err);
+    applyState(freshState());
+  }
+};
+
+// Saves are queued so an older snapshot can never land after a newer one.
+const persist = () => {
+  if (!persistenceEnabled) return;
+  const data = snapshot();
+  saveQueue = saveQueue
+    .then(() => storage.save(data))
+    .catch(err => console.error('Failed to save data', err));
+};
+
+let hydrated = hydrate();
+
+// Simulated network latency. Requests also wait for saved data to load, and
+// fail like a real request would when the device has no network.
+const delay = async (ms = 200) => {
+  await hydrated;
+  if (!isDeviceOnline()) throw new Error('No connection to the server');
+  await new Promise(resolve => setTimeout(resolve, ms));
+};
+
+const emit = (event: BackendEvent) => transport.publish(event);
+
+// --- Sessions ---
+// Sessions live in server memory only. `sessionToken` plays the part of this
+// browser's session cookie: it goes along with every request.
+
+interface Session {
+  token: string;
+  userId: string;
+  role: UserRole;
+  expiresAt: number; // Pushed back on every request
+}
+
+let sessions: Session[] = [];
+let sessionToken: string | null = null;
+const sessionEndListeners = new Set<(reason: string) => void>();
+
+const PERMISSION_DENIED = 'You do not have permission to do that';
+
+// Who may call what. Proctors only ever read.
+const MANAGERS = [UserRole.OWNER, UserRole.TEACHER];
+const OWNERS = [UserRole.OWNER];
+
+const startSession = (user: User) => {
+  const session: Session = { token: randomToken(), userId: user.id, role: user.role, expiresAt: Date.now() + SESSION_IDLE_MS };
+  sessions = [...sessions.filter(s => s.expiresAt > Date.now()), session];
+  sessionToken = session.token;
+};
+
+const endSessionsOf = (userId: string) => {
+  sessions = sessions.filter(s => s.userId !== userId);
+};
+
+// The caller's session. An expired one, or one whose staff account has since been
+// disabled or changed, fails the request and tells the UI to log in again.
+const currentSession = (): Session => {
+  const session = sessions.find(s => s.token === sessionToken);
+  if (!session) throw new Error('Please log in first');
+  const account = admins.find(a => a.username === session.userId);
+  const reason =
+    Date.now() > session.expiresAt ? 'Your session has expired. Please log in again.' :
+    isStaff(session) && (!account || account.disabled || account.role !== session.role) ? 'Your account has been changed or disabled.' :
+    '';
+  if (reason) {
+    sessions = sessions.filter(s => s !== session);
+    sessionToken = null;
+    transport.setPresence(null);
+    sessionEndListeners.forEach(listener => listener(reason));
+    throw new Error(reason);
+  }
+  session.expiresAt = Date.now() + SESSION_IDLE_MS;
+  return session;
+};
+
+// Students may only act as themselves.
+const requireStudent = (studentId: string) => {
+  const session = currentSession();
+  if (session.role !== UserRole.STUDENT || session.userId !== studentId) throw new Error(PERMISSION_DENIED);
+};
+
+// Staff accounts still on a first or reset password can do nothing but change it.
+const requireStaff = (roles: UserRole[] = STAFF_ROLES): AdminAccount => {
+  const session = currentSession();
+  const account = admins.find(a => a.username === session.userId);
+  if (!account || !roles.includes(account.role)) throw new Error(PERMISSION_DENIED);
+  if (account.mustChangePassword) throw new Error('Change your password before continuing');
+  return account;
+};
+
+// Teachers only reach the quizzes they created; the owner and proctors see them all.
+const canSeeQuiz = (account: AdminAccount, quiz: Quiz) => account.role !== UserRole.TEACHER || quiz.ownerId === account.username;
+
+const getQuizFor = (account: AdminAccount, quizId: string) => {
+  const quiz = quizzes.find(q => q.id === quizId);
+  if (!quiz || !canSeeQuiz(account, quiz)) throw new Error('Quiz not found');
+  return quiz;
+};
+
+const toStaffUser = (account: AdminAccount): User => ({
+  id: account.username,
+  name: account.name,
+  role: account.role,
+  mustChangePassword: account.mustChangePassword,
+});
+
+const toAdminSummary = ({ salt, passwordHash, ...summary }: AdminAccount): AdminSummary => summary;
+
+const newAccount = async (username: string, name: string, role: UserRole, password: string): Promise<AdminAccount> => {
+  const salt = randomToken(16);
+  return {
+    username,
+    name,
+    role,
+    salt,
+    passwordHash: await hashPassword(password, salt),
+    mustChangePassword: true,
+    disabled: false,
+    createdAt: Date.now(),
+  };
+};
+
+// A fresh install (or a restored backup from before staff accounts) gets the
+// default owner, who must pick a new password on first login. Done at login
+// rather than on load: hashing needs a secure context, and students don't.
+const seedOwner = async () => {
+  if (admins.some(a => a.role === UserRole.OWNER && !a.disabled)) return;
+  const owner = await newAccount(DEFAULT_OWNER.username, DEFAULT_OWNER.name, UserRole.OWNER, DEFAULT_OWNER.password);
+  admins = [...admins.filter(a => a.username !== owner.username), owner];
+  persist();
+};
+
+const USERNAME_PATTERN = /^[a-z0-9._-]{3,32}$/;
+
+// --- Login rate limiting ---
+// Failure times per student code or staff username, plus one shared key for
+// every failure from this client. Runtime-only, like sessions.
+
+const CLIENT_KEY = '*';
+let loginFailures = new Map<string, number[]>();
+
+const recentFailures = (key: string) => (loginFailures.get(key) || []).filter(at => at > Date.now() - LOGIN_WINDOW_MS);
+
+// Throws while the key, or this client as a whole, has used up its failures.
+const checkLoginAllowed = (key: string) => {
+  const limited = [
+    { failures: recentFailures(key), max: MAX_FAILED_LOGINS },
+    { failures: recentFailures(CLIENT_KEY), max: MAX_FAILED_LOGINS_PER_CLIENT },
+  ].find(({ failures, max }) => failures.length >= max);
+  if (limited) {
+    const minutes = Math.ceil((limited.failures[0] + LOGIN_WINDOW_MS - Date.now()) / 60000);
+    throw new Error(`Too many failed logins. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`);
+  }
+};
+
+const recordLoginFailure = (key: string) => {
+  [key, CLIENT_KEY].forEach(k => loginFailures.set(k, [...recentFailures(k), Date.now()]));
+  audit('LOGIN_FAILED', { target: key }, SYSTEM);
+};
+
+// --- Audit log ---
+
+type AuditActor = Pick<AuditEntry, 'actor' | 'actorRole'>;
+
+// For changes the server makes on its own (deadlines, schedules) or on behalf of nobody.
+const SYSTEM: AuditActor = {};
+
+// Read without currentSession's checks: the call being recorded already passed them.
+const sessionActor = (): AuditActor => {
+  const session = sessions.find(s => s.token === sessionToken);
+  return session ? { actor: session.userId, actorRole: session.role } : SYSTEM;
+};
+
+// Appends an entry and saves it with the change it records. Details are copied, so
+// later changes to the same objects can't rewrite history.
+const audit = (
+  action: AuditAction,
+  { target, before, after }: { target?: string; before?: unknown; after?: unknown } = {},
+  by: AuditActor = sessionActor(),
+) => {
+  const copy = (value: unknown) => (value === undefined ? undefined : JSON.parse(JSON.stringify(value)));
+  const entry = {
+    seq: auditLog.length + 1,
+    at: Date.now(),
+    ...by,
+    action,
+    ...(target !== undefined && { target }),
+    ...(before !== undefined && { before: copy(before) }),
+    ...(after !== undefined && { after: copy(after) }),
+    prevHash: auditLog[auditLog.length - 1]?.hash ?? AUDIT_GENESIS_HASH,
+  };
+  auditLog = [...auditLog, { ...entry, hash: hashAuditEntry(entry) }];
+  persist();
+};
+
+// --- Groups ---
+
+// Teachers only reach the groups they created, like their quizzes.
+const canSeeGroup = (account: AdminAccount, group: Group) => account.role !== UserRole.TEACHER || group.ownerId === account.username;
+
+const getGroupFor = (account: AdminAccount, groupId: string) => {
+  const group = groups.find(g => g.id === groupId);
+  if (!group || !canSeeGroup(account, group)) throw new Error('Group not found');
+  return group;
+};
+
+// Changing a student's code, PIN or record: teachers only reach members of their own groups.
+const getStudentFor = (account: AdminAccount, studentId: string) => {
+  const student = getStudent(studentId);
+  const reachable = account.role !== UserRole.TEACHER ||
+    groups.some(g => canSeeGroup(account, g) && g.studentIds.includes(student.id));
+  if (!reachable) throw new Error('Student not found');
+  return student;
+};
+
+// Narrows results and analytics to one group's members when a group is picked.
+const memberFilter = (account: AdminAccount, groupId?: string) => {
+  if (!groupId) return () => true;
+  const members = new Set(getGroupFor(account, groupId).studentIds);
+  return (studentId: string) => members.has(studentId);
+};
+
+// Who hears that a quiz opened: its groups' members, or everyone.
+const quizAudience = (quiz: Quiz) => (isTargeted(quiz) ? Array.from(groupMemberIds(groups, quiz.groupIds!)) : undefined);
+
+const updateGroup = (group: Group, changes: Partial<Group>) => {
+  const updated = { ...group, ...changes };
+  groups = groups.map(g => (g.id === group.id ? updated : g));
+  persist();
+  audit(changes.studentIds ? 'GROUP_MEMBERS_CHANGED' : 'GROUP_SAVED', { target: group.id, before: group, after: updated });
+  return updated;
+};
+
+// --- Progress ---
+
+// Points per student from submissions since the period began, among the given students.
+const leaderboardRows = (period: LeaderboardPeriod, include: (studentId: string) => boolean): LeaderboardEntry[] => {
+  const since = periodStart(period, Date.now());
+  const totals = new Map<string, { points: number; quizzes: number }>();
+  submissions
+    .filter(s => s.submittedAt >= since && include(s.studentId))
+    .forEach(s => {
+      const t = totals.get(s.studentId) || { points: 0, quizzes: 0 };
+      totals.set(s.studentId, { points: t.points + s.score, quizzes: t.quizzes + 1 });
+    });
+  return rankLeaderboard(
+    Array.from(totals.entries()).map(([studentId, t]) => ({
+      studentId,
+      name: users.find(u => u.id === studentId)?.name || studentId,
+      ...t,
+    })),
+  );
+};
+
+// --- Students ---
+
+// Random, so unlike the old A01, A02... a code says nothing about its neighbours. Redrawn on a clash.
+const newStudentCode = () => {
+  let code = generateStudentCode();
+  while (users.some(u => u.id === code)) code = generateStudentCode();
+  return code;
+};
+
+const toPublicStudent = ({ pin, ...student }: User): User => ({ ...student, hasPin: !!pin });
+
+const hashPin = async (pin: string) => {
+  if (!crypto.subtle) throw new Error('PINs need a secure connection (https or localhost)');
+  const salt = randomToken(16);
+  return { salt, hash: await hashPassword(pin, salt) };
+};
+
+const getStudent = (studentId: string) => {
+  const student = users.find(u => u.role === UserRole.STUDENT && u.id === studentId);
+  if (!student) throw new Error('Student not found');
+  return student;
+};
+
+// A student mid-quiz would lose their session, so code changes wait until they finish.
+const assertNotInQuiz = (student: User) => {
+  const running = attempts.find(a => a.studentId === student.id && !a.submittedAt && a.deadline > Date.now());
+  if (running) throw new Error(`${student.name} is taking a quiz right now. Try again when they have finished.`);
+};
+
+// Moves one student's attempts and submissions to another id. Where both already
+// have a record for the same quiz, the destination's is kept.
+const moveStudentRecords = (fromId: string, toId: string) => {
+  const takenByTarget = new Set([
+    ...submissions.filter(s => s.studentId === toId).map(s => s.quizId),
+    ...attempts.filter(a => a.studentId === toId).map(a => a.quizId),
+  ]);
+  const incoming = submissions.filter(s => s.studentId === fromId);
+  const dropped = incoming.filter(s => takenByTarget.has(s.quizId)).length;
+  submissions = submissions
+    .filter(s => s.studentId !== fromId || !takenByTarget.has(s.quizId))
+    .map(s => (s.studentId === fromId ? { ...s, studentId: toId } : s));
+  attempts = attempts
+    .filter(a => a.studentId !== fromId || !takenByTarget.has(a.quizId))
+    .map(a => (a.studentId === fromId ? { ...a, studentId: toId } : a));
+  groups = groups.map(g =>
+    g.studentIds.includes(fromId)
+      ? { ...g, studentIds: Array.from(new Set(g.studentIds.map(id => (id === fromId ? toId : id)))) }
+      : g,
+  );
+  endSessionsOf(fromId);
+  return { moved: incoming.length - dropped, dropped };
+};
+
+const newId = (prefix: string) => `${prefix}-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+const studentLanguage = (studentId: string) => users.find(u => u.id === studentId)?.language || DEFAULT_LANGUAGE;
+
+const toStudentQuestion = ({ id, type, text, options }: Question): StudentQuestion => ({ id, type, text, options });
+
+// Published quizzes pin question versions; drafts always use the latest bank copy.
+const resolveQuestion = (id: string, version?: number) => {
+  const current = questions.find(q => q.id === id);
+  if (version === undefined || current?.version === version) return current;
+  return questionArchive.find(q => q.id === id && q.version === version);
+};
+
+const getQuizQuestionList = (quiz: Quiz) =>
+  quiz.questionIds
+    .map(id => resolveQuestion(id, quiz.questionVersions?.[id]))
+    .filter((q): q is Question => !!q);
+
+// Keep a copy of a question version before it is edited or deleted if a quiz still points at it.
+const archiveIfPinned = (question: Question) => {
+  const pinned = quizzes.some(z => z.questionVersions?.[question.id] === question.version);
+  const archived = questionArchive.some(q => q.id === question.id && q.version === question.version);
+  if (pinned && !archived) questionArchive = [...questionArchive, question];
+};
+
+const sanitizeQuestionInput = (input: QuestionInput): QuestionInput => {
+  const errors = validateQuestion(input);
+  if (errors.length > 0) throw new Error(errors.join('. '));
+  const missing = questionImageIds(input).filter(id => !images.some(i => i.id === id));
+  if (missing.length > 0) throw new Error(`Question uses images that are not in the bank: ${missing.join(', ')}`);
+  const pruned = pruneAnswerKey(input);
+  return {
+    ...pruned,
+    text: input.text.trim(),
+    subject: input.subject.trim(),
+    options: pruned.options?.map(o => ({ id: o.id.trim(), text: o.text.trim() })),
+    tags: normalizeTags(input.tags),
+    explanation: input.explanation?.trim() || undefined,
+  };
+};
+
+// The order (and option order) one student sees. Seeded, so it is stable across reloads.
+// Ordering questions are always shuffled: their stored order is the answer.
+const withStudentOptionOrder = (quiz: Quiz, question: Question, studentId: string): Question =>
+  quiz.shuffleOptions || question.type === QuestionType.ORDERING
+    ? { ...question, options: question.options && seededShuffle(question.options, `${quiz.id}:${studentId}:${question.id}`) }
+    : question;
+
+const getStudentQuestionList = (quiz: Quiz, studentId: string) => {
+  let list = getQuizQuestionList(quiz);
+  if (quiz.shuffleQuestions) list = seededShuffle(list, `${quiz.id}:${studentId}`);
+  return list.map(q => withStudentOptionOrder(quiz, q, studentId));
+};
+
+const quizStatusAt = (quiz: Quiz, now: number): QuizStatus => {
+  if (quiz.status === QuizStatus.DRAFT || quiz.status === QuizStatus.CLOSED) return quiz.status;
+  if (quiz.closesAt !== undefined && now >= quiz.closesAt) return QuizStatus.CLOSED;
+  if (quiz.opensAt !== undefined && now < quiz.opensAt) return QuizStatus.SCHEDULED;
+  return QuizStatus.OPEN;
+};
+
+// The server clock: moves quizzes through SCHEDULED -> OPEN -> CLOSED and tells clients.
+const refreshQuizStatuses = () => {
+  const now = Date.now();
+  quizzes.forEach(quiz => {
+    const next = quizStatusAt(quiz, now);
+    if (next === quiz.status) return;
+    quiz.status = next;
+    persist();
+    if (next === QuizStatus.OPEN) {
+      quiz.publishedAt = now;
+      emit({ type: 'QUIZ_PUBLISHED', data: quiz.id, audience: quizAudience(quiz) });
+    }
+    if (next === QuizStatus.CLOSED) {
+      emit({ type: 'QUIZ_CLOSED', data: quiz.id });
+    }
+  });
+};
+
+
+const getOpenQuiz = (quizId: string) => {
+  refreshQuizStatuses();
+  const quiz = quizzes.find(q => q.id === quizId);
+  if (!quiz || quiz.status !== QuizStatus.OPEN) {
+    throw new Error('Quiz is not open');
+  }
+  return quiz;
+};
+
+const attemptDeadline = (attempt: Attempt, quiz: Quiz) =>
+  quiz.closesAt !== undefined ? Math.min(attempt.deadline, quiz.closesAt) : attempt.deadline;
+
+// What the client sees: the deadline already capped by the quiz's close.
+const toClientAttempt = (attempt: Attempt, quiz: Quiz): Attempt => ({
+  ...attempt,
+  deadline: attemptDeadline(attempt, quiz),
+});
+
+// The student's running attempt, or an error once it is submitted or its time (plus grace) is up.
+const getRunningAttempt = (quizId: string, studentId: string, graceMs = 0) => {
+  refreshQuizStatuses();
+  const quiz = quizzes.find(q => q.id === quizId);
+  const attempt = attempts.find(a => a.quizId === quizId && a.studentId === studentId);
+  if (!quiz || !attempt) throw new Error('Quiz has not been started');
+  if (attempt.submittedAt) throw new Error('You have already submitted this quiz');
+  if (Date.now() > attemptDeadline(attempt, quiz) + graceMs) throw new Error('Time is up for this quiz');
+  return { quiz, attempt };
+};
+
+// A student with extra time earns the time bonus against their own, longer question clock.
+const attemptScoring = (quiz: Quiz, attempt: Pick<Attempt, 'accommodations'> = {}): Quiz => ({
+  ...quiz,
+  secondsPerQuestion: questionSeconds(quiz, attempt),
+});
+
+// What a dispute turns on: who, which answers, and the grade they earned.
+const submittedSummary = ({ studentId, answers, score, maxScore, percent, passed }: Submission) => ({
+  studentId,
+  answers,
+  score,
+  maxScore,
+  percent,
+  passed,
+});
+
+const recordSubmission = (
+  quiz: Quiz,
+  studentId: string,
+  answers: Answer[],
+  scoring: Quiz,
+  by: AuditActor,
+  integrityEvents: IntegrityEvent[] = [],
+): Submission => {
+  const grade = gradeAnswers(getQuizQuestionList(quiz), answers, scoring);
+  const submission: Submission = {
+    quizId: quiz.id,
+    studentId,
+    answers,
+    score: grade.score,
+    maxScore: grade.maxScore,
+    percent: grade.percent,
+    passed: grade.passed,
+    totalQuestions: grade.totalQuestions,
+    submittedAt: Date.now(),
+    results: grade.results,
+    integrityEvents,
+  };
+  submissions.push(submission);
+  audit('QUIZ_SUBMITTED', { target: quiz.id, after: submittedSummary(submission) }, by);
+  return submission;
+};
+
+// The client's copy of an answer that may not have reached the server before the
+// submit: only for the question the attempt is on, and only while its timer runs,
+// as answerQuestion would have taken it. Earlier questions closed when the attempt
+// moved past them.
+const lateCurrentAnswer = (quiz: Quiz, attempt: Attempt, clientAnswers: Answer[]): Answer[] => {
+  const question = getStudentQuestionList(quiz, attempt.studentId)[attempt.currentIndex];
+  const answer = question && clientAnswers.find(a => a.questionId === question.id);
+  if (!answer || attempt.answers.some(a => a.questionId === question.id)) return [];
+  if (!isValidAnswerValue(question, answer.value)) return [];
+  if (Date.now() > attempt.questionStartedAt + questionSeconds(quiz, attempt) * 1000 + ANSWER_GRACE_MS) return [];
+  // Timing is only trusted when the server took it
+  return [{ questionId: answer.questionId, value: answer.value }];
+};
+
+// Grades an attempt and records the submission from the answers the server saved,
+// plus at most the client's answer to the question still open.
+const finalizeAttempt = (quiz: Quiz, attempt: Attempt, clientAnswers: Answer[] = []): GradeResult => {
+  const answers = [...attempt.answers, ...lateCurrentAnswer(quiz, attempt, clientAnswers)];
+  const by = attempt.autoSubmitted ? SYSTEM : sessionActor();
+  const submission = recordSubmission(quiz, attempt.studentId, answers, attemptScoring(quiz, attempt), by, [...attempt.integrityEvents]);
+  attempt.submittedAt = submission.submittedAt;
+  persist();
+  emit({ type: 'SUBMISSION_RECEIVED', data: { quizId: quiz.id, studentId: attempt.studentId } });
+  return gradeOf(submission);
+};
+
+// The answer key as the student reads it, in their language.
+const revealAnswer = (question: Question, studentId: string) => {
+  const language = studentLanguage(studentId);
+  return {
+    correctAnswer: formatCorrectAnswer(localizeQuestion(question, language), true, trueFalseOptions(createTranslator(language))),
+    correctOptionIds: correctOptionIds(question),
+  };
+};
+
+const gradeOf = ({ score, maxScore, percent, passed, totalQuestions, results }: Submission): GradeResult => ({
+  score,
+  maxScore,
+  percent,
+  passed,
+  totalQuestions,
+  results: results || [],
+});
+
+// An offline device caught up after the server had already submitted its attempt
+// at the deadline: add the answers it brought and grade again. `extra` holds only
+// answers given inside their question's window (see syncOfflineAttempt); nothing
+// for a question whose timer had closed.
+const regradeSubmission = (quiz: Quiz, submission: Submission, extra: Answer[]): GradeResult => {
+  const answers = [...submission.answers, ...extra];
+  const attempt = attempts.find(a => a.quizId === quiz.id && a.studentId === submission.studentId);
+  const grade = gradeAnswers(getQuizQuestionList(quiz), answers, attemptScoring(quiz, attempt));
+  const regraded = { ...submission, answers, ...grade };
+  submissions = submissions.map(s => (s === submission ? regraded : s));
+  persist();
+  audit('SUBMISSION_REGRADED', { target: quiz.id, before: submittedSummary(submission), after: submittedSummary(regraded) });
+  emit({ type: 'SUBMISSION_RECEIVED', data: { quizId: quiz.id, studentId: submission.studentId } });
+  return grade;
+};
+
+// Any call from the student's client doubles as a heartbeat for the live board.
+const touchAttempt = (attempt: Attempt) => {
+  attempt.lastSeenAt = Date.now();
+};
+
+const emitProgress = (attempt: Attempt) =>
+  emit({
+    type: 'ATTEMPT_PROGRESS',
+    data: { quizId: attempt.quizId, studentId: attempt.studentId, currentIndex: attempt.currentIndex },
+  });
+
+const proctorConnection = (attempt: Attempt, now: number): ProctorConnection => {
+  if (attempt.submittedAt) return 'SUBMITTED';
+  if (now - attempt.lastSeenAt > ATTEMPT_STALE_MS) return 'LOST';
+  return attempt.realtimeConnected ? 'CONNECTED' : 'RECONNECTING';
+};
+
+// Attempts whose client never came back are submitted with whatever was saved.
+const finalizeExpiredAttempts = () => {
+  const now = Date.now();
+  attempts.forEach(attempt => {
+    if (attempt.submittedAt) return;
+    const quiz = quizzes.find(q => q.id === attempt.quizId);
+    if (quiz && now > attemptDeadline(attempt, quiz) + SUBMISSION_GRACE_MS) {
+      attempt.autoSubmitted = true;
+      finalizeAttempt(quiz, attempt);
+    }
+  });
+};
+
+// --- Live quiz show ---
+
+const getLiveQuiz = (quiz: Quiz) => {
+  if (!quiz.live) throw new Error('This quiz is not a live show');
+  return quiz;
+};
+
+// The show for an open live quiz, set up (waiting for players) the first time anyone asks.
+const ensureLiveShow = (quiz: Quiz) => {
+  const existing = liveShows.find(s => s.quizId === quiz.id);
+  if (existing) return existing;
+  getOpenQuiz(getLiveQuiz(quiz).id);
+  const show: LiveShow = { quizId: quiz.id, phase: 'WAITING', index: -1, playerIds: [], answers: {} };
+  liveShows = [...liveShows, show];
+  return show;
+};
+
+const emitLiveUpdate = (show: LiveShow) => emit({ type: 'LIVE_SHOW_UPDATED', data: { quizId: show.quizId }, audience: [] });
+
+const closeLiveQuestion = (show: LiveShow) => {
+  show.phase = 'REVEAL';
+  emit({ type: 'QUESTION_CLOSED', data: { quizId: show.quizId, index: show.index }, audience: show.playerIds });
+};
+
+// Every player's answers become an ordinary submission, graded by the quiz's own
+// scoring, so the show counts towards progress and results like any other quiz.
+// Show points are only for the show's board.
+const finishLiveShow = (show: LiveShow, quiz: Quiz, by: AuditActor) => {
+  if (show.phase === 'QUESTION') closeLiveQuestion(show);
+  show.phase = 'ENDED';
+  show.playerIds
+    .filter(studentId => !submissions.some(s => s.quizId === quiz.id && s.studentId === studentId))
+    .forEach(studentId => {
+      const answers = Object.entries(show.answers)
+        .filter(([, byStudent]) => byStudent[studentId])
+        .map(([questionId, byStudent]) => {
+          const { value, timeTakenMs } = byStudent[studentId];
+          return { questionId, value, timeTakenMs };
+        });
+      recordSubmission(quiz, studentId, answers, quiz, by);
+      emit({ type: 'SUBMISSION_RECEIVED', data: { quizId: quiz.id, studentId } });
+    });
+  persist();
+  audit('LIVE_SHOW_ENDED', { target: quiz.id, after: { players: show.playerIds.length } }, by);
+  emit({ type: 'LIVE_SHOW_ENDED', data: { quizId: quiz.id }, audience: show.playerIds });
+};
+
+// The show clock: questions close when their countdown (plus grace) runs out, even
+// if the host's screen has gone, and a show ends if its quiz closes under it.
+const tickLiveShows = () => {
+  const now = Date.now();
+  liveShows.forEach(show => {
+    const quiz = quizzes.find(q => q.id === show.quizId);
+    if (!quiz || show.phase === 'ENDED') return;
+    if (quiz.status === QuizStatus.CLOSED) finishLiveShow(show, quiz, SYSTEM);
+    else if (show.phase === 'QUESTION' && now > show.questionEndsAt! + LIVE_ANSWER_GRACE_MS) closeLiveQuestion(show);
+  });
+};
+
+const liveQuestionAt = (quiz: Quiz, index: number): Question | undefined => getQuizQuestionList(quiz)[index];
+
+const hostView = (show: LiveShow, quiz: Quiz): LiveHostView => {
+  const question = liveQuestionAt(quiz, show.index);
+  const answers = (question && show.answers[question.id]) || {};
+  return {
+    quiz,
+    phase: show.phase,
+    index: show.index,
+    total: quiz.questionIds.length,
+    questionEndsAt: show.phase === 'QUESTION' ? show.questionEndsAt : undefined,
+    question,
+    players: show.playerIds.length,
+    answered: show.playerIds.filter(id => answers[id]).length,
+    distribution: question && show.phase !== 'QUESTION' ? liveDistribution(question, answers, show.playerIds) : undefined,
+    standings: liveStandings(show, id => users.find(u => u.id === id)?.name || id),
+  };
+};
+
+// Players see the question in their language and option order, and nothing about
+// anyone's answer until it closes. The board follows the leaderboard settings.
+const studentView = (show: LiveShow, quiz: Quiz, studentId: string): LiveStudentView => {
+  const keyed = liveQuestionAt(quiz, show.index);
+  const mine = keyed && show.answers[keyed.id]?.[studentId];
+  const revealed = show.phase === 'REVEAL' || show.phase === 'ENDED';
+  const rows: LiveStanding[] = liveStandings(show, id => users.find(u => u.id === id)?.name || id).map(({ studentId: id, ...row }) =>
+    id === studentId
+      ? { ...row, studentId: id, isYou: true }
+      : { ...row, name: settings.leaderboard.initialsOnly ? initials(row.name) : row.name },
+  );
+  const own = rows.find(r => r.isYou);
+  const top = rows.slice(0, LIVE_STANDINGS_SIZE);
+  const credit = keyed && revealed ? mine?.credit ?? 0 : undefined;
+  return {
+    quizId: quiz.id,
+    title: quiz.title,
+    phase: show.phase,
+    index: show.index,
+    total: quiz.questionIds.length,
+    questionEndsAt: show.phase === 'QUESTION' ? show.questionEndsAt : undefined,
+    question: keyed && show.phase !== 'ENDED'
+      ? toStudentQuestion(localizeQuestion(withStudentOptionOrder(quiz, keyed, studentId), studentLanguage(studentId)))
+      : undefined,
+    answer: mine?.value,
+    result: keyed && credit !== undefined && show.phase === 'REVEAL'
+      ? { isCorrect: credit === 1, credit, points: mine?.points ?? 0, ...revealAnswer(keyed, studentId) }
+      : undefined,
+    points: own?.points ?? 0,
+    rank: own?.rank,
+    players: show.playerIds.length,
+    standings: !settings.leaderboard.enabled ? [] : own && !top.includes(own) ? [...top, own] : top,
+  };
+};
+
+const getPlayerShow = (quizId: string, studentId: string) => {
+  tickLiveShows();
+  const show = liveShows.find(s => s.quizId === quizId);
+  const quiz = quizzes.find(q => q.id === quizId);
+  if (!show || !quiz || !show.playerIds.includes(studentId)) throw new Error('Join the show first');
+  return { show, quiz };
+};
+
+setInterval(() => {
+  refreshQuizStatuses();
+  finalizeExpiredAttempts();
+  tickLiveShows();
+}, 1000);
+
+export const MockBackend = {
+  // --- Auth ---
+
+  // The PIN is optional; a student who sets one needs it, as well as their code, to log in.
+  async registerStudent(name: string, age: number, village: string, pin?: string, language?: Language): Promise<User> {
+    await delay();
+    if (pin) {
+      const errors = validatePin(pin);
+      if (errors.length > 0) throw new Error(errors.join('. '));
+    }
+    if (language !== undefined && !isLanguage(language)) throw new Error('Unknown language');
+    const user: User = {
+      id: newStudentCode(),
+      name: name.trim(),
+      age,
+      village: village.trim(),
+      role: UserRole.STUDENT,
+      pin: pin ? await hashPin(pin) : undefined,
+      language: language === DEFAULT_LANGUAGE ? undefined : language,
+    };
+    users.push(user);
+    persist();
+    audit('STUDENT_REGISTERED', { target: user.id, after: toPublicStudent(user) }, { actor: user.id, actorRole: UserRole.STUDENT });
+    return toPublicStudent(user);
+  },
+
+  // Lets registration warn before creating a second code for the same child.
+  // Only says whether a match exists, never who it is.
+  async hasSimilarRegistration(name: string, age: number, village: string): Promise<boolean> {
+    await delay();
+    const key = registrationKey({ name, age, village });
+    return users.some(u => u.role === UserRole.STUDENT && registrationKey(u) === key);
+  },
+
+  async loginStudent(code: string, pin = ''): Promise<User> {
+    await delay();
+    const id = normalizeStudentCode(code.trim());
+    // A failed checksum is a typo, not a guess, so it doesn't count against the limit
+    if (!isWellFormedStudentCode(id)) throw new Error('That code has a typo. Check each character and try again.');
+    checkLoginAllowed(`student:${id}`);
+    const user = users.find(u => u.role === UserRole.STUDENT && u.id === id);
+    if (user?.pin && !crypto.subtle) throw new Error('PINs need a secure connection (https or localhost)');
+    const pinOk = !user?.pin || hashesMatch(await hashPassword(pin, user.pin.salt), user.pin.hash);
+    if (!user || !pinOk) {
+      recordLoginFailure(`student:${id}`);
+      throw new Error(user?.pin && !pin ? 'Enter your PIN as well as your code' : 'Invalid student code or PIN');
+    }
+    loginFailures.delete(`student:${id}`);
+    startSession(user);
+    transport.setPresence({ userId: user.id, role: user.role });
+    audit('STUDENT_LOGIN');
+    return toPublicStudent(user);
+  },
+
+  // The language the student's portal and quizzes are shown in from now on.
+  async setStudentLanguage(studentId: string, language: Language): Promise<User> {
+    await delay();
+    requireStudent(studentId);
+    if (!isLanguage(language)) throw new Error('Unknown language');
+    const student = getStudent(studentId);
+    const before = student.language || DEFAULT_LANGUAGE;
+    student.language = language === DEFAULT_LANGUAGE ? undefined : language;
+    persist();
+    audit('STUDENT_LANGUAGE_CHANGED', { target: student.id, before, after: language });
+    return toPublicStudent(student);
+  },
+
+  // Staff login. A user with mustChangePassword set has to call changePassword next.
+  async loginAdmin(username: string, password: string): Promise<User> {
+    await delay();
+    if (!crypto.subtle) throw new Error('Staff login needs a secure connection (https or localhost)');
+    await seedOwner();
+    const key = `staff:${username.trim().toLowerCase()}`;
+    checkLoginAllowed(key);
+    const account = admins.find(a => a.username === username.trim().toLowerCase());
+    // Hash even for unknown users, and give one message for every failure, so neither reveals which accounts exist
+    const hash = await hashPassword(password, account?.salt || 'unknown-user');
+    if (!account || account.disabled || !hashesMatch(hash, account.passwordHash)) {
+      recordLoginFailure(key);
+      throw new Error('Invalid username or password');
+    }
+    loginFailures.delete(key);
+    const user = toStaffUser(account);
+    startSession(user);
+    transport.setPresence({ userId: user.id, role: user.role });
+    audit('STAFF_LOGIN');
+    return user;
+  },
+
+  async changePassword(currentPassword: string, newPassword: string): Promise<User> {
+    await delay();
+    const session = currentSession();
+    const account = admins.find(a => a.username === session.userId);
+    if (!account) throw new Error(PERMISSION_DENIED);
+    if (!hashesMatch(await hashPassword(currentPassword, account.salt), account.passwordHash)) {
+      throw new Error('Current password is wrong');
+    }
+    const errors = validatePassword(newPassword, account.username);
+    if (newPassword === currentPassword) errors.push('The new password must be different');
+    if (errors.length > 0) throw new Error(errors.join('. '));
+    account.salt = randomToken(16);
+    account.passwordHash = await hashPassword(newPassword, account.salt);
+    account.mustChangePassword = false;
+    // Other devices still logged in with the old password are signed out
+    sessions = sessions.filter(s => s.userId !== account.username || s.token === session.token);
+    persist();
+    audit('PASSWORD_CHANGED', { target: account.username });
+    return toStaffUser(account);
+  },
+
+  async logout(): Promise<void> {
+    if (sessions.some(s => s.token === sessionToken)) audit('LOGOUT');
+    sessions = sessions.filter(s => s.token !== sessionToken);
+    sessionToken = null;
+    transport.setPresence(null);
+  },
+
+  // Called with the reason when a request finds this browser's session expired or revoked.
+  onSessionEnd(listener: (reason: string) => void) {
+    sessionEndListeners.add(listener);
+    return () => {
+      sessionEndListeners.delete(listener);
+    };
+  },
+
+  // --- Staff accounts (owner only) ---
+
+  async getAdminAccounts(): Promise<AdminSummary[]> {
+    await delay();
+    requireStaff(OWNERS);
+    return admins.map(toAdminSummary);
+  },
+
+  // New accounts start with a temporary password the person must change on first login.
+  async createAdminAccount(username: string, name: string, role: UserRole, temporaryPassword: string): Promise<AdminSummary> {
+    await delay();
+    requireStaff(OWNERS);
+    const id = username.trim().toLowerCase();
+    if (!USERNAME_PATTERN.test(id)) throw new Error('Usernames are 3-32 letters, digits, dots, dashes or underscores');
+    if (admins.some(a => a.username === id)) throw new Error('That username is taken');
+    if (!name.trim()) throw new Error('Name is required');
+    if (!STAFF_ROLES.includes(role)) throw new Error('Unknown staff role');
+    const errors = validatePassword(temporaryPassword, id);
+    if (errors.length > 0) throw new Error(errors.join('. '));
+    const account = await newAccount(id, name.trim(), role, temporaryPassword);
+    admins = [...admins, account];
+    persist();
+    audit('STAFF_ACCOUNT_CREATED', { target: id, after: toAdminSummary(account) });
+    return toAdminSummary(account);
+  },
+
+  // Disabling signs the account out everywhere. Owners can't disable themselves,
+  // so there is always an owner left.
+  async setAdminDisabled(username: string, disabled: boolean): Promise<AdminSummary> {
+    await delay();
+    const caller = requireStaff(OWNERS);
+    const account = admins.find(a => a.username === username);
+    if (!account) throw new Error('Account not found');
+    if (account.username === caller.username) throw new Error('You cannot disable your own account');
+    account.disabled = disabled;
+    if (disabled) endSessionsOf(account.username);
+    persist();
+    audit(disabled ? 'STAFF_ACCOUNT_DISABLED' : 'STAFF_ACCOUNT_ENABLED', { target: account.username });
+    return toAdminSummary(account);
+  },
+
+  async resetAdminPassword(username: string, temporaryPassword: string): Promise<AdminSummary> {
+    await delay();
+    const caller = requireStaff(OWNERS);
+    const account = admins.find(a => a.username === username);
+    if (!account) throw new Error('Account not found');
+    if (account.username === caller.username) throw new Error('Use "change password" for your own account');
+    const errors = validatePassword(temporaryPassword, account.username);
+    if (errors.length > 0) throw new Error(errors.join('. '));
+    account.salt = randomToken(16);
+    account.passwordHash = await hashPassword(temporaryPassword, account.salt);
+    account.mustChangePassword = true;
+    endSessionsOf(account.username);
+    persist();
+    audit('STAFF_PASSWORD_RESET', { target: account.username });
+    return toAdminSummary(account);
+  },
+
+  // --- Data ---
+
+  async getStudents(): Promise<User[]> {
+    await delay();
+    requireStaff();
+    return users.filter(u => u.role === UserRole.STUDENT).map(toPublicStudent);
+  },
+
+  // For a student who lost their code, or whose code was seen by someone else.
+  // The old code stops working at once; results move to the new one.
+  async regenerateStudentCode(studentId: string): Promise<User> {
+    await delay();
+    const student = getStudentFor(requireStaff(MANAGERS), studentId);
+    assertNotInQuiz(student);
+    const code = newStudentCode();
+    const before = student.id;
+    moveStudentRecords(student.id, code);
+    student.id = code;
+    persist();
+    audit('STUDENT_CODE_REGENERATED', { target: code, before: { id: before }, after: { id: code } });
+    return toPublicStudent(student);
+  },
+
+  // Sets, changes or (with null) removes a student's PIN.
+  async setStudentPin(studentId: string, pin: string | null): Promise<User> {
+    await delay();
+    const student = getStudentFor(requireStaff(MANAGERS), studentId);
+    if (pin !== null) {
+      const errors = validatePin(pin);
+      if (errors.length > 0) throw new Error(errors.join('. '));
+    }
+    const before = { hasPin: !!student.pin };
+    student.pin = pin === null ? undefined : await hashPin(pin);
+    endSessionsOf(student.id);
+    persist();
+    audit('STUDENT_PIN_CHANGED', { target: student.id, before, after: { hasPin: !!student.pin } });
+    return toPublicStudent(student);
+  },
+
+  // Extra time and runner behaviour for one student, from the next quiz they start.
+  async setStudentAccommodations(studentId: string, accommodations: Accommodations): Promise<User> {
+    await delay();
+    const student = getStudentFor(requireStaff(MANAGERS), studentId);
+    const errors = validateAccommodations(accommodations);
+    if (errors.length > 0) throw new Error(errors.join('. '));
+    const granted: Accommodations = {
+      ...(accommodations.timeMultiplier && accommodations.timeMultiplier !== 1 && { timeMultiplier: accommodations.timeMultiplier }),
+      ...(accommodations.noAutoAdvance && { noAutoAdvance: true }),
+    };
+    const before = student.accommodations;
+    student.accommodations = Object.keys(granted).length > 0 ? granted : undefined;
+    persist();
+    audit('STUDENT_ACCOMMODATIONS_CHANGED', { target: student.id, before: before || {}, after: granted });
+    return toPublicStudent(student);
+  },
+
+  // Folds a duplicate registration into the record being kept, then deletes it.
+  async mergeStudents(keepId: string, duplicateId: string): Promise<StudentMergeResult> {
+    await delay();
+    const account = requireStaff(MANAGERS);
+    if (keepId === duplicateId) throw new Error('Pick two different students to merge');
+    const kept = getStudentFor(account, keepId);
+    const duplicate = getStudentFor(account, duplicateId);
+    assertNotInQuiz(kept);
+    assertNotInQuiz(duplicate);
+    const { moved, dropped } = moveStudentRecords(duplicate.id, kept.id);
+    // Accommodations granted on the duplicate alone still apply to the child
+    kept.accommodations = kept.accommodations || duplicate.accommodations;
+    users = users.filter(u => u !== duplicate);
+    persist();
+    audit('STUDENTS_MERGED', {
+      target: kept.id,
+      before: { kept: toPublicStudent(kept), duplicate: toPublicStudent(duplicate) },
+      after: { movedSubmissions: moved, droppedSubmissions: dropped },
+    });
+    return { student: toPublicStudent(kept), movedSubmissions: moved, droppedSubmissions: dropped };
+  },
+
+  // --- Progress ---
+
+  // Everything the student has taken, how they do per tag, and their daily streak.
+  async getStudentHistory(studentId: string): Promise<StudentHistory> {
+    await delay();
+    requireStudent(studentId);
+    refreshQuizStatuses();
+    const mine = submissions.filter(s => s.studentId === studentId);
+    const tagged: { tags: string[]; credit: number }[] = [];
+    const entries = mine
+      .map(s => {
+        const quiz = quizzes.find(q => q.id === s.quizId);
+        const questionList = quiz ? getQuizQuestionList(quiz) : [];
+        // Timed-out questions have no answer and say nothing about the tag
+        s.results?.forEach(r => {
+          const question = questionList.find(q => q.id === r.questionId);
+          if (question && s.answers.some(a => a.questionId === r.questionId)) tagged.push({ tags: question.tags, credit: r.credit });
+        });
+        return {
+          quizId: s.quizId,
+          title: quiz?.title || 'Deleted quiz',
+          submittedAt: s.submittedAt,
+          score: s.score,
+          maxScore: s.maxScore,
+          percent: s.percent,
+          passed: s.passed,
+          reviewable: !!quiz?.reviewAfterClose && quiz.status === QuizStatus.CLOSED,
+        };
+      })
+      .sort((a, b) => b.submittedAt - a.submittedAt);
+
+    // Quiz days are the days the student's quizzes opened; a day counts as taken
+    // if they finished any quiz that opened that day
+    const theirQuizzes = quizzes.filter(q => q.publishedAt && isQuizForStudent(q, groups, studentId));
+    const takenDays = new Set(
+      theirQuizzes.filter(q => mine.some(s => s.quizId === q.id)).map(q => dayKey(q.publishedAt!)),
+    );
+    return {
+      entries,
+      tags: tagStats(tagged),
+      streak: computeStreak(theirQuizzes.map(q => dayKey(q.publishedAt!)), takenDays, dayKey(Date.now())),
+      groups: groups.filter(g => g.studentIds.includes(studentId)).map(({ id, name }) => ({ id, name })),
+      leaderboardEnabled: settings.leaderboard.enabled,
+    };
+  },
+
+  // The student's view: top of the board plus their own row. Other students'
+  // codes are never sent (they are login credentials); with initialsOnly, their
+  // names aren't either.
+  async getStudentLeaderboard(studentId: string, period: LeaderboardPeriod, groupId?: string): Promise<LeaderboardEntry[]> {
+    await delay();
+    requireStudent(studentId);
+    if (!settings.leaderboard.enabled) throw new Error('The leaderboard is turned off');
+    const group = groupId ? groups.find(g => g.id === groupId && g.studentIds.includes(studentId)) : undefined;
+    if (groupId && !group) throw new Error('Group not found');
+    const rows = leaderboardRows(period, id => !group || group.studentIds.includes(id)).map(({ studentId: id, ...row }) =>
+      id === studentId
+        ? { ...row, studentId: id, isYou: true }
+        : { ...row, name: settings.leaderboard.initialsOnly ? initials(row.name) : row.name },
+    );
+    const top = rows.slice(0, LEADERBOARD_SIZE);
+    const own = rows.find(r => r.isYou);
+    return own && !top.includes(own) ? [...top, own] : top;
+  },
+
+  // Staff see every row with names and codes.
+  async getLeaderboard(period: LeaderboardPeriod, groupId?: string): Promise<LeaderboardEntry[]> {
+    await delay();
+    const account = requireStaff();
+    return leaderboardRows(period, memberFilter(account, groupId));
+  },
+
+  async getSettings(): Promise<AppSettings> {
+    await delay();
+    requireStaff();
+    return settings;
+  },
+
+  async saveSettings(next: AppSettings): Promise<AppSettings> {
+    await delay();
+    requireStaff(OWNERS);
+    const before = settings;
+    settings = { leaderboard: { enabled: !!next.leaderboard.enabled, initialsOnly: !!next.leaderboard.initialsOnly } };
+    persist();
+    audit('SETTINGS_CHANGED', { before, after: settings });
+    return settings;
+  },
+
+  // --- Groups ---
+
+  async getGroups(): Promise<Group[]> {
+    await delay();
+    const account = requireStaff();
+    return groups.filter(g => canSeeGroup(account, g));
+  },
+
+  // Creates a group, or renames one when `id` is given.
+  async saveGroup(input: { id?: string; name: string; kind: GroupKind }): Promise<Group> {
+    await delay();
+    const account = requireStaff(MANAGERS);
+    const name = input.name.trim();
+    if (!name) throw new Error('Group name is required');
+    if (!Object.values(GroupKind).includes(input.kind)) throw new Error('Unknown group kind');
+    if (groups.some(g => g.id !== input.id && g.name.toLowerCase() === name.toLowerCase())) {
+      throw new Error(`There is already a group called ${name}`);
+    }
+    if (input.id) return updateGroup(getGroupFor(account, input.id), { name, kind: input.kind });
+    const group: Group = { id: newId('g'), name, kind: input.kind, studentIds: [], ownerId: account.username, createdAt: Date.now() };
+    groups = [...groups, group];
+    persist();
+    audit('GROUP_SAVED', { target: group.id, after: group });
+    return group;
+  },
+
+  // Drafts drop the group; quizzes still to run for it block the delete, since
+  // without it they would open to every student.
+  async deleteGroup(groupId: string): Promise<void> {
+    await delay();
+    const group = getGroupFor(requireStaff(MANAGERS), groupId);
+    refreshQuizStatuses();
+    const pending = quizzes.find(
+      q => (q.status === QuizStatus.OPEN || q.status === QuizStatus.SCHEDULED) && q.groupIds?.includes(groupId),
+    );
+    if (pending) throw new Error(`${group.name} is still assigned to "${pending.title}". Close that quiz first.`);
+    quizzes = quizzes.map(q => {
+      if (q.status !== QuizStatus.DRAFT || !q.groupIds?.includes(groupId)) return q;
+      const groupIds = q.groupIds.filter(id => id !== groupId);
+      return { ...q, groupIds: groupIds.length ? groupIds : undefined };
+    });
+    groups = groups.filter(g => g.id !== groupId);
+    persist();
+    audit('GROUP_DELETED', { target: groupId, before: group });
+  },
+
+  async addGroupMembers(groupId: string, studentIds: string[]): Promise<Group> {
+    await delay();
+    const group = getGroupFor(requireStaff(MANAGERS), groupId);
+    studentIds.forEach(getStudent);
+    return updateGroup(group, { studentIds: Array.from(new Set([...group.studentIds, ...studentIds])) });
+  },
+
+  async removeGroupMembers(groupId: string, studentIds: string[]): Promise<Group> {
+    await delay();
+    const group = getGroupFor(requireStaff(MANAGERS), groupId);
+    return updateGroup(group, { studentIds: group.studentIds.filter(id => !studentIds.includes(id)) });
+  },
+
+  // Bulk assignment by village and/or age range. Returns how many were newly added.
+  async assignGroupByCriteria(groupId: string, criteria: GroupCriteria): Promise<{ group: Group; added: number }> {
+    await delay();
+    const group = getGroupFor(requireStaff(MANAGERS), groupId);
+    const { village, minAge, maxAge } = criteria;
+    if (!village?.trim() && minAge === undefined && maxAge === undefined) throw new Error('Pick a village or an age range');
+    if (minAge !== undefined && maxAge !== undefined && minAge > maxAge) throw new Error('The minimum age is above the maximum');
+    const newIds = users
+      .filter(u => u.role === UserRole.STUDENT && matchesGroupCriteria(u, criteria) && !group.studentIds.includes(u.id))
+      .map(u => u.id);
+    return { group: updateGroup(group, { studentIds: [...group.studentIds, ...newIds] }), added: newIds.length };
+  },
+
+  // Owner and teachers only: includes the answer key.
+  async getQuestions(): Promise<Question[]> {
+    await delay();
+    requireStaff(MANAGERS);
+    return [...questions];
+  },
+
+  async createQuestion(input: QuestionInput): Promise<Question> {
+    await delay();
+    requireStaff(MANAGERS);
+    const question: Question = {
+      ...sanitizeQuestionInput(input),
+      id: newId('q'),
+      version: 1,
+      updatedAt: Date.now(),
+    };
+    questions = [...questions, question];
+    persist();
+    audit('QUESTION_CREATED', { target: question.id, after: question });
+    return question;
+  },
+
+  // Bulk add from the importer. Questions whose text is already in the bank
+  // (or earlier in the batch) are skipped; any invalid one fails the whole batch.
+  async importQuestions(inputs: QuestionInput[]): Promise<{ added: Question[]; skipped: number }> {
+    await delay();
+    requireStaff(MANAGERS);
+    const sanitized = inputs.map(sanitizeQuestionInput);
+    const seen = new Set(questions.map(q => questionKey(q.text)));
+    const now = Date.now();
+    const added: Question[] = [];
+    sanitized.forEach(input => {
+      const key = questionKey(input.text);
+      if (seen.has(key)) return;
+      seen.add(key);
+      added.push({ ...input, id: newId('q'), version: 1, updatedAt: now });
+    });
+    questions = [...questions, ...added];
+    persist();
+    audit('QUESTIONS_IMPORTED', { after: { questionIds: added.map(q => q.id), skipped: inputs.length - added.length } });
+    return { added, skipped: inputs.length - added.length };
+  },
+
+  // Published quizzes keep the version they were published with.
+  async updateQuestion(questionId: string, input: QuestionInput): Promise<Question> {
+    await delay();
+    requireStaff(MANAGERS);
+    const existing = questions.find(q => q.id === questionId);
+    if (!existing) throw new Error('Question not found');
+    archiveIfPinned(existing);
+    const updated: Question = {
+      ...sanitizeQuestionInput(input),
+      id: questionId,
+      version: existing.version + 1,
+      updatedAt: Date.now(),
+    };
+    questions = questions.map(q => (q.id === questionId ? updated : q));
+    persist();
+    audit('QUESTION_UPDATED', { target: questionId, before: existing, after: updated });
+    return updated;
+  },
+
+  async deleteQuestion(questionId: string): Promise<void> {
+    await delay();
+    requireStaff(MANAGERS);
+    const existing = questions.find(q => q.id === questionId);
+    if (!existing) throw new Error('Question not found');
+    archiveIfPinned(existing);
+    questions = questions.filter(q => q.id !== questionId);
+    persist();
+    audit('QUESTION_DELETED', { target: questionId, before: existing });
+  },
+
+  async duplicateQuestion(questionId: string): Promise<Question> {
+    await delay();
+    requireStaff(MANAGERS);
+    const existing = questions.find(q => q.id === questionId);
+    if (!existing) throw new Error('Question not found');
+    const copy: Question = {
+      ...existing,
+      id: newId('q'),
+      text: `${existing.text} (copy)`,
+      options: existing.options?.map(o => ({ ...o })),
+      tags: [...existing.tags],
+      version: 1,
+      updatedAt: Date.now(),
+    };
+    questions = [...questions, copy];
+    persist();
+    audit('QUESTION_CREATED', { target: copy.id, after: { ...copy, duplicateOf: questionId } });
+    return copy;
+  },
+
+  // Pictures are uploaded first, then referred to from question content.
+  async uploadImage(name: string, dataUrl: string): Promise<QuestionImage> {
+    await delay();
+    const account = requireStaff(MANAGERS);
+    const errors = validateImage(dataUrl);
+    if (errors.length > 0) throw new Error(errors.join('. '));
+    const image: QuestionImage = {
+      id: newId('img'),
+      name: name.trim() || 'image',
+      dataUrl,
+      uploadedBy: account.username,
+      uploadedAt: Date.now(),
+    };
+    images = [...images, image];
+    persist();
+    // The picture itself is in the bank; the log only needs to know it arrived
+    audit('IMAGE_UPLOADED', { target: image.id, after: { name: image.name } });
+    return image;
+  },
+
+  // Anyone logged in: students need the pictures in their questions and review.
+  async getImages(imageIds: string[]): Promise<QuestionImage[]> {
+    await delay(50);
+    currentSession();
+    return images.filter(i => imageIds.includes(i.id));
+  },
+
+  // Student-facing questions of a started quiz, in this student's order, with the answer key stripped.
+  async getQuizQuestions(quizId: string, studentId: string): Promise<StudentQuestion[]> {
+    await delay();
+    requireStudent(studentId);
+    const { quiz } = getRunningAttempt(quizId, studentId);
+    const language = studentLanguage(studentId);
+    return getStudentQuestionList(quiz, studentId).map(q => toStudentQuestion(localizeQuestion(q, language)));
+  },
+
+  // Random ids for the quiz builder's rules; the teacher can still reorder before saving.
+  async drawQuestions(rules: QuizDrawRule[]): Promise<string[]> {
+    await delay();
+    requireStaff(MANAGERS);
+    return drawQuestions(questions, rules);
+  },
+
+  // What a student can take now and what opens later. Several quizzes can be open at once.
+  async getStudentLobby(studentId: string): Promise<QuizLobby> {
+    await delay();
+    requireStudent(studentId);
+    refreshQuizStatuses();
+    const byOpening = (a: Quiz, b: Quiz) => (a.opensAt || a.publishedAt || 0) - (b.opensAt || b.publishedAt || 0);
+    const mine = quizzes.filter(q => isQuizForStudent(q, groups, studentId));
+    return {
+      open: mine.filter(q => q.status === QuizStatus.OPEN).sort(byOpening),
+      upcoming: mine.filter(q => q.status === QuizStatus.SCHEDULED).sort(byOpening),
+      completedQuizIds: submissions.filter(s => s.studentId === studentId).map(s => s.quizId),
+      reviewable: quizzes
+        .filter(q => q.status === QuizStatus.CLOSED && q.reviewAfterClose)
+        .filter(q => submissions.some(s => s.quizId === q.id && s.studentId === studentId))
+        .sort((a, b) => (b.closesAt || 0) - (a.closesAt || 0)),
+    };
+  },
+
+  async getQuizzes(): Promise<Quiz[]> {
+    await delay();
+    const account = requireStaff();
+    refreshQuizStatuses();
+    return quizzes.filter(q => canSeeQuiz(account, q));
+  },
+
+  // Starts the student's clock, or returns the attempt they already started.
+  async startQuiz(quizId: string, studentId: string): Promise<Attempt> {
+    await delay();
+    requireStudent(studentId);
+    const existing = attempts.find(a => a.quizId === quizId && a.studentId === studentId);
+    if (existing?.submittedAt || submissions.some(s => s.quizId === quizId && s.studentId === studentId)) {
+      throw new Error('You have already submitted this quiz');
+    }
+    if (existing) {
+      return toClientAttempt(existing, quizzes.find(q => q.id === quizId)!);
+    }
+    const quiz = getOpenQuiz(quizId);
+    if (!isQuizForStudent(quiz, groups, studentId)) throw new Error('This quiz is for another class');
+    if (quiz.live) throw new Error('This quiz is played live: join the show from the lobby');
+    const startedAt = Date.now();
+    // Extra time stretches the clock; the quiz's close still caps it
+    const accommodations = getStudent(studentId).accommodations;
+    const attempt: Attempt = {
+      quizId,
+      studentId,
+      startedAt,
+      deadline: startedAt + quiz.durationMinutes * 60 * 1000 * (accommodations?.timeMultiplier ?? 1),
+      ...(accommodations && { accommodations: { ...accommodations } }),
+      answers: [],
+      currentIndex: 0,
+      questionStartedAt: startedAt,
+      integrityEvents: [],
+      lastSeenAt: startedAt,
+      realtimeConnected: true,
+    };
+    attempts = [...attempts, attempt];
+    persist();
+    audit('QUIZ_STARTED', { target: quizId, after: { studentId, deadline: attempt.deadline, accommodations: attempt.accommodations } });
+    emitProgress(attempt);
+    return toClientAttempt(attempt, quiz);
+  },
+
+  // The attempt a student left mid-quiz (reload, crash, lost connection), if it still has time.
+  async getResumableAttempt(studentId: string): Promise<ResumableAttempt | null> {
+    await delay();
+    requireStudent(studentId);
+    refreshQuizStatuses();
+    const now = Date.now();
+    for (const attempt of attempts) {
+      if (attempt.studentId !== studentId || attempt.submittedAt) continue;
+      const quiz = quizzes.find(q => q.id === attempt.quizId);
+      if (quiz && now <= attemptDeadline(attempt, quiz)) return { quiz, attempt: toClientAttempt(attempt, quiz) };
+    }
+    return null;
+  },
+
+  // Moves to the next question (answered or timed out) and restarts its timer.
+  async advanceAttempt(quizId: string, studentId: string, toIndex: number): Promise<Attempt> {
+    await delay(100);
+    requireStudent(studentId);
+    const { quiz, attempt } = getRunningAttempt(quizId, studentId);
+    touchAttempt(attempt);
+    if (toIndex !== attempt.currentIndex) {
+      if (toIndex !== attempt.currentIndex + 1 || toIndex > quiz.questionIds.length) {
+        throw new Error('Questions must be taken in order');
+      }
+      attempt.currentIndex = toIndex;
+      attempt.questionStartedAt = Date.now();
+      persist();
+      emitProgress(attempt);
+    }
+    return toClientAttempt(attempt, quiz);
+  },
+
+  // Quizzes always start as drafts; publishQuiz makes them visible to students.
+  async createQuiz(quiz: Quiz): Promise<Quiz> {
+    await delay();
+    const account = requireStaff(MANAGERS);
+    if (quiz.status !== QuizStatus.DRAFT) throw new Error('New quizzes must be created as drafts');
+    if (!quiz.title.trim()) throw new Error('Quiz title is required');
+    if (quiz.questionIds.length === 0) throw new Error('A quiz needs at least one question');
+    if (new Set(quiz.questionIds).size !== quiz.questionIds.length) throw new Error('A question can only appear once per quiz');
+    const missing = quiz.questionIds.filter(id => !questions.some(q => q.id === id));
+    if (missing.length > 0) throw new Error(`Quiz references missing questions: ${missing.join(', ')}`);
+    if (quiz.durationMinutes <= 0 || quiz.secondsPerQuestion <= 0) throw new Error('Quiz timings must be positive');
+    if (quiz.opensAt !== undefined && quiz.closesAt !== undefined && quiz.closesAt <= quiz.opensAt) {
+      throw new Error('A quiz must close after it opens');
+    }
+    if (Object.values(quiz.points || {}).some(p => !(p > 0))) throw new Error('Question points must be positive');
+    const isShare = (value?: number) => value === undefined || (value >= 0 && value <= 100);
+    if (!isShare(quiz.negativeMarkPercent) || !isShare(quiz.timeBonusPercent) || !isShare(quiz.passPercent)) {
+      throw new Error('Negative marking, time bonus and pass mark must be between 0 and 100%');
+    }
+    (quiz.groupIds || []).forEach(id => getGroupFor(account, id));
+    const existing = quizzes.find(q => q.id === quiz.id);
+    if (existing && !canSeeQuiz(account, existing)) throw new Error(PERMISSION_DENIED);
+    if (existing && existing.status !== QuizStatus.DRAFT) throw new Error('Published quizzes cannot be replaced');
+    // Versions are pinned by publishQuiz alone, never taken from the client
+    const { questionVersions: _pinned, ...input } = quiz;
+    const saved = {
+      ...input,
+      title: quiz.title.trim(),
+      ownerId: existing?.ownerId ?? account.username,
+      groupIds: quiz.groupIds?.length ? Array.from(new Set(quiz.groupIds)) : undefined,
+    };
+    quizzes = [...quizzes.filter(q => q.id !== quiz.id), saved];
+    persist();
+    audit('QUIZ_SAVED', { target: saved.id, before: existing, after: saved });
+    return saved;
+  },
+
+  // Publishing schedules the quiz; it opens now or at opensAt.
+  async publishQuiz(quizId: string): Promise<Quiz> {
+    await delay();
+    const quiz = getQuizFor(requireStaff(MANAGERS), quizId);
+    if (quiz.status !== QuizStatus.DRAFT) throw new Error('Quiz is already published');
+    if (quiz.closesAt !== undefined && quiz.closesAt <= Date.now()) throw new Error('Quiz close time has already passed');
+    const before = { ...quiz };
+    // Questions can be deleted while the quiz is a draft
+    const missing = quiz.questionIds.filter(id => !questions.some(q => q.id === id));
+    if (missing.length > 0) throw new Error(`Quiz references missing questions: ${missing.join(', ')}`);
+    quiz.questionVersions = Object.fromEntries(
+      quiz.questionIds.map(id => [id, questions.find(q => q.id === id)!.version])
+    );
+    quiz.status = QuizStatus.SCHEDULED;
+    persist();
+    refreshQuizStatuses();
+    audit('QUIZ_PUBLISHED', { target: quizId, before, after: quiz });
+    return quiz;
+  },
+
+  // Ends the quiz early. Running attempts are cut off at the new close time.
+  async closeQuiz(quizId: string): Promise<Quiz> {
+    await delay();
+    const quiz = getQuizFor(requireStaff(MANAGERS), quizId);
+    if (quiz.status === QuizStatus.DRAFT || quiz.status === QuizStatus.CLOSED) throw new Error('Quiz is not published');
+    const before = { status: quiz.status, closesAt: quiz.closesAt };
+    quiz.closesAt = Date.now();
+    persist();
+    refreshQuizStatuses();
+    audit('QUIZ_CLOSED', { target: quizId, before, after: { status: quiz.status, closesAt: quiz.closesAt } });
+    return quiz;
+  },
+
+  // --- Grading ---
+
+  // Saves the answer to the current question and gives instant feedback, as much
+  // as the quiz's feedback policy allows.
+  async answerQuestion(
+    quizId: string,
+    studentId: string,
+    questionId: string,
+    value: AnswerValue,
+  ): Promise<AnswerCheck> {
+    await delay(100);
+    requireStudent(studentId);
+    const { quiz, attempt } = getRunningAttempt(quizId, studentId);
+    touchAttempt(attempt);
+    const question = getStudentQuestionList(quiz, studentId)[attempt.currentIndex];
+    if (!question || question.id !== questionId) throw new Error('This is not the current question');
+    if (attempt.answers.some(a => a.questionId === questionId)) throw new Error('This question has already been answered');
+    if (!isValidAnswerValue(question, value)) throw new Error('That answer does not fit this question');
+    const questionMs = questionSeconds(quiz, attempt) * 1000;
+    if (Date.now() > attempt.questionStartedAt + questionMs + ANSWER_GRACE_MS) {
+      throw new Error('Time is up for this question');
+    }
+    const timeTakenMs = Math.min(Date.now() - attempt.questionStartedAt, questionMs);
+    attempt.answers = [...attempt.answers, { questionId, value, timeTakenMs }];
+    persist();
+    emitProgress(attempt);
+
+    const policy = quiz.feedbackPolicy || FeedbackPolicy.SELECTION;
+    if (policy === FeedbackPolicy.NONE) return {};
+    // Graded against the quiz's copy: the student's may have its options shuffled
+    const keyed = getQuizQuestionList(quiz).find(q => q.id === questionId)!;
+    const credit = answerCredit(keyed, value);
+    if (policy === FeedbackPolicy.SELECTION) return { isCorrect: credit === 1, credit };
+    return { isCorrect: credit === 1, credit, ...revealAnswer(keyed, studentId) };
+  },
+
+  // The student's answers next to the answer key and explanations, once the quiz is
+  // closed so nobody still taking it can see them.
+  async getQuizReview(quizId: string, studentId: string): Promise<QuizReview> {
+    await delay();
+    requireStudent(studentId);
+    refreshQuizStatuses();
+    const quiz = quizzes.find(q => q.id === quizId);
+    if (!quiz) throw new Error('Quiz not found');
+    if (!quiz.reviewAfterClose) throw new Error('This quiz has no review');
+    if (quiz.status !== QuizStatus.CLOSED) throw new Error('The review opens when the quiz closes');
+    const submission = submissions.find(s => s.quizId === quizId && s.studentId === studentId);
+    if (!submission) throw new Error('You did not take this quiz');
+    const language = studentLanguage(studentId);
+    return {
+      quiz,
+      submission,
+      items: getQuizQuestionList(quiz).map(question => ({
+        question: localizeQuestion(question, language),
+        answer: submission.answers.find(a => a.questionId === question.id)?.value,
+        result: submission.results?.find(r => r.questionId === question.id),
+      })),
+    };
+  },
+
+  // Grades the attempt server-side. Any score sent by the client is ignored,
+  // and a second submission for the same attempt is rejected.
+  async submitQuiz(draft: SubmissionDraft): Promise<GradeResult> {
+    await delay();
+    requireStudent(draft.studentId);
+    const { quiz, attempt } = getRunningAttempt(draft.quizId, draft.studentId, SUBMISSION_GRACE_MS);
+    return finalizeAttempt(quiz, attempt, draft.answers);
+  },
+
+  // What a student's device queued while offline: answers, how far it got, and
+  // maybe the submit. Times are checked as given, not as they arrive: each answer
+  // against its own question's window, in the order the questions are served.
+  // Answers the server already has win.
+  async syncOfflineAttempt(batch: OfflineBatch): Promise<OfflineSyncResult> {
+    await delay();
+    requireStudent(batch.studentId);
+    refreshQuizStatuses();
+    const now = Date.now();
+    const quiz = quizzes.find(q => q.id === batch.quizId);
+    const attempt = attempts.find(a => a.quizId === batch.quizId && a.studentId === batch.studentId);
+    const submission = submissions.find(s => s.quizId === batch.quizId && s.studentId === batch.studentId);
+    const refuse = (refused: string): OfflineSyncResult => ({
+      quizId: batch.quizId,
+      accepted: 0,
+      late: 0,
+      refused,
+      ...(submission ? { grade: gradeOf(submission) } : {}),
+    });
+    if (!quiz || !attempt) return refuse('Quiz has not been started');
+    if (submission && !attempt.autoSubmitted) return refuse('You have already submitted this quiz');
+    const deadline = attemptDeadline(attempt, quiz);
+    if (now > deadline + OFFLINE_SYNC_WINDOW_MS) return refuse('It is too late to send answers for this quiz');
+    // Once the answer key is showing, late answers can't be trusted
+    if (quiz.reviewAfterClose && quiz.status === QuizStatus.CLOSED) return refuse('The answer review for this quiz is already open');
+
+    // Device clocks are often off. Shift its times by how far off it was when sending.
+    const clockOffset = now - batch.sentAt;
+    const questionList = getStudentQuestionList(quiz, batch.studentId);
+    const recorded = new Set((submission || attempt).answers.map(a => a.questionId));
+    const questionMs = questionSeconds(quiz, attempt) * 1000;
+    // The server last saw the attempt start question `currentIndex`. Each later
+    // question opened no earlier than the answer before it and no later than the
+    // previous timer running out; questions before it closed while online.
+    const latestStartOf = (index: number) => attempt.questionStartedAt + (index - attempt.currentIndex) * questionMs;
+    let earliestStart = attempt.questionStartedAt;
+    const accepted: Answer[] = [];
+    let late = 0;
+    questionList.forEach((question, index) => {
+      const a = batch.answers.find(x => x.questionId === question.id);
+      if (!a || recorded.has(a.questionId) || index > batch.currentIndex || !isValidAnswerValue(question, a.value)) return;
+      const answeredAt = a.answeredAt + clockOffset;
+      const closesAt = Math.min(latestStartOf(index) + questionMs, deadline) + ANSWER_GRACE_MS;
+      if (index < attempt.currentIndex || a.answeredAt > batch.sentAt || answeredAt < earliestStart || answeredAt > closesAt) {
+        late++;
+        return;
+      }
+      earliestStart = answeredAt;
+      recorded.add(a.questionId);
+      // Timing is only trusted when the server took it, so no time bonus
+      accepted.push({ questionId: a.questionId, value: a.value });
+    });
+
+    let grade: GradeResult | undefined;
+    if (submission) {
+      grade = accepted.length > 0 ? regradeSubmission(quiz, submission, accepted) : gradeOf(submission);
+    } else {
+      touchAttempt(attempt);
+      attempt.answers = [...attempt.answers, ...accepted];
+      const toIndex = Math.min(batch.currentIndex, questionList.length);
+      if (toIndex > attempt.currentIndex) {
+        // Its timer has been running since it opened offline, at the latest
+        attempt.questionStartedAt = Math.min(now, latestStartOf(toIndex));
+        attempt.currentIndex = toIndex;
+      }
+      if (batch.submittedAt !== undefined) {
+        grade = finalizeAttempt(quiz, attempt);
+      } else {
+        persist();
+        emitProgress(attempt);
+      }
+    }
+    return { quizId: quiz.id, accepted: accepted.length, late, grade };
+  },
+
+  async getSubmissions(quizId: string): Promise<Submission[]> {
+    await delay();
+    getQuizFor(requireStaff(), quizId);
+    return submissions.filter(s => s.quizId === quizId);
+  },
+
+  // Score distribution and item analysis against the question versions the quiz was taken with.
+  // With a group, only its members' attempts and submissions count.
+  async getQuizAnalytics(quizId: string, groupId?: string): Promise<QuizAnalytics> {
+    await delay();
+    const account = requireStaff(MANAGERS);
+    const quiz = getQuizFor(account, quizId);
+    const inGroup = memberFilter(account, groupId);
+    const started = attempts.filter(a => a.quizId === quizId && inGroup(a.studentId)).length;
+    return analyzeQuiz(
+      quizId,
+      getQuizQuestionList(quiz),
+      submissions.filter(s => s.quizId === quizId && inGroup(s.studentId)),
+      started,
+    );
+  },
+
+  // --- Live quiz show ---
+
+  // The host's screen. Opening it sets the show up; players can join from then on.
+  async getLiveShow(quizId: string): Promise<LiveHostView> {
+    await delay();
+    const quiz = getLiveQuiz(getQuizFor(requireStaff(MANAGERS), quizId));
+    refreshQuizStatuses();
+    tickLiveShows();
+    return hostView(ensureLiveShow(quiz), quiz);
+  },
+
+  // Moves everyone on to the next question and starts its countdown.
+  async startLiveQuestion(quizId: string): Promise<LiveHostView> {
+    await delay();
+    const quiz = getLiveQuiz(getQuizFor(requireStaff(MANAGERS), quizId));
+    getOpenQuiz(quizId);
+    tickLiveShows();
+    const show = ensureLiveShow(quiz);
+    if (show.phase === 'QUESTION') throw new Error('Close the current question first');
+    if (show.phase === 'ENDED') throw new Error('The show has ended');
+    if (show.index + 1 >= quiz.questionIds.length) throw new Error('That was the last question');
+    const now = Date.now();
+    show.phase = 'QUESTION';
+    show.index += 1;
+    show.questionStartedAt = now;
+    show.questionEndsAt = now + quiz.secondsPerQuestion * 1000;
+    emit({
+      type: 'QUESTION_STARTED',
+      data: { quizId, index: show.index, total: quiz.questionIds.length, endsAt: show.questionEndsAt },
+      audience: show.playerIds,
+    });
+    return hostView(show, quiz);
+  },
+
+  // Stops answers early (everyone has answered, say) and shows the results.
+  async closeLiveQuestion(quizId: string): Promise<LiveHostView> {
+    await delay();
+    const quiz = getLiveQuiz(getQuizFor(requireStaff(MANAGERS), quizId));
+    tickLiveShows();
+    const show = ensureLiveShow(quiz);
+    if (show.phase === 'QUESTION') closeLiveQuestion(show);
+    return hostView(show, quiz);
+  },
+
+  // Ends the show: records everyone's submission and closes the quiz.
+  async endLiveShow(quizId: string): Promise<LiveHostView> {
+    await delay();
+    const quiz = getLiveQuiz(getQuizFor(requireStaff(MANAGERS), quizId));
+    tickLiveShows();
+    const show = ensureLiveShow(quiz);
+    if (show.phase === 'ENDED') throw new Error('The show has ended');
+    finishLiveShow(show, quiz, sessionActor());
+    quiz.closesAt = Date.now();
+    persist();
+    refreshQuizStatuses();
+    return hostView(show, quiz);
+  },
+
+  // Players can join at any point; questions before they joined count as unanswered.
+  async joinLiveShow(quizId: string, studentId: string): Promise<LiveStudentView> {
+    await delay();
+    requireStudent(studentId);
+    const quiz = getLiveQuiz(getOpenQuiz(quizId));
+    if (!isQuizForStudent(quiz, groups, studentId)) throw new Error('This quiz is for another class');
+    if (submissions.some(s => s.quizId === quizId && s.studentId === studentId)) {
+      throw new Error('You have already submitted this quiz');
+    }
+    tickLiveShows();
+    const show = ensureLiveShow(quiz);
+    if (!show.playerIds.includes(studentId)) {
+      show.playerIds = [...show.playerIds, studentId];
+      emitLiveUpdate(show);
+    }
+    return studentView(show, quiz, studentId);
+  },
+
+  // The player's screen, fetched again on every show event.
+  async getLiveShowForStudent(quizId: string, studentId: string): Promise<LiveStudentView> {
+    await delay(100);
+    requireStudent(studentId);
+    const { show, quiz } = getPlayerShow(quizId, studentId);
+    return studentView(show, quiz, studentId);
+  },
+
+  // One answer per question. Whether it was right stays hidden until the question closes.
+  async answerLiveQuestion(quizId: string, studentId: string, questionId: string, value: AnswerValue): Promise<LiveStudentView> {
+    await delay(100);
+    requireStudent(studentId);
+    const { show, quiz } = getPlayerShow(quizId, studentId);
+    const question = liveQuestionAt(quiz, show.index);
+    if (show.phase !== 'QUESTION' || !question) throw new Error('Time is up for this question');
+    if (question.id !== questionId) throw new Error('This is not the current question');
+    if (show.answers[questionId]?.[studentId]) throw new Error('This question has already been answered');
+    if (!isValidAnswerValue(question, value)) throw new Error('That answer does not fit this question');
+    const limitMs = quiz.secondsPerQuestion * 1000;
+    const timeTakenMs = Math.min(Date.now() - show.questionStartedAt!, limitMs);
+    const credit = answerCredit(question, value);
+    show.answers[questionId] = {
+      ...show.answers[questionId],
+      [studentId]: { value, timeTakenMs, credit, points: livePoints(credit, timeTakenMs, limitMs) },
+    };
+    emitLiveUpdate(show);
+    return studentView(show, quiz, studentId);
+  },
+
+  // --- Proctoring ---
+
+  // Logs an integrity signal from the student runner and pushes it to the live board.
+  async reportIntegrityEvent(quizId: string, studentId: string, kind: IntegrityEventKind, detail?: string): Promise<void> {
+    await delay(100);
+    requireStudent(studentId);
+    const { attempt } = getRunningAttempt(quizId, studentId, SUBMISSION_GRACE_MS);
+    touchAttempt(attempt);
+    const event = { kind, at: Date.now(), questionIndex: attempt.currentIndex, ...(detail ? { detail } : {}) };
+    attempt.integrityEvents = [...attempt.integrityEvents, event];
+    persist();
+    emit({ type: 'INTEGRITY_EVENT', data: { quizId, studentId, event } });
+  },
+
+  // Sent every ATTEMPT_HEARTBEAT_MS while the runner is on screen. Not persisted:
+  // a restarted server should see everyone as lost until they check in again.
+  async pingAttempt(quizId: string, studentId: string, realtimeConnected: boolean): Promise<void> {
+    await delay(100);
+    requireStudent(studentId);
+    const { attempt } = getRunningAttempt(quizId, studentId, SUBMISSION_GRACE_MS);
+    touchAttempt(attempt);
+    attempt.realtimeConnected = realtimeConnected;
+  },
+
+  // Everyone who started the quiz, submitted or not, with their integrity log.
+  async getLiveBoard(quizId: string): Promise<LiveAttempt[]> {
+    await delay();
+    refreshQuizStatuses();
+    const quiz = getQuizFor(requireStaff(), quizId);
+    const now = Date.now();
+    return attempts
+      .filter(a => a.quizId === quizId)
+      .map(a => ({
+        studentId: a.studentId,
+        studentName: users.find(u => u.id === a.studentId)?.name || a.studentId,
+        currentIndex: a.currentIndex,
+        totalQuestions: quiz.questionIds.length,
+        answered: a.answers.length,
+        deadline: attemptDeadline(a, quiz),
+        lastSeenAt: a.lastSeenAt,
+        connection: proctorConnection(a, now),
+        integrityEvents: [...a.integrityEvents],
+      }))
+      .sort((a, b) => a.studentId.localeCompare(b.studentId));
+  },
+
+  // Every student the quiz was for (plus anyone who took it), for exports and
+  // printed reports. With a group, only its members.
+  async getQuizResults(quizId: string, groupId?: string): Promise<QuizResults> {
+    await delay();
+    const account = requireStaff(MANAGERS);
+    const quiz = getQuizFor(account, quizId);
+    const inGroup = memberFilter(account, groupId);
+    const tookIt = (studentId: string) => attempts.some(a => a.quizId === quizId && a.studentId === studentId);
+    return {
+      quiz,
+      questions: getQuizQuestionList(quiz),
+      rows: users
+        .filter(u => u.role === UserRole.STUDENT && inGroup(u.id))
+        .filter(u => isQuizForStudent(quiz, groups, u.id) || tookIt(u.id))
+        .map(student => ({
+          student: toPublicStudent(student),
+          startedAt: attempts.find(a => a.quizId === quizId && a.studentId === student.id)?.startedAt,
+          submission: submissions.find(s => s.quizId === quizId && s.studentId === student.id),
+        })),
+    };
+  },
+
+  // --- Storage ---
+
+  // Owner only: a backup holds every staff password hash and student PIN hash.
+  async exportBackup(): Promise<BackupFile> {
+    await delay();
+    requireStaff(OWNERS);
+    audit('BACKUP_EXPORTED');
+    return createBackup(snapshot());
+  },
+
+  // Replaces all data with the backup's. Older backups are migrated; newer ones are refused.
+  async restoreBackup(json: string): Promise<StoredState> {
+    await delay();
+    requireStaff(OWNERS);
+    const state = readBackup(json);
+    // The audit log is this server's own record, so a backup can't replace it
+    const log = auditLog;
+    applyState(state);
+    auditLog = log;
+    refreshQuizStatuses();
+    persist();
+    audit('BACKUP_RESTORED', {
+      after: { students: users.length, questions: questions.length, quizzes: quizzes.length, submissions: submissions.length },
+    });
+    return state;
+  },
+
+  // Swap the storage backend (e.g. a MemoryStorageAdapter seeded with a saved state) and reload from it.
+  async useStorage(adapter: StorageAdapter): Promise<void> {
+    requireStaff(OWNERS);
+    await saveQueue;
+    storage = adapter;
+    hydrated = hydrate();
+    await hydrated;
+  },
+
+  // --- Audit log ---
+
+  // Owner only: the log holds every account's activity. The chain is checked in
+  // full on every call, whatever the filter.
+  async getAuditLog(filter: AuditFilter = {}): Promise<AuditLogView> {
+    await delay();
+    requireStaff(OWNERS);
+    return {
+      entries: auditLog.filter(e => matchesAuditFilter(e, filter)).reverse(),
+      total: auditLog.length,
+      check: verifyAuditLog(auditLog),
+    };
+  },
+
+  // --- Realtime ---
+
+  subscribeToEvents(listener: (event: BackendEvent) => void) {
+    return transport.subscribe(listener);
+  },
+
+  getConnectionStatus() {
+    return transport.getStatus();
+  },
+
+  onConnectionStatusChange(listener: (status: ConnectionStatus) => void) {
+    return transport.onStatusChange(listener);
+  },
+};
@@ -0,0 +1,111 @@
+import { AnswerValue, OfflineBatch, OfflineSyncResult } from '../types';
+
+// The student device's outbox: answers and submits made while it had no
+// connection. It is kept in localStorage, apart from the server's data, so a
+// reload or a flat battery doesn't lose them.
+
+export type QueuedAttempt = Omit<OfflineBatch, 'sentAt'>;
+
+const OUTBOX_KEY = 'quizmaster-pro/outbox';
+
+let memoryOutbox: QueuedAttempt[] = []; // When the browser offers no storage
+const listeners = new Set<() => void>();
+
+const read = (): QueuedAttempt[] => {
+  if (typeof localStorage === 'undefined') return memoryOutbox;
+  try {
+    return JSON.parse(localStorage.getItem(OUTBOX_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const write = (outbox: QueuedAttempt[]) => {
+  if (typeof localStorage === 'undefined') memoryOutbox = outbox;
+  else if (outbox.length === 0) localStorage.removeItem(OUTBOX_KEY);
+  else localStorage.setItem(OUTBOX_KEY, JSON.stringify(outbox));
+  listeners.forEach(l => l());
+};
+
+const update = (quizId: string, studentId: string, change: (entry: QueuedAttempt) => void) => {
+  const outbox = read();
+  let entry = outbox.find(e => e.quizId === quizId && e.studentId === studentId);
+  if (!entry) {
+    entry = { quizId, studentId, answers: [], currentIndex: 0 };
+    outbox.push(entry);
+  }
+  change(entry);
+  write(outbox);
+};
+
+// Whether this device has a network at all. Requests to the server fail without one.
+export const isDeviceOnline = () => typeof navigator === 'undefined' || navigator.onLine !== false;
+
+export const onDeviceOnlineChange = (listener: (online: boolean) => void) => {
+  const onChange = () => listener(isDeviceOnline());
+  window.addEventListener('online', onChange);
+  window.addEventListener('offline', onChange);
+  return () => {
+    window.removeEventListener('online', onChange);
+    window.removeEventListener('offline', onChange);
+  };
+};
+
+export const onOutboxChange = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const queuedAttempts = (studentId: string) => read().filter(e => e.studentId === studentId);
+
+// The answer keeps the time it was given, which the server checks against the deadline.
+export const queueAnswer = (quizId: string, studentId: string, questionId: string, value: AnswerValue) =>
+  update(quizId, studentId, entry => {
+    if (entry.answers.some(a => a.questionId === questionId)) return;
+    entry.answers.push({ questionId, value, answeredAt: Date.now() });
+  });
+
+export const queueAdvance = (quizId: string, studentId: string, toIndex: number) =>
+  update(quizId, studentId, entry => {
+    entry.currentIndex = Math.max(entry.currentIndex, toIndex);
+  });
+
+export const queueSubmit = (quizId: string, studentId: string) =>
+  update(quizId, studentId, entry => {
+    entry.submittedAt ??= Date.now();
+  });
+
+// Drops what the server now has. Answers queued while the batch was on its way stay.
+const markSent = (batch: OfflineBatch) =>
+  write(read().flatMap(entry => {
+    if (entry.quizId !== batch.quizId || entry.studentId !== batch.studentId) return [entry];
+    const answers = entry.answers.filter(a => !batch.answers.some(b => b.questionId === a.questionId));
+    const submittedAt = batch.submittedAt === undefined ? entry.submittedAt : undefined;
+    return answers.length > 0 || submittedAt !== undefined ? [{ ...entry, answers, submittedAt }] : [];
+  }));
+
+let syncing: Promise<OfflineSyncResult[]> | null = null;
+
+// Sends the student's queued attempts, one batch each. If a request fails (the
+// connection dropped again, or the session ended), the rest stay queued for the
+// next call. Overlapping calls share one run.
+export const syncOutbox = (studentId: string, send: (batch: OfflineBatch) => Promise<OfflineSyncResult>) => {
+  syncing ??= (async () => {
+    const results: OfflineSyncResult[] = [];
+    for (const entry of queuedAttempts(studentId)) {
+      const batch: OfflineBatch = { ...entry, sentAt: Date.now() };
+      try {
+        results.push(await send(batch));
+      } catch {
+        break;
+      }
+      markSent(batch);
+    }
+    return results;
+  })().finally(() => {
+    syncing = null;
+  });
+  return syncing;
+};
@@ -0,0 +1,68 @@
+import { IntegrityEventKind } from '../types';
+
+export const ATTEMPT_HEARTBEAT_MS = 10 * 1000;
+// No heartbeat for this long and the student shows as lost on the live board
+export const ATTEMPT_STALE_MS = 30 * 1000;
+// No keyboard, mouse or touch input for this long counts as an idle gap
+export const IDLE_THRESHOLD_MS = 45 * 1000;
+
+export const INTEGRITY_LABELS: Record<IntegrityEventKind, string> = {
+  TAB_HIDDEN: 'Left the tab',
+  WINDOW_BLUR: 'Window lost focus',
+  FULLSCREEN_EXIT: 'Exited fullscreen',
+  COPY: 'Copy attempt',
+  PASTE: 'Paste attempt',
+  IDLE: 'Idle',
+};
+
+const INPUT_EVENTS = ['keydown', 'mousemove', 'mousedown', 'touchstart', 'wheel'];
+
+// Watches the page for the signals proctoring cares about and hands each one
+// to `report`. Returns a function that stops watching.
+export const watchIntegrity = (report: (kind: IntegrityEventKind, detail?: string) => void) => {
+  let lastInputAt = Date.now();
+  let idleReported = false;
+  let wasFullscreen = !!document.fullscreenElement;
+
+  const onVisibility = () => {
+    if (document.visibilityState === 'hidden') report('TAB_HIDDEN');
+  };
+  // Switching tabs blurs the window too; only count focus lost while the page is still visible
+  const onBlur = () => {
+    if (document.visibilityState === 'visible') report('WINDOW_BLUR');
+  };
+  const onFullscreen = () => {
+    if (wasFullscreen && !document.fullscreenElement) report('FULLSCREEN_EXIT');
+    wasFullscreen = !!document.fullscreenElement;
+  };
+  const onCopy = () => report('COPY');
+  const onPaste = () => report('PASTE');
+  const onInput = () => {
+    lastInputAt = Date.now();
+    idleReported = false;
+  };
+  const idleCheck = setInterval(() => {
+    const idleFor = Date.now() - lastInputAt;
+    if (!idleReported && idleFor >= IDLE_THRESHOLD_MS) {
+      idleReported = true;
+      report('IDLE', `No input for ${Math.round(idleFor / 1000)}s`);
+    }
+  }, 5000);
+
+  document.addEventListener('visibilitychange', onVisibility);
+  document.addEventListener('fullscreenchange', onFullscreen);
+  document.addEventListener('copy', onCopy);
+  document.addEventListener('paste', onPaste);
+  window.addEventListener('blur', onBlur);
+  INPUT_EVENTS.forEach(type => window.addEventListener(type, onInput, { passive: true }));
+
+  return () => {
+    clearInterval(idleCheck);
+    document.removeEventListener('visibilitychange', onVisibility);
+    document.removeEventListener('fullscreenchange', onFullscreen);
+    document.removeEventListener('copy', onCopy);
+    document.removeEventListener('paste', onPaste);
+    window.removeEventListener('blur', onBlur);
+    INPUT_EVENTS.forEach(type => window.removeEventListener(type, onInput));
+  };
+};
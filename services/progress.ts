@@ -0,0 +1,118 @@
+import { roundPoints } from './scoring';
+
+// A student's own record over time, and the leaderboards built from everyone's.
+
+export type LeaderboardPeriod = 'DAY' | 'WEEK' | 'ALL';
+
+export const PERIOD_LABELS: Record<LeaderboardPeriod, string> = {
+  DAY: 'Today',
+  WEEK: 'This week',
+  ALL: 'All time',
+};
+
+export interface HistoryEntry {
+  quizId: string;
+  title: string;
+  submittedAt: number;
+  score: number;
+  maxScore: number;
+  percent: number;
+  passed?: boolean;
+  reviewable: boolean; // The answer review is open for this quiz
+}
+
+export interface TagStat {
+  tag: string;
+  answered: number; // Questions with this tag across all quizzes taken
+  percent: number; // Average credit on them, 0..100
+}
+
+export interface Streak {
+  current: number; // Consecutive quiz days taken, up to the latest
+  best: number;
+  takenToday: boolean;
+}
+
+export interface StudentHistory {
+  entries: HistoryEntry[]; // Newest first
+  tags: TagStat[]; // Strongest first
+  streak: Streak;
+  groups: { id: string; name: string }[]; // For the student's group leaderboards
+  leaderboardEnabled: boolean;
+}
+
+export interface LeaderboardEntry {
+  rank: number; // Ties share a rank: 1, 1, 3
+  studentId?: string; // Left out when students see initials only
+  name: string; // Full name, or initials like "A. L."
+  points: number;
+  quizzes: number;
+  isYou?: boolean;
+}
+
+// Students' leaderboards show this many rows, plus their own if they are further down.
+export const LEADERBOARD_SIZE = 10;
+
+// Local calendar day, e.g. "2026-03-07", so a streak follows the school day.
+export const dayKey = (at: number) => {
+  const d = new Date(at);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+// Start of today, or of this week (weeks start on Monday).
+export const periodStart = (period: LeaderboardPeriod, now: number) => {
+  if (period === 'ALL') return 0;
+  const d = new Date(now);
+  d.setHours(0, 0, 0, 0);
+  if (period === 'WEEK') d.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+  return d.getTime();
+};
+
+// A streak counts quiz days, not calendar days: a weekend with no quiz doesn't
+// break it, a quiz day the student skipped does. Today only counts once taken,
+// so an untaken quiz today doesn't end the streak yet.
+export const computeStreak = (quizDays: string[], takenDays: Set<string>, today: string): Streak => {
+  const days = Array.from(new Set(quizDays)).filter(d => d <= today).sort();
+  let best = 0;
+  let run = 0;
+  days.forEach(day => {
+    run = takenDays.has(day) ? run + 1 : 0;
+    best = Math.max(best, run);
+  });
+  let current = 0;
+  for (const day of [...days].reverse()) {
+    if (day === today && !takenDays.has(day)) continue;
+    if (!takenDays.has(day)) break;
+    current++;
+  }
+  return { current, best, takenToday: takenDays.has(today) };
+};
+
+export const tagStats = (answers: { tags: string[]; credit: number }[]): TagStat[] => {
+  const totals = new Map<string, { answered: number; credit: number }>();
+  answers.forEach(({ tags, credit }) =>
+    tags.forEach(tag => {
+      const t = totals.get(tag) || { answered: 0, credit: 0 };
+      totals.set(tag, { answered: t.answered + 1, credit: t.credit + credit });
+    }),
+  );
+  return Array.from(totals.entries())
+    .map(([tag, t]) => ({ tag, answered: t.answered, percent: Math.round((t.credit / t.answered) * 1000) / 10 }))
+    .sort((a, b) => b.percent - a.percent || b.answered - a.answered);
+};
+
+// "Amy Lee" -> "A. L."
+export const initials = (name: string) =>
+  name
+    .trim()
+    .split(/\s+/)
+    .map(part => `${part[0]?.toUpperCase() ?? ''}.`)
+    .join(' ');
+
+// Most points first; equal points share a rank.
+export const rankLeaderboard = <T extends { name: string; points: number }>(rows: T[]): (T & { rank: number })[] => {
+  const sorted = rows
+    .map(row => ({ ...row, points: roundPoints(row.points) }))
+    .sort((a, b) => b.points - a.points || a.name.localeCompare(b.name));
+  return sorted.map(row => ({ ...row, rank: sorted.findIndex(r => r.points === row.points) + 1 }));
+};
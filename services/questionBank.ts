@@ -0,0 +1,133 @@
+import { Difficulty, Language, Question, QuestionInput, QuestionTranslation, QuestionType } from '../types';
+import { DEFAULT_LANGUAGE, LANGUAGES, missingTranslations } from './i18n';
+import { usesOptions } from './questionTypes';
+
+export interface QuestionFilter {
+  search?: string;
+  type?: QuestionType;
+  subject?: string;
+  difficulty?: Difficulty;
+  gradeLevel?: number;
+  tag?: string;
+  missingLanguage?: Language; // Only questions not fully translated into it
+}
+
+// Returns human-readable problems; an empty list means the question is valid.
+export const validateQuestion = (input: QuestionInput): string[] => {
+  const errors: string[] = [];
+  const options = input.options || [];
+  const ids = options.map(o => o.id);
+
+  if (!Object.values(QuestionType).includes(input.type)) errors.push('Unknown question type');
+  if (!input.text.trim()) errors.push('Question text is required');
+  if (!input.subject.trim()) errors.push('Subject is required');
+
+  if (usesOptions(input.type)) {
+    if (options.length < 2) errors.push('At least two options are required');
+    if (options.some(o => !o.id.trim() || !o.text.trim())) errors.push('Every option needs an id and text');
+    if (new Set(ids).size !== ids.length) errors.push('Option ids must be unique');
+  }
+
+  switch (input.type) {
+    case QuestionType.SINGLE_CHOICE:
+      if (!input.correctAnswer) errors.push('A correct answer is required');
+      else if (!ids.includes(input.correctAnswer)) errors.push('Correct answer must be one of the options');
+      break;
+    case QuestionType.MULTI_SELECT:
+      if (!input.correctAnswers?.length) errors.push('Pick at least one correct option');
+      else if (input.correctAnswers.some(id => !ids.includes(id))) errors.push('Correct answers must be among the options');
+      break;
+    case QuestionType.TRUE_FALSE:
+      if (input.correctAnswer !== 'true' && input.correctAnswer !== 'false') errors.push('Correct answer must be true or false');
+      break;
+    case QuestionType.NUMERIC:
+      if (input.numericAnswer === undefined || !Number.isFinite(input.numericAnswer)) errors.push('A numeric answer is required');
+      if (input.tolerance !== undefined && !(input.tolerance >= 0)) errors.push('Tolerance must be zero or more');
+      break;
+    case QuestionType.SHORT_TEXT:
+      if (!(input.acceptedAnswers || []).some(a => a.trim())) errors.push('At least one accepted answer is required');
+      break;
+  }
+
+  for (const [language, translation] of Object.entries(input.translations || {})) {
+    if (!LANGUAGES.includes(language as Language) || language === DEFAULT_LANGUAGE) errors.push(`Unknown translation language "${language}"`);
+    else if (Object.keys(translation?.options || {}).some(id => !ids.includes(id))) {
+      errors.push(`The ${language} translation names options the question doesn't have`);
+    }
+  }
+
+  if (input.gradeLevel !== undefined && (!Number.isInteger(input.gradeLevel) || input.gradeLevel <= 0)) {
+    errors.push('Grade level must be a positive whole number');
+  }
+  return errors;
+};
+
+// Drops answer-key fields the question's type doesn't use, e.g. options left over
+// after an editor switched a question to numeric.
+export const pruneAnswerKey = (input: QuestionInput): QuestionInput => {
+  const { options, correctAnswer, correctAnswers, numericAnswer, tolerance, acceptedAnswers, caseSensitive, translations, ...rest } =
+    input;
+  const base = { ...rest, correctAnswer: '', translations: pruneTranslations(input) };
+  switch (input.type) {
+    case QuestionType.SINGLE_CHOICE:
+      return { ...base, options, correctAnswer };
+    case QuestionType.MULTI_SELECT:
+      return { ...base, options, correctAnswers };
+    case QuestionType.ORDERING:
+      return { ...base, options };
+    case QuestionType.TRUE_FALSE:
+      return { ...base, correctAnswer };
+    case QuestionType.NUMERIC:
+      return { ...base, numericAnswer, tolerance: tolerance || 0 };
+    case QuestionType.SHORT_TEXT:
+      return { ...base, acceptedAnswers: (acceptedAnswers || []).map(a => a.trim()).filter(Boolean), caseSensitive: !!caseSensitive };
+    default:
+      return input;
+  }
+};
+
+// Keeps only what a translation can show for this question: blank fields, options
+// it no longer has and accepted answers for other types go, then empty translations.
+const pruneTranslations = (input: QuestionInput) => {
+  const optionIds = usesOptions(input.type) ? (input.options || []).map(o => o.id) : [];
+  const pruned: Partial<Record<Language, QuestionTranslation>> = {};
+  for (const language of LANGUAGES) {
+    const translation = input.translations?.[language];
+    if (!translation || language === DEFAULT_LANGUAGE) continue;
+    const options = Object.fromEntries(
+      optionIds.flatMap(id => (translation.options?.[id]?.trim() ? [[id, translation.options[id].trim()]] : []))
+    );
+    const acceptedAnswers =
+      input.type === QuestionType.SHORT_TEXT ? (translation.acceptedAnswers || []).map(a => a.trim()).filter(Boolean) : [];
+    const entry: QuestionTranslation = {
+      text: translation.text.trim(),
+      ...(Object.keys(options).length > 0 && { options }),
+      ...(translation.explanation?.trim() && { explanation: translation.explanation.trim() }),
+      ...(acceptedAnswers.length > 0 && { acceptedAnswers }),
+    };
+    if (entry.text || entry.options || entry.explanation || entry.acceptedAnswers) pruned[language] = entry;
+  }
+  return Object.keys(pruned).length > 0 ? pruned : undefined;
+};
+
+export const normalizeTags = (tags: string[]) =>
+  Array.from(new Set(tags.map(t => t.trim().toLowerCase()).filter(Boolean)));
+
+export const matchesQuestionFilter = (question: Question, filter: QuestionFilter) => {
+  if (filter.type && question.type !== filter.type) return false;
+  if (filter.subject && question.subject !== filter.subject) return false;
+  if (filter.difficulty && question.difficulty !== filter.difficulty) return false;
+  if (filter.gradeLevel !== undefined && question.gradeLevel !== filter.gradeLevel) return false;
+  if (filter.tag && !question.tags.includes(filter.tag.toLowerCase())) return false;
+  if (filter.missingLanguage && !missingTranslations(question).includes(filter.missingLanguage)) return false;
+
+  const search = filter.search?.trim().toLowerCase();
+  if (search) {
+    const translated = Object.values(question.translations || {}).flatMap(t => [t?.text || '', ...Object.values(t?.options || {})]);
+    const haystack = [question.text, ...(question.options || []).map(o => o.text), ...translated, ...question.tags]
+      .join(' ')
+      .toLowerCase();
+    if (!haystack.includes(search)) return false;
+  }
+  return true;
+};
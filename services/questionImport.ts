@@ -0,0 +1,417 @@
+import { Difficulty, Option, QuestionInput, QuestionType } from '../types';
+import { validateQuestion } from './questionBank';
+import { usesOptions } from './questionTypes';
+
+export type ImportFormat = 'CSV' | 'GIFT' | 'MOODLE_XML';
+
+// Fills in what the source file doesn't say (GIFT and Moodle have no difficulty).
+export interface ImportDefaults {
+  subject: string;
+  difficulty: Difficulty;
+}
+
+// One parsed question, ready for the preview. Only rows with no errors and
+// no duplicate get added to the bank.
+export interface ImportRow {
+  source: string; // "Row 4", "Question 2"... for pointing the teacher at the right spot
+  input: QuestionInput | null; // null when the row couldn't be parsed at all
+  errors: string[];
+  duplicate: boolean;
+}
+
+const letterId = (index: number) => String.fromCharCode(97 + index);
+
+// Same text up to case and spacing counts as the same question.
+export const questionKey = (text: string) => text.trim().replace(/\s+/g, ' ').toLowerCase();
+
+export const detectFormat = (filename: string, text: string): ImportFormat => {
+  const name = filename.toLowerCase();
+  if (name.endsWith('.xml') || text.trimStart().startsWith('<')) return 'MOODLE_XML';
+  if (name.endsWith('.gift') || name.endsWith('.txt')) return 'GIFT';
+  return 'CSV';
+};
+
+const parseDifficulty = (value: string | undefined): Difficulty | undefined => {
+  const upper = value?.trim().toUpperCase();
+  return Object.values(Difficulty).find(d => d === upper);
+};
+
+const parseTrueFalse = (value: string) => {
+  const v = value.trim().toLowerCase();
+  return ['t', 'true', 'yes'].includes(v) ? 'true' : ['f', 'false', 'no'].includes(v) ? 'false' : '';
+};
+
+// Lists of answers or option ids inside one cell: "a;c" or "colour|color".
+const splitList = (value: string) => value.split(/[;|]/).map(v => v.trim()).filter(Boolean);
+
+const rowFor = (source: string, input: QuestionInput | null, errors: string[] = []): ImportRow => ({
+  source,
+  input,
+  errors: input ? [...errors, ...validateQuestion(input)] : errors,
+  duplicate: false,
+});
+
+// Keeps the text for the preview; the type error is the only one worth showing.
+const unsupportedRow = (source: string, text: string, type: string, defaults: ImportDefaults): ImportRow => ({
+  source,
+  input: {
+    type: QuestionType.SINGLE_CHOICE,
+    text,
+    options: [],
+    correctAnswer: '',
+    subject: defaults.subject,
+    difficulty: defaults.difficulty,
+    tags: [],
+  },
+  errors: [`Unsupported question type: ${type}`],
+  duplicate: false,
+});
+
+// --- CSV ---
+
+// RFC 4180: quoted fields may hold commas, doubled quotes and line breaks.
+export const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') quoted = false;
+      else field += c;
+    } else if (c === '"') quoted = true;
+    else if (c === ',') {
+      row.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else field += c;
+  }
+  if (field || row.length > 0) rows.push([...row, field]);
+  return rows.filter(r => r.some(cell => cell.trim()));
+};
+
+const CSV_TYPES: Record<string, QuestionType> = {
+  single: QuestionType.SINGLE_CHOICE,
+  singlechoice: QuestionType.SINGLE_CHOICE,
+  multichoice: QuestionType.SINGLE_CHOICE,
+  mcq: QuestionType.SINGLE_CHOICE,
+  multi: QuestionType.MULTI_SELECT,
+  multiselect: QuestionType.MULTI_SELECT,
+  truefalse: QuestionType.TRUE_FALSE,
+  tf: QuestionType.TRUE_FALSE,
+  numeric: QuestionType.NUMERIC,
+  numerical: QuestionType.NUMERIC,
+  short: QuestionType.SHORT_TEXT,
+  shortanswer: QuestionType.SHORT_TEXT,
+  shorttext: QuestionType.SHORT_TEXT,
+  ordering: QuestionType.ORDERING,
+  order: QuestionType.ORDERING,
+};
+
+// Header names are matched loosely: "Question"/"text", "Option A"/"option_a", "Correct"/"answer"...
+// Options come either from one column per option or from an "options" column like "a=Paris|b=Rome".
+// The "type" column (single choice when empty) decides how "correct" is read: an option id,
+// option ids "a;c", true/false, a number (with a "tolerance" column) or accepted answers "colour;color".
+// Ordering questions list their options in the correct order and need no "correct".
+export const parseCsv = (text: string, defaults: ImportDefaults): ImportRow[] => {
+  const [header, ...body] = parseCsvRows(text);
+  if (!header) return [];
+  const columns = header.map(h => h.trim().toLowerCase().replace(/[\s_-]+/g, ''));
+  const column = (...names: string[]) => columns.findIndex(c => names.includes(c));
+  const textCol = column('question', 'text', 'questiontext');
+  const correctCol = column('correct', 'correctanswer', 'answer');
+  const optionsCol = column('options');
+  const subjectCol = column('subject');
+  const difficultyCol = column('difficulty');
+  const gradeCol = column('grade', 'gradelevel');
+  const tagsCol = column('tags');
+  const typeCol = column('type');
+  const toleranceCol = column('tolerance');
+  const explanationCol = column('explanation', 'feedback');
+  const optionCols = columns
+    .map((c, i) => ({ match: /^option([a-z])$/.exec(c), i }))
+    .filter(x => x.match)
+    .map(x => ({ id: x.match![1], index: x.i }));
+
+  if (textCol < 0) return [rowFor('Header', null, ['CSV needs a "question" column'])];
+
+  return body.map((cells, i) => {
+    const cell = (index: number) => (index >= 0 ? (cells[index] || '').trim() : '');
+    const typeName = cell(typeCol).toLowerCase().replace(/[\s_/-]+/g, '');
+    const type = typeName ? CSV_TYPES[typeName] : QuestionType.SINGLE_CHOICE;
+    if (!type) return unsupportedRow(`Row ${i + 2}`, cell(textCol), cell(typeCol), defaults);
+    const errors: string[] = [];
+    const correct = cell(correctCol);
+
+    let options: Option[];
+    if (optionsCol >= 0 && cell(optionsCol)) {
+      options = cell(optionsCol)
+        .split('|')
+        .map((part, j) => {
+          const [id, ...rest] = part.split('=');
+          return rest.length > 0 ? { id: id.trim().toLowerCase(), text: rest.join('=').trim() } : { id: letterId(j), text: part.trim() };
+        });
+    } else {
+      options = optionCols.filter(o => cell(o.index)).map(o => ({ id: o.id, text: cell(o.index) }));
+    }
+
+    const grade = cell(gradeCol);
+    const difficulty = cell(difficultyCol);
+    if (difficulty && !parseDifficulty(difficulty)) errors.push(`Unknown difficulty "${difficulty}"`);
+
+    const tolerance = cell(toleranceCol);
+    return rowFor(
+      `Row ${i + 2}`,
+      {
+        type,
+        text: cell(textCol),
+        options: usesOptions(type) ? options : undefined,
+        correctAnswer:
+          type === QuestionType.SINGLE_CHOICE ? correct.toLowerCase() :
+          type === QuestionType.TRUE_FALSE ? parseTrueFalse(correct) :
+          '',
+        correctAnswers: type === QuestionType.MULTI_SELECT ? splitList(correct.toLowerCase()) : undefined,
+        numericAnswer: type === QuestionType.NUMERIC && correct ? Number(correct) : undefined,
+        tolerance: type === QuestionType.NUMERIC && tolerance ? Number(tolerance) : undefined,
+        acceptedAnswers: type === QuestionType.SHORT_TEXT ? splitList(correct) : undefined,
+        subject: cell(subjectCol) || defaults.subject,
+        difficulty: parseDifficulty(difficulty) || defaults.difficulty,
+        gradeLevel: grade ? Number(grade) : undefined,
+        tags: cell(tagsCol).split(/[;,]/).map(t => t.trim()).filter(Boolean),
+        explanation: cell(explanationCol) || undefined,
+      },
+      errors,
+    );
+  });
+};
+
+// --- GIFT ---
+
+// Splits on a GIFT control character that isn't escaped with a backslash.
+const splitUnescaped = (text: string, pattern: RegExp) => {
+  const parts: { marker: string; text: string }[] = [];
+  let current = { marker: '', text: '' };
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\\' && i + 1 < text.length) {
+      current.text += text[i] + text[i + 1];
+      i++;
+    } else if (pattern.test(text[i])) {
+      parts.push(current);
+      current = { marker: text[i], text: '' };
+    } else current.text += text[i];
+  }
+  parts.push(current);
+  return parts;
+};
+
+const unescapeGift = (text: string) => text.replace(/\\([~=#{}:\\n])/g, (_, c) => (c === 'n' ? '\n' : c)).trim();
+
+// Drops answer feedback ("#...") and Moodle's optional text format marker ("[html]").
+const giftText = (text: string) => unescapeGift(splitUnescaped(text, /#/)[0].text.replace(/^\s*\[\w+\]/, ''));
+
+// GIFT numeric answers: "3.14:0.01" (value and tolerance) or "1..5" (range).
+const parseGiftNumber = (text: string) => {
+  const range = /^(-?[\d.]+)\.\.(-?[\d.]+)$/.exec(text);
+  if (range) {
+    const [min, max] = [Number(range[1]), Number(range[2])];
+    return { numericAnswer: (min + max) / 2, tolerance: Math.abs(max - min) / 2 };
+  }
+  const [value, tolerance] = text.split(':');
+  return { numericAnswer: value.trim() ? Number(value) : undefined, tolerance: tolerance ? Number(tolerance) : 0 };
+};
+
+const GIFT_WEIGHT = /^\s*%(-?[\d.]+)%/;
+
+// "::Title:: Question text { =right ~wrong ~wrong }" and the other GIFT types we have:
+// true/false {T}, numeric {#3.14:0.01}, short answer { =one =two }, and multiple
+// answers with weights { ~%50%right ~%50%right ~%-100%wrong }.
+// "$CATEGORY: Maths" lines set the subject for the questions after them, and
+// general feedback ("####...") at the end of the answers becomes the explanation.
+export const parseGift = (text: string, defaults: ImportDefaults): ImportRow[] => {
+  const rows: ImportRow[] = [];
+  let subject = defaults.subject;
+  const blocks = text
+    .split(/\r?\n/)
+    .filter(line => !line.trim().startsWith('//'))
+    .join('\n')
+    .split(/\n\s*\n/)
+    .map(b => b.trim())
+    .filter(Boolean);
+
+  blocks.forEach(block => {
+    const category = /^\$CATEGORY:\s*(.+)$/m.exec(block);
+    if (category) {
+      subject = category[1].split('/').pop()!.trim() || defaults.subject;
+      block = block.replace(category[0], '').trim();
+      if (!block) return;
+    }
+    const source = `Question ${rows.length + 1}`;
+    const parts = splitUnescaped(block, /[{}]/);
+    if (parts.length < 3) {
+      rows.push(rowFor(source, null, ['No answer block { ... } found']));
+      return;
+    }
+    const questionText = giftText((parts[0].text + ' ' + (parts[2]?.text || '')).replace(/^::.*?::/s, ''));
+    const [answerPart, ...feedback] = parts[1].text.split('####');
+    const answerBlock = answerPart.trim();
+    const explanation = unescapeGift(feedback.join('####')) || undefined;
+
+    const answers = splitUnescaped(answerBlock, /[=~]/).filter(p => p.marker);
+    const base = { text: questionText, subject, difficulty: defaults.difficulty, tags: [], correctAnswer: '', explanation };
+
+    if (!answerBlock || answers.some(a => a.text.includes('->'))) {
+      const unsupported = !answerBlock ? 'essay' : 'matching';
+      rows.push(unsupportedRow(source, questionText, unsupported, { subject, difficulty: defaults.difficulty }));
+      return;
+    }
+    if (/^(T|F|TRUE|FALSE)\b/i.test(answerBlock)) {
+      const correctAnswer = parseTrueFalse(giftText(answerBlock));
+      rows.push(rowFor(source, { ...base, type: QuestionType.TRUE_FALSE, correctAnswer }));
+      return;
+    }
+    if (answerBlock.startsWith('#')) {
+      rows.push(rowFor(source, { ...base, type: QuestionType.NUMERIC, ...parseGiftNumber(giftText(answerBlock.slice(1))) }));
+      return;
+    }
+    if (answers.every(a => a.marker === '=')) {
+      const acceptedAnswers = answers.map(a => giftText(a.text.replace(GIFT_WEIGHT, '')));
+      rows.push(rowFor(source, { ...base, type: QuestionType.SHORT_TEXT, acceptedAnswers }));
+      return;
+    }
+
+    const options = answers.map((a, j) => ({ id: letterId(j), text: giftText(a.text.replace(GIFT_WEIGHT, '')) }));
+    const weights = answers.map(a => Number(GIFT_WEIGHT.exec(a.text)?.[1] ?? (a.marker === '=' ? 100 : 0)));
+    if (answers.some(a => GIFT_WEIGHT.test(a.text))) {
+      // Weighted answers: every option with positive weight is one of the right picks
+      const correctAnswers = options.filter((_, j) => weights[j] > 0).map(o => o.id);
+      rows.push(rowFor(source, { ...base, type: QuestionType.MULTI_SELECT, options, correctAnswers }));
+      return;
+    }
+    const errors: string[] = [];
+    const correct = answers.filter(a => a.marker === '=');
+    if (correct.length > 1) errors.push('Only one correct answer is supported; use weights for multiple answers');
+    rows.push(
+      rowFor(
+        source,
+        {
+          ...base,
+          type: QuestionType.SINGLE_CHOICE,
+          options,
+          correctAnswer: correct.length > 0 ? options[answers.indexOf(correct[0])].id : '',
+        },
+        errors,
+      ),
+    );
+  });
+  return rows;
+};
+
+// --- Moodle XML ---
+
+// Question text is HTML; the bank stores plain text.
+const htmlToText = (html: string) =>
+  new DOMParser().parseFromString(html, 'text/html').body.textContent?.replace(/\s+/g, ' ').trim() || '';
+
+const childText = (el: Element, selector: string) => el.querySelector(selector)?.textContent?.trim() || '';
+
+export const parseMoodleXml = (text: string, defaults: ImportDefaults): ImportRow[] => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.querySelector('parsererror')) return [rowFor('File', null, ['File is not valid XML'])];
+
+  const rows: ImportRow[] = [];
+  let subject = defaults.subject;
+  Array.from(doc.querySelectorAll('quiz > question')).forEach(el => {
+    const type = el.getAttribute('type') || '';
+    if (type === 'category') {
+      // "$course$/top/Maths" -> "Maths"
+      subject = childText(el, 'category > text').split('/').pop()!.trim() || defaults.subject;
+      return;
+    }
+    const source = `Question ${rows.length + 1}${childText(el, 'name > text') ? ` (${childText(el, 'name > text')})` : ''}`;
+    const text = htmlToText(childText(el, 'questiontext > text'));
+    const answers = Array.from(el.querySelectorAll(':scope > answer'));
+    const answerTexts = answers.map(a => htmlToText(childText(a, 'text')));
+    const fractions = answers.map(a => parseFloat(a.getAttribute('fraction') || '0'));
+    const options = answerTexts.map((t, j) => ({ id: letterId(j), text: t }));
+    const base = {
+      text,
+      subject,
+      difficulty: defaults.difficulty,
+      tags: Array.from(el.querySelectorAll('tags > tag > text')).map(t => t.textContent || ''),
+      correctAnswer: '',
+      explanation: htmlToText(childText(el, 'generalfeedback > text')) || undefined,
+    };
+
+    switch (type) {
+      case 'multichoice': {
+        if (childText(el, 'single') === 'false') {
+          const correctAnswers = options.filter((_, j) => fractions[j] > 0).map(o => o.id);
+          rows.push(rowFor(source, { ...base, type: QuestionType.MULTI_SELECT, options, correctAnswers }));
+          return;
+        }
+        const errors: string[] = [];
+        if (fractions.some(f => f > 0 && f < 100)) errors.push('Partial credit on a single-answer question is not supported');
+        const correct = fractions.findIndex(f => f === 100);
+        const correctAnswer = correct >= 0 ? options[correct].id : '';
+        rows.push(rowFor(source, { ...base, type: QuestionType.SINGLE_CHOICE, options, correctAnswer }, errors));
+        return;
+      }
+      case 'truefalse': {
+        const correct = fractions.findIndex(f => f === 100);
+        const correctAnswer = correct >= 0 ? parseTrueFalse(answerTexts[correct]) : '';
+        rows.push(rowFor(source, { ...base, type: QuestionType.TRUE_FALSE, correctAnswer }));
+        return;
+      }
+      case 'shortanswer': {
+        const acceptedAnswers = answerTexts.filter((_, j) => fractions[j] === 100);
+        const caseSensitive = childText(el, 'usecase') === '1';
+        rows.push(rowFor(source, { ...base, type: QuestionType.SHORT_TEXT, acceptedAnswers, caseSensitive }));
+        return;
+      }
+      case 'numerical': {
+        const correct = fractions.findIndex(f => f === 100);
+        const numericAnswer = correct >= 0 ? Number(answerTexts[correct]) : undefined;
+        const tolerance = correct >= 0 ? Number(childText(answers[correct], 'tolerance') || 0) : 0;
+        rows.push(rowFor(source, { ...base, type: QuestionType.NUMERIC, numericAnswer, tolerance }));
+        return;
+      }
+      case 'ordering': {
+        // The ordering plugin lists its items in the correct order
+        rows.push(rowFor(source, { ...base, type: QuestionType.ORDERING, options }));
+        return;
+      }
+      default:
+        rows.push(unsupportedRow(source, text, type || 'unknown', { subject, difficulty: defaults.difficulty }));
+    }
+  });
+  return rows;
+};
+
+// Parses a file and flags questions already in the bank, or repeated earlier in the file.
+export const parseQuestionFile = (
+  format: ImportFormat,
+  text: string,
+  defaults: ImportDefaults,
+  existingTexts: string[],
+): ImportRow[] => {
+  const parse = { CSV: parseCsv, GIFT: parseGift, MOODLE_XML: parseMoodleXml }[format];
+  const seen = new Set(existingTexts.map(questionKey));
+  return parse(text, defaults).map(row => {
+    if (!row.input || !row.input.text.trim()) return row;
+    const key = questionKey(row.input.text);
+    const duplicate = seen.has(key);
+    seen.add(key);
+    return { ...row, duplicate };
+  });
+};
+
+export const isImportable = (row: ImportRow) => !!row.input && row.errors.length === 0 && !row.duplicate;
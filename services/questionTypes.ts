@@ -0,0 +1,78 @@
+import { AnswerValue, Option, QuestionInput, QuestionType, StudentQuestion } from '../types';
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  [QuestionType.SINGLE_CHOICE]: 'Single choice',
+  [QuestionType.MULTI_SELECT]: 'Multiple select',
+  [QuestionType.TRUE_FALSE]: 'True / false',
+  [QuestionType.NUMERIC]: 'Numeric',
+  [QuestionType.SHORT_TEXT]: 'Short text',
+  [QuestionType.ORDERING]: 'Ordering',
+};
+
+// Types whose answer is built from the question's `options`.
+export const usesOptions = (type: QuestionType) =>
+  type === QuestionType.SINGLE_CHOICE || type === QuestionType.MULTI_SELECT || type === QuestionType.ORDERING;
+
+export const TRUE_FALSE_OPTIONS: Option[] = [
+  { id: 'true', text: 'True' },
+  { id: 'false', text: 'False' },
+];
+
+// The options a student picks from, for renderers and distractor counts. Empty for typed answers.
+export const choicesFor = (question: Pick<StudentQuestion, 'type' | 'options'>): Option[] => {
+  if (question.type === QuestionType.TRUE_FALSE) return TRUE_FALSE_OPTIONS;
+  if (question.type === QuestionType.SINGLE_CHOICE || question.type === QuestionType.MULTI_SELECT) return question.options || [];
+  return [];
+};
+
+// The options a right answer picks, for highlighting them after the fact.
+export const correctOptionIds = (question: QuestionInput): string[] | undefined => {
+  if (question.type === QuestionType.SINGLE_CHOICE || question.type === QuestionType.TRUE_FALSE) return [question.correctAnswer];
+  if (question.type === QuestionType.MULTI_SELECT) return question.correctAnswers || [];
+  return undefined;
+};
+
+// Letters follow the bank's option order, not the order a student saw.
+const optionLabel = (question: QuestionInput, id: string, withText: boolean) => {
+  const index = (question.options || []).findIndex(o => o.id === id);
+  if (index < 0) return id;
+  const letter = String.fromCharCode(65 + index);
+  return withText ? `${letter}. ${question.options![index].text}` : letter;
+};
+
+// "B", "A, C", "C → A → B", "3.5", "photosynthesis"... for exports and reports.
+// Students see true/false in their own language, so those labels can be passed in.
+export const formatAnswer = (
+  question: QuestionInput,
+  value: AnswerValue,
+  withText = false,
+  trueFalse = TRUE_FALSE_OPTIONS,
+): string => {
+  switch (question.type) {
+    case QuestionType.TRUE_FALSE:
+      return trueFalse.find(o => o.id === value)?.text ?? String(value);
+    case QuestionType.MULTI_SELECT:
+      return Array.isArray(value) ? value.map(id => optionLabel(question, id, withText)).join(', ') : String(value);
+    case QuestionType.ORDERING:
+      return Array.isArray(value) ? value.map(id => optionLabel(question, id, withText)).join(' → ') : String(value);
+    case QuestionType.SINGLE_CHOICE:
+      return typeof value === 'string' ? optionLabel(question, value, withText) : String(value);
+    default:
+      return String(value);
+  }
+};
+
+export const formatCorrectAnswer = (question: QuestionInput, withText = false, trueFalse = TRUE_FALSE_OPTIONS): string => {
+  switch (question.type) {
+    case QuestionType.MULTI_SELECT:
+      return formatAnswer(question, question.correctAnswers || [], withText);
+    case QuestionType.ORDERING:
+      return formatAnswer(question, (question.options || []).map(o => o.id), withText);
+    case QuestionType.NUMERIC:
+      return question.tolerance ? `${question.numericAnswer} ± ${question.tolerance}` : String(question.numericAnswer);
+    case QuestionType.SHORT_TEXT:
+      return (question.acceptedAnswers || []).join(' / ');
+    default:
+      return formatAnswer(question, question.correctAnswer, withText, trueFalse);
+  }
+};
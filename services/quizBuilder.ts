@@ -0,0 +1,32 @@
+import { Question, QuizDrawRule } from '../types';
+import { matchesQuestionFilter } from './questionBank';
+import { shuffle } from './shuffle';
+
+export const describeRule = (rule: QuizDrawRule) =>
+  [
+    `${rule.count}`,
+    rule.difficulty ? rule.difficulty.toLowerCase() : 'any',
+    rule.subject ? `${rule.subject}` : null,
+    rule.tag ? `#${rule.tag}` : null,
+  ]
+    .filter(Boolean)
+    .join(' ');
+
+// Draws question ids for each rule in turn. A question is never drawn twice,
+// and a rule that can't be satisfied fails the whole draw.
+export const drawQuestions = (bank: Question[], rules: QuizDrawRule[], random: () => number = Math.random): string[] => {
+  const picked: string[] = [];
+  rules.forEach(rule => {
+    if (!Number.isInteger(rule.count) || rule.count <= 0) {
+      throw new Error(`Rule "${describeRule(rule)}" needs a positive question count`);
+    }
+    const pool = bank.filter(
+      q => !picked.includes(q.id) && matchesQuestionFilter(q, { difficulty: rule.difficulty, tag: rule.tag, subject: rule.subject })
+    );
+    if (pool.length < rule.count) {
+      throw new Error(`Rule "${describeRule(rule)}" needs ${rule.count} questions but only ${pool.length} match`);
+    }
+    picked.push(...shuffle(pool, random).slice(0, rule.count).map(q => q.id));
+  });
+  return picked;
+};
@@ -0,0 +1,14 @@
+import { LocalTransport } from './localTransport';
+import { RealtimeTransport } from './types';
+import { WebSocketTransport } from './websocketTransport';
+
+export type { RealtimeTransport, ConnectionStatus } from './types';
+export type { Presence } from './protocol';
+export { LocalTransport, WebSocketTransport };
+
+// Set VITE_REALTIME_URL (e.g. ws://192.168.1.10:8787) to sync through the LAN
+// server; without it events stay inside this browser tab.
+export const createTransport = (): RealtimeTransport => {
+  const url = import.meta.env?.VITE_REALTIME_URL;
+  return url ? new WebSocketTransport(url) : new LocalTransport();
+};
@@ -0,0 +1,36 @@
+import { BackendEvent, UserRole } from '../../types';
+import { Presence, isEventFor } from './protocol';
+import { ConnectionStatus, RealtimeTransport } from './types';
+
+// In-page event bus: everything stays inside this browser tab.
+export class LocalTransport implements RealtimeTransport {
+  private listeners = new Set<(event: BackendEvent) => void>();
+  private presence: Presence | null = null;
+
+  publish(event: BackendEvent) {
+    if (!isEventFor(event, this.presence)) return;
+    // Dispatch asynchronously, like a message arriving over a socket
+    setTimeout(() => this.listeners.forEach(l => l(event)), 0);
+  }
+
+  subscribe(listener: (event: BackendEvent) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Only one person can use a tab, so the count is 0 or 1
+  setPresence(presence: Presence | null) {
+    this.presence = presence;
+    this.publish({ type: 'ONLINE_COUNT_UPDATE', data: presence?.role === UserRole.STUDENT ? 1 : 0 });
+  }
+
+  getStatus(): ConnectionStatus {
+    return 'open';
+  }
+
+  onStatusChange() {
+    return () => {};
+  }
+}
@@ -0,0 +1,126 @@
+import { BackendEvent, UserRole } from '../../types';
+
+// Wire protocol shared by the realtime server and the browser transport.
+// Every frame is one JSON object with a `type` discriminator.
+
+export const PROTOCOL_VERSION = 1;
+export const HEARTBEAT_INTERVAL_MS = 10 * 1000;
+export const HEARTBEAT_TIMEOUT_MS = 30 * 1000; // Three missed heartbeats and the peer counts as gone
+
+// Who is using a client. Students with a live heartbeat make up `onlineCount`.
+export interface Presence {
+  userId: string;
+  role: UserRole;
+}
+
+// Events with an audience only go to those students (and to staff).
+export const isEventFor = (event: BackendEvent, presence: Presence | null) =>
+  !event.audience || (!!presence && (presence.role !== UserRole.STUDENT || event.audience.includes(presence.userId)));
+
+// What a client may ask the server to relay. Student devices only report on their
+// own attempts, so their events must name the student the client said it was.
+// The relay has no accounts: roles are as declared in `hello` and `presence`, so
+// this keeps honest clients in their lane rather than stopping a modified one.
+const STUDENT_EVENT_TYPES: BackendEvent['type'][] = ['SUBMISSION_RECEIVED', 'ATTEMPT_PROGRESS', 'INTEGRITY_EVENT'];
+const STAFF_EVENT_TYPES: BackendEvent['type'][] = [
+  ...STUDENT_EVENT_TYPES,
+  'QUIZ_PUBLISHED',
+  'QUIZ_CLOSED',
+  'QUESTION_STARTED',
+  'QUESTION_CLOSED',
+  'LIVE_SHOW_ENDED',
+  'LIVE_SHOW_UPDATED',
+];
+// Only the local transport makes these; nobody relays them
+const EVENT_TYPES: BackendEvent['type'][] = [...STAFF_EVENT_TYPES, 'ONLINE_COUNT_UPDATE'];
+
+export const canPublish = (event: BackendEvent, presence: Presence | null) => {
+  if (!presence) return false;
+  if (presence.role !== UserRole.STUDENT) return STAFF_EVENT_TYPES.includes(event.type);
+  return STUDENT_EVENT_TYPES.includes(event.type) && isObject(event.data) && event.data.studentId === presence.userId;
+};
+
+export type ClientMessage =
+  | { type: 'hello'; protocol: number; clientId: string; lastSeq: number | null; presence: Presence | null }
+  | { type: 'publish'; event: BackendEvent }
+  | { type: 'presence'; presence: Presence | null }
+  | { type: 'ping'; at: number };
+
+export type ServerMessage =
+  // `seq` is the latest sequence number; `gap` means events were missed beyond the replay buffer
+  | { type: 'welcome'; seq: number; replayed: number; gap: boolean }
+  | { type: 'event'; seq: number; origin: string; event: BackendEvent }
+  | { type: 'presence'; onlineCount: number }
+  | { type: 'pong'; at: number }
+  | { type: 'error'; message: string };
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isPresence = (value: unknown): value is Presence | null =>
+  value === null ||
+  (isObject(value) && typeof value.userId === 'string' && Object.values(UserRole).includes(value.role as UserRole));
+
+const isEvent = (value: unknown): value is BackendEvent =>
+  isObject(value) &&
+  EVENT_TYPES.includes(value.type as BackendEvent['type']) &&
+  (value.audience === undefined || (Array.isArray(value.audience) && value.audience.every(id => typeof id === 'string')));
+
+// Frames from the network are untrusted: anything malformed comes back as null.
+export const parseClientMessage = (raw: string): ClientMessage | null => {
+  let msg: unknown;
+  try {
+    msg = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (!isObject(msg)) return null;
+  // Each message is rebuilt from its checked fields, so nothing extra rides along
+  switch (msg.type) {
+    case 'hello': {
+      const { protocol, clientId, lastSeq, presence } = msg;
+      return typeof protocol === 'number' &&
+        typeof clientId === 'string' &&
+        (lastSeq === null || typeof lastSeq === 'number') &&
+        isPresence(presence)
+        ? { type: 'hello', protocol, clientId, lastSeq: typeof lastSeq === 'number' ? lastSeq : null, presence }
+        : null;
+    }
+    case 'publish':
+      return isEvent(msg.event) ? { type: 'publish', event: msg.event } : null;
+    case 'presence':
+      return isPresence(msg.presence) ? { type: 'presence', presence: msg.presence } : null;
+    case 'ping':
+      return typeof msg.at === 'number' ? { type: 'ping', at: msg.at } : null;
+    default:
+      return null;
+  }
+};
+
+export const parseServerMessage = (raw: string): ServerMessage | null => {
+  let msg: unknown;
+  try {
+    msg = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (!isObject(msg)) return null;
+  switch (msg.type) {
+    case 'welcome':
+      return typeof msg.seq === 'number'
+        ? { type: 'welcome', seq: msg.seq, replayed: typeof msg.replayed === 'number' ? msg.replayed : 0, gap: msg.gap === true }
+        : null;
+    case 'event':
+      return typeof msg.seq === 'number' && typeof msg.origin === 'string' && isEvent(msg.event)
+        ? { type: 'event', seq: msg.seq, origin: msg.origin, event: msg.event }
+        : null;
+    case 'presence':
+      return typeof msg.onlineCount === 'number' ? { type: 'presence', onlineCount: msg.onlineCount } : null;
+    case 'pong':
+      return typeof msg.at === 'number' ? { type: 'pong', at: msg.at } : null;
+    case 'error':
+      return { type: 'error', message: typeof msg.message === 'string' ? msg.message : 'Unknown error' };
+    default:
+      return null;
+  }
+};
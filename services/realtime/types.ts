@@ -0,0 +1,14 @@
+import { BackendEvent } from '../../types';
+import { Presence } from './protocol';
+
+export type ConnectionStatus = 'connecting' | 'open' | 'closed';
+
+// How MockBackend delivers events. Listeners on this client always receive
+// what this client publishes; a networked transport also relays it to others.
+export interface RealtimeTransport {
+  publish(event: BackendEvent): void;
+  subscribe(listener: (event: BackendEvent) => void): () => void;
+  setPresence(presence: Presence | null): void;
+  getStatus(): ConnectionStatus;
+  onStatusChange(listener: (status: ConnectionStatus) => void): () => void;
+}
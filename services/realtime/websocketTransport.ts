@@ -0,0 +1,170 @@
+import { BackendEvent } from '../../types';
+import {
+  ClientMessage,
+  HEARTBEAT_INTERVAL_MS,
+  HEARTBEAT_TIMEOUT_MS,
+  PROTOCOL_VERSION,
+  Presence,
+  canPublish,
+  isEventFor,
+  parseServerMessage,
+} from './protocol';
+import { ConnectionStatus, RealtimeTransport } from './types';
+
+const MIN_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 30 * 1000;
+
+// Talks to server/realtimeServer.ts. Reconnects with exponential backoff and,
+// on reconnect, asks the server to replay every event after the last one seen.
+export class WebSocketTransport implements RealtimeTransport {
+  private socket: WebSocket | null = null;
+  private listeners = new Set<(event: BackendEvent) => void>();
+  private statusListeners = new Set<(status: ConnectionStatus) => void>();
+  private status: ConnectionStatus = 'closed';
+  private clientId = crypto.randomUUID();
+  private presence: Presence | null = null;
+  private lastSeq: number | null = null;
+  private outbox: ClientMessage[] = [];
+  private attempt = 0;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private lastHeard = 0;
+
+  constructor(private url: string) {
+    this.connect();
+  }
+
+  publish(event: BackendEvent) {
+    // Local listeners hear it at once; the server echo is skipped by origin
+    this.deliver(event);
+    // Events the server won't relay from this client (a student device's own quiz
+    // clock, say) stay local
+    if (canPublish(event, this.presence)) this.send({ type: 'publish', event }, true);
+  }
+
+  subscribe(listener: (event: BackendEvent) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  setPresence(presence: Presence | null) {
+    this.presence = presence;
+    this.send({ type: 'presence', presence }, false);
+  }
+
+  getStatus() {
+    return this.status;
+  }
+
+  onStatusChange(listener: (status: ConnectionStatus) => void) {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  private setStatus(status: ConnectionStatus) {
+    if (status === this.status) return;
+    this.status = status;
+    this.statusListeners.forEach(l => l(status));
+  }
+
+  private deliver(event: BackendEvent) {
+    if (!isEventFor(event, this.presence)) return;
+    setTimeout(() => this.listeners.forEach(l => l(event)), 0);
+  }
+
+  // Publishes are queued while offline; presence and pings are resent on hello instead.
+  private send(message: ClientMessage, queueIfOffline: boolean) {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    } else if (queueIfOffline) {
+      this.outbox.push(message);
+    }
+  }
+
+  private connect() {
+    this.setStatus('connecting');
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.lastHeard = Date.now();
+      socket.send(JSON.stringify({
+        type: 'hello',
+        protocol: PROTOCOL_VERSION,
+        clientId: this.clientId,
+        lastSeq: this.lastSeq,
+        presence: this.presence,
+      } satisfies ClientMessage));
+      this.startHeartbeat();
+    };
+
+    socket.onmessage = e => {
+      this.lastHeard = Date.now();
+      const msg = parseServerMessage(String(e.data));
+      if (!msg) return;
+      switch (msg.type) {
+        case 'welcome':
+          this.attempt = 0;
+          if (this.lastSeq === null) this.lastSeq = msg.seq;
+          if (msg.gap) console.warn('Realtime: some events were missed while disconnected');
+          this.setStatus('open');
+          this.outbox.splice(0).forEach(m => socket.send(JSON.stringify(m)));
+          break;
+        case 'event':
+          if (this.lastSeq !== null && msg.seq <= this.lastSeq) return; // Already seen
+          this.lastSeq = msg.seq;
+          if (msg.origin !== this.clientId) this.deliver(msg.event);
+          break;
+        case 'presence':
+          this.deliver({ type: 'ONLINE_COUNT_UPDATE', data: msg.onlineCount });
+          break;
+        case 'error':
+          console.error('Realtime server error:', msg.message);
+          break;
+      }
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.stopHeartbeat();
+      this.socket = null;
+      this.setStatus('closed');
+      this.scheduleReconnect();
+    };
+
+    // onclose follows and handles the reconnect
+    socket.onerror = () => socket.close();
+  }
+
+  private scheduleReconnect() {
+    const backoff = Math.min(MAX_BACKOFF_MS, MIN_BACKOFF_MS * 2 ** this.attempt);
+    this.attempt++;
+    // Jitter so a whole lab doesn't reconnect in lockstep after a server restart
+    const wait = backoff / 2 + Math.random() * (backoff / 2);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, wait);
+  }
+
+  private startHeartbeat() {
+    this.stopHeartbeat();
+    this.heartbeatTimer = setInterval(() => {
+      if (Date.now() - this.lastHeard > HEARTBEAT_TIMEOUT_MS) {
+        // Half-open connection: force a reconnect
+        this.socket?.close();
+        return;
+      }
+      this.send({ type: 'ping', at: Date.now() }, false);
+    }, HEARTBEAT_INTERVAL_MS);
+  }
+
+  private stopHeartbeat() {
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+    this.heartbeatTimer = null;
+  }
+}
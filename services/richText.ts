@@ -0,0 +1,188 @@
+import { Question } from '../types';
+
+// Question content is a small, safe subset of Markdown:
+//
+//   **bold**, *italic*, `code`, $x^2$ (inline math), $$\frac{a}{b}$$ (display math),
+//   ```python fenced code blocks```, "- " and "1. " lists, and ![alt](image:ID)
+//   for pictures uploaded to the question bank.
+//
+// It is parsed into a tree and rendered as React elements, so raw HTML in a
+// question is just text. Links and outside image URLs are left out on purpose:
+// students stay on the proctored page, and every picture works offline.
+
+export type Inline =
+  | { kind: 'text'; text: string }
+  | { kind: 'strong' | 'em'; children: Inline[] }
+  | { kind: 'code'; text: string }
+  | { kind: 'math'; tex: string; display: boolean }
+  | { kind: 'image'; imageId: string; alt: string }
+  | { kind: 'break' };
+
+export type Block =
+  | { kind: 'paragraph'; children: Inline[] }
+  | { kind: 'list'; ordered: boolean; items: Inline[][] }
+  | { kind: 'code'; language?: string; text: string }
+  | { kind: 'math'; tex: string };
+
+const IMAGE = /^!\[([^\]\n]*)\]\(image:([A-Za-z0-9_-]+)\)/;
+const IMAGE_REFS = /!\[[^\]\n]*\]\(image:([A-Za-z0-9_-]+)\)/g;
+const ESCAPABLE = '\\`*_$![]()#-';
+const BULLET = /^\s*[-*]\s+/;
+const NUMBERED = /^\s*\d+[.)]\s+/;
+const FENCE = /^\s*```/;
+
+// Where the next `marker` closes a span opened at `from`, skipping escaped characters.
+const findClosing = (text: string, marker: string, from: number) => {
+  for (let i = from; i <= text.length - marker.length; i++) {
+    if (text[i] === '\\') i++;
+    else if (text.startsWith(marker, i)) return i;
+  }
+  return -1;
+};
+
+// "$5 and $10" is money, not math: inline math has to hug its dollar signs, and a
+// closing one can't be followed by a digit.
+const closingDollar = (text: string, from: number) => {
+  if (from >= text.length || /\s/.test(text[from])) return -1;
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') i++;
+    else if (text[i] === '$' && !/\s/.test(text[i - 1]) && !/\d/.test(text[i + 1] || '')) return i;
+  }
+  return -1;
+};
+
+export const parseInline = (text: string): Inline[] => {
+  const out: Inline[] = [];
+  let plain = '';
+  const push = (node: Inline) => {
+    if (plain) out.push({ kind: 'text', text: plain });
+    plain = '';
+    out.push(node);
+  };
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    const rest = text.slice(i);
+    if (c === '\\' && ESCAPABLE.includes(text[i + 1] || '')) {
+      plain += text[++i];
+    } else if (c === '\n') {
+      push({ kind: 'break' });
+    } else if (c === '`' && text.indexOf('`', i + 1) > i + 1) {
+      const end = text.indexOf('`', i + 1);
+      push({ kind: 'code', text: text.slice(i + 1, end) });
+      i = end;
+    } else if (rest.startsWith('$$') && findClosing(text, '$$', i + 2) > i + 2) {
+      const end = findClosing(text, '$$', i + 2);
+      push({ kind: 'math', tex: text.slice(i + 2, end).trim(), display: true });
+      i = end + 1;
+    } else if (c === '$' && closingDollar(text, i + 1) > i + 1) {
+      const end = closingDollar(text, i + 1);
+      push({ kind: 'math', tex: text.slice(i + 1, end), display: false });
+      i = end;
+    } else if (c === '!' && IMAGE.test(rest)) {
+      const [match, alt, imageId] = rest.match(IMAGE)!;
+      push({ kind: 'image', imageId, alt });
+      i += match.length - 1;
+    } else if (rest.startsWith('**') && findClosing(text, '**', i + 2) > i + 2) {
+      const end = findClosing(text, '**', i + 2);
+      push({ kind: 'strong', children: parseInline(text.slice(i + 2, end)) });
+      i = end + 1;
+    } else if (c === '*' && findClosing(text, '*', i + 1) > i + 1) {
+      const end = findClosing(text, '*', i + 1);
+      push({ kind: 'em', children: parseInline(text.slice(i + 1, end)) });
+      i = end;
+    } else {
+      plain += c;
+    }
+  }
+  if (plain) out.push({ kind: 'text', text: plain });
+  return out;
+};
+
+const isOneLineMath = (trimmed: string) => trimmed.length > 4 && trimmed.startsWith('$$') && trimmed.endsWith('$$');
+
+const startsBlock = (line: string) => {
+  const trimmed = line.trim();
+  return FENCE.test(line) || trimmed === '$$' || isOneLineMath(trimmed) || BULLET.test(line) || NUMBERED.test(line);
+};
+
+export const parseRichText = (source: string): Block[] => {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: Block[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    const trimmed = line.trim();
+    if (!trimmed) {
+      i++;
+    } else if (FENCE.test(line)) {
+      // An unclosed fence runs to the end, as in most Markdown editors
+      const language = trimmed.slice(3).trim() || undefined;
+      const body: string[] = [];
+      for (i++; i < lines.length && !FENCE.test(lines[i]); i++) body.push(lines[i]);
+      blocks.push({ kind: 'code', language, text: body.join('\n') });
+      i++;
+    } else if (trimmed === '$$') {
+      const body: string[] = [];
+      for (i++; i < lines.length && lines[i].trim() !== '$$'; i++) body.push(lines[i]);
+      blocks.push({ kind: 'math', tex: body.join('\n').trim() });
+      i++;
+    } else if (isOneLineMath(trimmed)) {
+      blocks.push({ kind: 'math', tex: trimmed.slice(2, -2).trim() });
+      i++;
+    } else if (BULLET.test(line) || NUMBERED.test(line)) {
+      const ordered = NUMBERED.test(line);
+      const marker = ordered ? NUMBERED : BULLET;
+      const items: Inline[][] = [];
+      for (; i < lines.length && marker.test(lines[i]); i++) items.push(parseInline(lines[i].replace(marker, '')));
+      blocks.push({ kind: 'list', ordered, items });
+    } else {
+      const body: string[] = [];
+      for (; i < lines.length && lines[i].trim() && (body.length === 0 || !startsBlock(lines[i])); i++) body.push(lines[i]);
+      blocks.push({ kind: 'paragraph', children: parseInline(body.join('\n')) });
+    }
+  }
+  return blocks;
+};
+
+const inlineText = (nodes: Inline[]): string =>
+  nodes
+    .map(node =>
+      node.kind === 'text' || node.kind === 'code' ? node.text :
+      node.kind === 'strong' || node.kind === 'em' ? inlineText(node.children) :
+      node.kind === 'math' ? node.tex :
+      node.kind === 'image' ? node.alt :
+      ' '
+    )
+    .join('');
+
+// The content as words alone, for confirm dialogs, screen-reader labels and announcements.
+export const toPlainText = (source: string) =>
+  parseRichText(source)
+    .map(block =>
+      block.kind === 'paragraph' ? inlineText(block.children) :
+      block.kind === 'list' ? block.items.map(inlineText).join('; ') :
+      block.kind === 'code' ? block.text :
+      block.tex
+    )
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+export const imageIdsIn = (source: string) => Array.from(source.matchAll(IMAGE_REFS), m => m[1]);
+
+// Every piece of a question a student can see, in every language.
+export const questionContents = (question: Pick<Question, 'text' | 'options' | 'explanation' | 'translations'>) => [
+  question.text,
+  ...(question.options || []).map(o => o.text),
+  question.explanation || '',
+  ...Object.values(question.translations || {}).flatMap(t => [
+    t?.text || '',
+    ...Object.values(t?.options || {}),
+    t?.explanation || '',
+  ]),
+];
+
+export const questionImageIds = (question: Pick<Question, 'text' | 'options' | 'explanation' | 'translations'>) =>
+  Array.from(new Set(questionContents(question).flatMap(imageIdsIn)));
+
+export const imageMarkdown = (alt: string, imageId: string) => `![${alt.replace(/[[\]\n]/g, '')}](image:${imageId})`;
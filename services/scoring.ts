@@ -0,0 +1,26 @@
+import { Quiz, Submission } from '../types';
+
+// How a quiz turns answers into points. The grader, stored submissions and every
+// screen, export and report read their numbers from here so they always agree.
+
+export type QuizScoring = Pick<Quiz, 'points' | 'negativeMarkPercent' | 'timeBonusPercent' | 'passPercent' | 'secondsPerQuestion'>;
+
+export const roundPoints = (points: number) => Math.round(points * 100) / 100;
+
+export const questionPoints = (quiz: Pick<Quiz, 'points'>, questionId: string) => quiz.points?.[questionId] ?? 1;
+
+export const maxScore = (quiz: Pick<Quiz, 'points'>, questionIds: string[]) =>
+  roundPoints(questionIds.reduce((sum, id) => sum + questionPoints(quiz, id), 0));
+
+// A time bonus can't lift the percentage past 100, nor negative marking take it below 0.
+export const scorePercent = (score: number, max: number) =>
+  max > 0 ? Math.round(Math.min(100, Math.max(0, (score / max) * 100)) * 10) / 10 : 0;
+
+// Judged on the rounded percentage, so a student shown 50% always passes a 50% mark.
+export const isPass = (percent: number, passPercent?: number) => (passPercent === undefined ? undefined : percent >= passPercent);
+
+// "7.5/10 · 75% · Pass", with the pass/fail words in the reader's language if given
+export const formatScore = (
+  { score, maxScore, percent, passed }: Pick<Submission, 'score' | 'maxScore' | 'percent' | 'passed'>,
+  labels = { pass: 'Pass', fail: 'Fail' },
+) => [`${score}/${maxScore}`, `${percent}%`, passed === undefined ? '' : passed ? labels.pass : labels.fail].filter(Boolean).join(' · ');
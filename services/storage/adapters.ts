@@ -0,0 +1,92 @@
+import { StorageAdapter } from './types';
+
+// Keeps a serialized copy, so callers can't mutate what was "saved".
+// Used by the storage tests and as the fallback when the browser offers no storage.
+export class MemoryStorageAdapter implements StorageAdapter {
+  private data: string | null;
+
+  constructor(initial?: unknown) {
+    this.data = initial === undefined ? null : JSON.stringify(initial);
+  }
+
+  async load() {
+    return this.data === null ? null : JSON.parse(this.data);
+  }
+
+  async save(snapshot: unknown) {
+    this.data = JSON.stringify(snapshot);
+  }
+
+  async clear() {
+    this.data = null;
+  }
+}
+
+export class LocalStorageAdapter implements StorageAdapter {
+  constructor(private key = 'quizmaster-pro/state') {}
+
+  async load() {
+    const raw = localStorage.getItem(this.key);
+    return raw === null ? null : JSON.parse(raw);
+  }
+
+  async save(snapshot: unknown) {
+    localStorage.setItem(this.key, JSON.stringify(snapshot));
+  }
+
+  async clear() {
+    localStorage.removeItem(this.key);
+  }
+}
+
+// One object store holding the whole snapshot under a single key. The data set
+// is small, and writing it in one put keeps every save atomic.
+export class IndexedDbStorageAdapter implements StorageAdapter {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(private dbName = 'quizmaster-pro', private storeName = 'state', private key = 'snapshot') {}
+
+  private open() {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(this.storeName);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, mode);
+      const request = action(transaction.objectStore(this.storeName));
+      // A request can succeed and its transaction still abort; only `complete` means it is on disk
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error || request.error);
+      transaction.onabort = () => reject(transaction.error || new Error('Storage transaction aborted'));
+    });
+  }
+
+  async load() {
+    const value = await this.run('readonly', store => store.get(this.key));
+    return value === undefined ? null : value;
+  }
+
+  async save(snapshot: unknown) {
+    await this.run('readwrite', store => store.put(snapshot, this.key));
+  }
+
+  async clear() {
+    await this.run('readwrite', store => store.delete(this.key));
+  }
+}
+
+// IndexedDB where available, then localStorage, then memory (nothing survives a reload).
+export const createBrowserStorage = (): StorageAdapter => {
+  if (typeof indexedDB !== 'undefined') return new IndexedDbStorageAdapter();
+  if (typeof localStorage !== 'undefined') return new LocalStorageAdapter();
+  return new MemoryStorageAdapter();
+};
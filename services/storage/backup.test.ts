@@ -0,0 +1,106 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Difficulty, GroupKind, QuestionType, QuizStatus, UserRole } from '../../types';
+import { MemoryStorageAdapter } from './adapters';
+import { BACKUP_FORMAT, createBackup, readBackup } from './backup';
+import { CURRENT_SCHEMA_VERSION, DEFAULT_SETTINGS, migrateState } from './migrations';
+import { StoredState } from './types';
+
+const sampleState = (): StoredState => ({
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  users: [{ id: 'K7Q-M4X', name: 'Amal', role: UserRole.STUDENT, age: 12, village: 'Hill', language: 'si' }],
+  admins: [],
+  groups: [{ id: 'g1', name: 'Grade 7', kind: GroupKind.GRADE, studentIds: ['K7Q-M4X'], createdAt: 1690000000000 }],
+  questions: [
+    {
+      id: 'q1',
+      type: QuestionType.MULTI_SELECT,
+      text: 'Pick the **primes**',
+      options: [{ id: 'a', text: '2' }, { id: 'b', text: '4' }, { id: 'c', text: '5' }],
+      correctAnswer: 'a',
+      correctAnswers: ['a', 'c'],
+      subject: 'Maths',
+      difficulty: Difficulty.EASY,
+      tags: ['primes'],
+      version: 2,
+      updatedAt: 1700000000000,
+    },
+  ],
+  questionArchive: [],
+  images: [],
+  quizzes: [
+    {
+      id: 'z1',
+      title: 'Primes',
+      durationMinutes: 5,
+      secondsPerQuestion: 30,
+      questionIds: ['q1'],
+      status: QuizStatus.CLOSED,
+      questionVersions: { q1: 2 },
+      points: { q1: 2 },
+      passPercent: 50,
+      groupIds: ['g1'],
+    },
+  ],
+  submissions: [
+    {
+      quizId: 'z1',
+      studentId: 'K7Q-M4X',
+      answers: [{ questionId: 'q1', value: ['a', 'c'], timeTakenMs: 4200 }],
+      score: 2,
+      maxScore: 2,
+      percent: 100,
+      passed: true,
+      totalQuestions: 1,
+      submittedAt: 1700000100000,
+      results: [{ questionId: 'q1', isCorrect: true, credit: 1, points: 2 }],
+      integrityEvents: [],
+    },
+  ],
+  attempts: [],
+  settings: DEFAULT_SETTINGS,
+  auditLog: [],
+});
+
+test('the memory adapter hands back what was saved, not the object it was given', async () => {
+  const storage = new MemoryStorageAdapter();
+  assert.equal(await storage.load(), null);
+  const state = sampleState();
+  await storage.save(state);
+  state.users[0].name = 'Changed after saving';
+  const loaded = (await storage.load()) as StoredState;
+  assert.equal(loaded.users[0].name, 'Amal');
+  assert.deepEqual(migrateState(loaded), sampleState());
+  await storage.clear();
+  assert.equal(await storage.load(), null);
+});
+
+test('a backup round-trips users, questions, quizzes and submissions', () => {
+  const state = sampleState();
+  const file = createBackup(state);
+  assert.equal(file.format, BACKUP_FORMAT);
+  assert.deepEqual(readBackup(JSON.stringify(file)), state);
+});
+
+test('a backup from an older app is migrated on restore', () => {
+  const file = createBackup(sampleState());
+  const old: any = { ...file, data: { ...file.data, schemaVersion: 8 } };
+  delete old.data.images;
+  delete old.data.auditLog;
+  const restored = readBackup(JSON.stringify(old));
+  assert.equal(restored.schemaVersion, CURRENT_SCHEMA_VERSION);
+  assert.deepEqual(restored.images, []);
+  assert.deepEqual(restored.auditLog, []);
+  assert.deepEqual(restored.quizzes, sampleState().quizzes);
+});
+
+test('files that are not usable backups are refused with a reason', () => {
+  const file = createBackup(sampleState());
+  assert.throws(() => readBackup('{not json'), /not valid JSON/);
+  assert.throws(() => readBackup(JSON.stringify({ ...file, format: 'something-else' })), /not a QuizMaster Pro backup/);
+  assert.throws(
+    () => readBackup(JSON.stringify({ ...file, data: { ...file.data, schemaVersion: CURRENT_SCHEMA_VERSION + 1 } })),
+    /newer than this app/,
+  );
+  assert.throws(() => readBackup(JSON.stringify({ ...file, data: { ...file.data, quizzes: null } })), /missing quizzes/);
+});
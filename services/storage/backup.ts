@@ -0,0 +1,38 @@
+import { CURRENT_SCHEMA_VERSION, migrateState } from './migrations';
+import { StoredState } from './types';
+
+export const BACKUP_FORMAT = 'quizmaster-pro-backup';
+
+// A full snapshot wrapped with enough metadata to move it between machines.
+// `data` is a StoredState at `data.schemaVersion`, migrated on restore.
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  exportedAt: number;
+  data: StoredState;
+}
+
+export const createBackup = (state: StoredState): BackupFile => ({
+  format: BACKUP_FORMAT,
+  exportedAt: Date.now(),
+  data: { ...state, schemaVersion: CURRENT_SCHEMA_VERSION },
+});
+
+// Parses an uploaded backup and brings it up to the current schema. Throws with a
+// message fit for the admin when the file isn't a backup or comes from a newer app.
+export const readBackup = (json: string): StoredState => {
+  let file: any;
+  try {
+    file = JSON.parse(json);
+  } catch {
+    throw new Error('Backup file is not valid JSON');
+  }
+  if (!file || file.format !== BACKUP_FORMAT || !file.data || typeof file.data !== 'object') {
+    throw new Error('This is not a QuizMaster Pro backup file');
+  }
+  const state = migrateState(file.data);
+  const collections: (keyof StoredState)[] = ['users', 'admins', 'groups', 'questions', 'questionArchive', 'images', 'quizzes', 'submissions', 'attempts', 'auditLog'];
+  const missing = collections.filter(key => !Array.isArray(state[key]));
+  if (!state.settings || typeof state.settings !== 'object') missing.push('settings');
+  if (missing.length > 0) throw new Error(`Backup file is missing ${missing.join(', ')}`);
+  return state;
+};
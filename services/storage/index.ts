@@ -0,0 +1,5 @@
+export type { StorageAdapter, StoredState } from './types';
+export { MemoryStorageAdapter, LocalStorageAdapter, IndexedDbStorageAdapter, createBrowserStorage } from './adapters';
+export { CURRENT_SCHEMA_VERSION, DEFAULT_SETTINGS, migrateState } from './migrations';
+export type { BackupFile } from './backup';
+export { BACKUP_FORMAT, createBackup, readBackup } from './backup';
@@ -0,0 +1,93 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Difficulty, QuestionType, QuizStatus } from '../../types';
+import { CURRENT_SCHEMA_VERSION, DEFAULT_SETTINGS, migrateState } from './migrations';
+
+// What the app stored before snapshots were versioned.
+const legacySnapshot = () => ({
+  users: [{ id: 'A01', name: 'Amal', role: 'STUDENT', age: 12, village: 'Hill' }],
+  questions: [
+    {
+      id: 'q1',
+      text: 'Capital of France?',
+      options: [{ id: 'a', text: 'Paris' }, { id: 'b', text: 'Rome' }],
+      correctAnswer: 'a',
+    },
+  ],
+  quizzes: [{ id: 'z1', title: 'Geography', durationMinutes: 10, questionIds: ['q1'], status: 'PUBLISHED' }],
+  submissions: [
+    {
+      quizId: 'z1',
+      studentId: 'A01',
+      answers: [{ questionId: 'q1', value: 'a' }],
+      score: 1,
+      totalQuestions: 1,
+      submittedAt: 1000,
+      results: [{ questionId: 'q1', isCorrect: true }],
+    },
+  ],
+  attempts: [{ quizId: 'z1', studentId: 'A01', startedAt: 500, deadline: 600500, submittedAt: 1000 }],
+});
+
+test('unversioned data is brought up to the current schema', () => {
+  const state = migrateState(legacySnapshot());
+  assert.equal(state.schemaVersion, CURRENT_SCHEMA_VERSION);
+  assert.deepEqual(
+    [state.admins, state.groups, state.images, state.questionArchive, state.auditLog],
+    [[], [], [], [], []],
+  );
+  assert.deepEqual(state.settings, DEFAULT_SETTINGS);
+});
+
+test('v1 fills in question metadata and renames PUBLISHED to OPEN', () => {
+  const state = migrateState(legacySnapshot());
+  const [question] = state.questions;
+  assert.equal(question.type, QuestionType.SINGLE_CHOICE);
+  assert.equal(question.subject, 'General');
+  assert.equal(question.difficulty, Difficulty.MEDIUM);
+  assert.deepEqual(question.tags, []);
+  assert.equal(question.version, 1);
+  assert.equal(state.quizzes[0].status, QuizStatus.OPEN);
+  assert.equal(state.quizzes[0].secondsPerQuestion, 60);
+});
+
+test('v2 and v3 make old attempts resumable and proctorable', () => {
+  const [attempt] = migrateState(legacySnapshot()).attempts;
+  assert.deepEqual(attempt.answers, []);
+  assert.equal(attempt.currentIndex, 0);
+  assert.equal(attempt.questionStartedAt, 500);
+  assert.deepEqual(attempt.integrityEvents, []);
+  assert.equal(attempt.lastSeenAt, 500);
+  assert.equal(attempt.realtimeConnected, false);
+});
+
+test('v4 and v5 give old submissions credit, points and a percentage', () => {
+  const [submission] = migrateState(legacySnapshot()).submissions;
+  assert.equal(submission.maxScore, 1);
+  assert.equal(submission.percent, 100);
+  assert.equal(submission.results![0].credit, 1);
+  assert.equal(submission.results![0].points, 1);
+});
+
+test('each migration only runs on data older than it', () => {
+  const current = migrateState(legacySnapshot());
+  const custom = { ...current, settings: { leaderboard: { enabled: false, initialsOnly: false } } };
+  assert.deepEqual(migrateState(custom), custom);
+
+  // A v7 snapshot keeps its groups and gains settings, images and the audit log
+  const v7 = { ...current, schemaVersion: 7, groups: [{ id: 'g1' }] } as any;
+  delete v7.settings;
+  delete v7.images;
+  delete v7.auditLog;
+  const migrated = migrateState(v7);
+  assert.deepEqual(migrated.groups, [{ id: 'g1' }]);
+  assert.deepEqual(migrated.settings, DEFAULT_SETTINGS);
+  assert.deepEqual(migrated.images, []);
+  assert.deepEqual(migrated.auditLog, []);
+});
+
+test('data from a newer app or not a snapshot at all is refused', () => {
+  assert.throws(() => migrateState({ schemaVersion: CURRENT_SCHEMA_VERSION + 1 }), /newer than this app/);
+  assert.throws(() => migrateState(null), /not a QuizMaster snapshot/);
+  assert.throws(() => migrateState('users'), /not a QuizMaster snapshot/);
+});
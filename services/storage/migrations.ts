@@ -0,0 +1,135 @@
+import { AppSettings, Difficulty, QuestionType, QuizStatus } from '../../types';
+import { StoredState } from './types';
+import { scorePercent } from '../scoring';
+
+// Bump this and append a migration whenever a stored shape changes.
+export const CURRENT_SCHEMA_VERSION = 10;
+
+// Used by fresh installs and by data from before settings existed.
+export const DEFAULT_SETTINGS: AppSettings = {
+  leaderboard: { enabled: true, initialsOnly: true },
+};
+
+interface Migration {
+  version: number; // Upgrades a snapshot from version - 1 to version
+  description: string;
+  migrate: (state: any) => any;
+}
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Versioned snapshot: question metadata, per-question timers and OPEN status',
+    migrate: state => ({
+      users: state.users || [],
+      questions: (state.questions || []).map((q: any) => ({
+        subject: 'General',
+        difficulty: Difficulty.MEDIUM,
+        tags: [],
+        version: 1,
+        updatedAt: 0,
+        ...q,
+      })),
+      questionArchive: state.questionArchive || [],
+      quizzes: (state.quizzes || []).map((z: any) => ({
+        secondsPerQuestion: 60,
+        ...z,
+        status: z.status === 'PUBLISHED' ? QuizStatus.OPEN : z.status,
+      })),
+      submissions: state.submissions || [],
+      attempts: state.attempts || [],
+    }),
+  },
+  {
+    version: 2,
+    description: 'Resumable attempts: saved answers and question position',
+    migrate: state => ({
+      ...state,
+      attempts: state.attempts.map((a: any) => ({
+        answers: [],
+        currentIndex: 0,
+        questionStartedAt: a.startedAt,
+        ...a,
+      })),
+    }),
+  },
+  {
+    version: 3,
+    description: 'Proctoring: integrity event log and heartbeat on attempts',
+    migrate: state => ({
+      ...state,
+      attempts: state.attempts.map((a: any) => ({
+        integrityEvents: [],
+        lastSeenAt: a.startedAt,
+        realtimeConnected: false,
+        ...a,
+      })),
+    }),
+  },
+  {
+    version: 4,
+    description: 'Question types and per-question credit',
+    migrate: state => ({
+      ...state,
+      questions: state.questions.map((q: any) => ({ type: QuestionType.SINGLE_CHOICE, ...q })),
+      questionArchive: state.questionArchive.map((q: any) => ({ type: QuestionType.SINGLE_CHOICE, ...q })),
+      submissions: state.submissions.map((s: any) => ({
+        ...s,
+        results: s.results?.map((r: any) => ({ credit: r.isCorrect ? 1 : 0, ...r })),
+      })),
+    }),
+  },
+  {
+    version: 5,
+    description: 'Weighted points: max score, percent and pass/fail on submissions',
+    migrate: state => ({
+      ...state,
+      // Older quizzes had one point per question and no pass mark
+      submissions: state.submissions.map((s: any) => ({
+        maxScore: s.totalQuestions,
+        percent: scorePercent(s.score, s.totalQuestions),
+        ...s,
+        results: s.results?.map((r: any) => ({ points: r.credit, ...r })),
+      })),
+    }),
+  },
+  {
+    version: 6,
+    description: 'Staff accounts; the backend seeds the first owner on first staff login',
+    migrate: state => ({ ...state, admins: state.admins || [] }),
+  },
+  {
+    version: 7,
+    description: 'Student groups; existing quizzes stay open to every student',
+    migrate: state => ({ ...state, groups: state.groups || [] }),
+  },
+  {
+    version: 8,
+    description: 'Installation settings, starting with the leaderboard',
+    migrate: state => ({ ...state, settings: state.settings || { ...DEFAULT_SETTINGS } }),
+  },
+  {
+    version: 9,
+    description: 'Images for question content, kept with the question bank',
+    migrate: state => ({ ...state, images: state.images || [] }),
+  },
+  {
+    version: 10,
+    description: 'Append-only audit log, starting empty',
+    migrate: state => ({ ...state, auditLog: state.auditLog || [] }),
+  },
+];
+
+// Brings any stored snapshot up to the current schema. Unversioned data counts as version 0.
+export const migrateState = (raw: unknown): StoredState => {
+  if (!raw || typeof raw !== 'object') throw new Error('Stored data is not a QuizMaster snapshot');
+  let state: any = raw;
+  const from = typeof state.schemaVersion === 'number' ? state.schemaVersion : 0;
+  if (from > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`Stored data uses schema v${from}, which is newer than this app (v${CURRENT_SCHEMA_VERSION})`);
+  }
+  MIGRATIONS.filter(m => m.version > from).forEach(m => {
+    state = { ...m.migrate(state), schemaVersion: m.version };
+  });
+  return state as StoredState;
+};
@@ -0,0 +1,25 @@
+import { AdminAccount, AppSettings, Attempt, AuditEntry, Group, Question, QuestionImage, Quiz, Submission, User } from '../../types';
+
+// Everything MockBackend keeps between sessions. Presence counts, login sessions
+// and event listeners are runtime-only and never stored.
+export interface StoredState {
+  schemaVersion: number;
+  users: User[];
+  admins: AdminAccount[];
+  groups: Group[];
+  questions: Question[];
+  questionArchive: Question[];
+  images: QuestionImage[];
+  quizzes: Quiz[];
+  submissions: Submission[];
+  attempts: Attempt[];
+  settings: AppSettings;
+  auditLog: AuditEntry[];
+}
+
+// Adapters only move opaque snapshots; shape and versioning are handled by migrations.
+export interface StorageAdapter {
+  load(): Promise<unknown | null>;
+  save(snapshot: unknown): Promise<void>;
+  clear(): Promise<void>;
+}
@@ -0,0 +1,77 @@
+import { Accommodations, Attempt, Quiz, User } from '../types';
+
+// Student codes are five random characters plus a check character, shown as
+// "K7Q-M4X". The alphabet leaves out 0/O, 1/I/L and the like. The check character
+// makes the position-weighted sum divisible by 31; with 31 prime, that catches any
+// single mistyped character and any two swapped characters, so typos are rejected
+// before they count as a wrong guess.
+const CODE_ALPHABET = '23456789ABCDEFGHJKMNPQRSTUVWXYZ';
+const CODE_PAYLOAD_LENGTH = 5;
+
+// Codes issued before checksums (A01, B12, ...) keep working until an admin regenerates them.
+const LEGACY_CODE = /^[A-Z]\d{2}$/;
+
+const PIN_PATTERN = /^\d{4,6}$/;
+
+const weightedSum = (chars: string) => [...chars].reduce((sum, c, i) => sum + (i + 1) * CODE_ALPHABET.indexOf(c), 0);
+
+const checkCharacter = (payload: string) =>
+  [...CODE_ALPHABET].find(c => weightedSum(payload + c) % CODE_ALPHABET.length === 0)!;
+
+// Upper-cases and drops spaces and dashes, then puts the dash back: "k7q m4x" -> "K7Q-M4X".
+export const normalizeStudentCode = (input: string) => {
+  const compact = input.toUpperCase().replace(/[\s-]/g, '');
+  return compact.length === CODE_PAYLOAD_LENGTH + 1 ? `${compact.slice(0, 3)}-${compact.slice(3)}` : compact;
+};
+
+// Whether a normalized code could have been issued, i.e. it isn't a typo.
+export const isWellFormedStudentCode = (code: string) => {
+  if (LEGACY_CODE.test(code)) return true;
+  const compact = code.replace('-', '');
+  if (compact.length !== CODE_PAYLOAD_LENGTH + 1 || [...compact].some(c => !CODE_ALPHABET.includes(c))) return false;
+  return weightedSum(compact) % CODE_ALPHABET.length === 0;
+};
+
+export const generateStudentCode = () => {
+  const bytes = crypto.getRandomValues(new Uint32Array(CODE_PAYLOAD_LENGTH));
+  const payload = Array.from(bytes, b => CODE_ALPHABET[b % CODE_ALPHABET.length]).join('');
+  return normalizeStudentCode(payload + checkCharacter(payload));
+};
+
+export const isLegacyStudentCode = (code: string) => LEGACY_CODE.test(code);
+
+export const validatePin = (pin: string) => (PIN_PATTERN.test(pin) ? [] : ['The PIN must be 4 to 6 digits']);
+
+// Extra time a teacher can grant. The total and per-question clocks both stretch by it.
+export const TIME_MULTIPLIERS = [1, 1.25, 1.5, 2, 3];
+
+export const validateAccommodations = ({ timeMultiplier }: Accommodations) =>
+  timeMultiplier === undefined || TIME_MULTIPLIERS.includes(timeMultiplier)
+    ? []
+    : [`Extra time must be one of ${TIME_MULTIPLIERS.map(m => `${m}×`).join(', ')}`];
+
+// The per-question limit in this attempt, with any extra time the student had when it started.
+export const questionSeconds = (quiz: Pick<Quiz, 'secondsPerQuestion'>, attempt: Pick<Attempt, 'accommodations'>) =>
+  Math.round(quiz.secondsPerQuestion * (attempt.accommodations?.timeMultiplier ?? 1));
+
+// Short staff-facing summary, e.g. "1.5× time, no auto-advance"; empty when none are granted.
+export const describeAccommodations = ({ timeMultiplier, noAutoAdvance }: Accommodations = {}) =>
+  [timeMultiplier && timeMultiplier !== 1 && `${timeMultiplier}× time`, noAutoAdvance && 'no auto-advance']
+    .filter(Boolean)
+    .join(', ');
+
+// Two registrations are probably the same child when name, age and village match,
+// ignoring case and spacing.
+export const registrationKey = ({ name, age, village }: Pick<User, 'name' | 'age' | 'village'>) =>
+  [name, String(age ?? ''), village || ''].map(part => part.trim().replace(/\s+/g, ' ').toLowerCase()).join('|');
+
+// Admin look-up: matches any part of the name or village, or the code with or without its dash.
+export const matchesStudentSearch = (student: User, query: string) => {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  return (
+    student.name.toLowerCase().includes(q) ||
+    (student.village || '').toLowerCase().includes(q) ||
+    student.id.replace('-', '').toLowerCase().includes(q.replace('-', ''))
+  );
+};
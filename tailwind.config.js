@@ -0,0 +1,9 @@
+// Tailwind is built into the app's CSS, so pages are styled on a LAN with no internet.
+/** @type {import('tailwindcss').Config} */
+export default {
+  content: ['./index.html', './index.tsx', './App.tsx', './utils.ts', './components/**/*.tsx', './services/**/*.ts'],
+  theme: {
+    extend: {},
+  },
+  plugins: [],
+};
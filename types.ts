@@ -0,0 +1,508 @@
+// Staff roles: the owner runs everything including accounts, teachers manage their
+// own quizzes, proctors only watch.
+export enum UserRole {
+  STUDENT = 'STUDENT',
+  OWNER = 'OWNER',
+  TEACHER = 'TEACHER',
+  PROCTOR = 'PROCTOR',
+}
+
+// Languages students can use the portal and take quizzes in. English is the
+// language questions are written in; the others are translations.
+export type Language = 'en' | 'si' | 'ta';
+
+export interface User {
+  id: string; // Student code (e.g. K7Q-M4X, or A01 from before checksums) or staff username
+  name: string;
+  role: UserRole;
+  age?: number;
+  village?: string;
+  language?: Language; // Student's choice; English when unset
+  accommodations?: Accommodations; // Granted by a teacher; students only
+  mustChangePassword?: boolean; // Staff only: nothing else works until it is changed
+  pin?: { salt: string; hash: string }; // Optional student PIN; never leaves the backend
+  hasPin?: boolean; // What clients see instead of `pin`
+}
+
+// Adjustments a teacher grants a student who needs them, e.g. with a screen reader.
+export interface Accommodations {
+  timeMultiplier?: number; // Stretches the total and per-question time; 1 when unset
+  noAutoAdvance?: boolean; // The runner waits for the student to move on, even when a question's time runs out
+}
+
+// What mergeStudents did with the duplicate's records.
+export interface StudentMergeResult {
+  student: User;
+  movedSubmissions: number;
+  droppedSubmissions: number; // Quizzes both records had taken; the kept student's result stays
+}
+
+// A staff login. Only the backend ever sees the salt and hash.
+export interface AdminAccount {
+  username: string;
+  name: string;
+  role: UserRole;
+  salt: string;
+  passwordHash: string; // PBKDF2-SHA256 of the password with the salt
+  mustChangePassword: boolean; // Set for new accounts and after a reset
+  disabled: boolean;
+  createdAt: number;
+}
+
+export type AdminSummary = Omit<AdminAccount, 'salt' | 'passwordHash'>;
+
+export interface Option {
+  id: string;
+  text: string;
+}
+
+export enum Difficulty {
+  EASY = 'EASY',
+  MEDIUM = 'MEDIUM',
+  HARD = 'HARD',
+}
+
+export enum QuestionType {
+  SINGLE_CHOICE = 'SINGLE_CHOICE',
+  MULTI_SELECT = 'MULTI_SELECT',
+  TRUE_FALSE = 'TRUE_FALSE',
+  NUMERIC = 'NUMERIC',
+  SHORT_TEXT = 'SHORT_TEXT',
+  ORDERING = 'ORDERING',
+}
+
+// Which answer-key fields are used depends on `type`:
+//   SINGLE_CHOICE  options + correctAnswer (option id)
+//   MULTI_SELECT   options + correctAnswers (option ids), partial credit
+//   TRUE_FALSE     correctAnswer ('true' | 'false')
+//   NUMERIC        numericAnswer +/- tolerance
+//   SHORT_TEXT     acceptedAnswers, compared after trimming and collapsing spaces
+//   ORDERING       options, listed in the correct order
+export interface Question {
+  id: string;
+  type: QuestionType;
+  text: string;
+  options?: Option[];
+  correctAnswer: string; // Option id, or 'true'/'false'
+  correctAnswers?: string[];
+  numericAnswer?: number;
+  tolerance?: number;
+  acceptedAnswers?: string[];
+  caseSensitive?: boolean;
+  subject: string;
+  difficulty: Difficulty;
+  gradeLevel?: number;
+  tags: string[]; // Free-form topic tags, e.g. "algebra"
+  explanation?: string; // Shown to students in the post-quiz review
+  translations?: Partial<Record<Language, QuestionTranslation>>;
+  version: number; // Bumped on every edit
+  updatedAt: number;
+}
+
+// The question in another language. Options are matched by id, so the answer key,
+// and with it grading, is the same whichever language a student sees.
+export interface QuestionTranslation {
+  text: string;
+  options?: Record<string, string>; // Option id -> text
+  explanation?: string;
+  acceptedAnswers?: string[]; // Short text: accepted from every student, like the English ones
+}
+
+// A picture for question content, stored with the question bank so quizzes work
+// offline. Content refers to it as ![alt](image:ID).
+export interface QuestionImage {
+  id: string;
+  name: string; // File name as uploaded, for staff
+  dataUrl: string; // PNG, JPEG, GIF or WebP; never SVG, which can carry scripts
+  uploadedBy: string;
+  uploadedAt: number;
+}
+
+// Editable fields of a question; id, version and updatedAt are managed by the backend.
+export type QuestionInput = Omit<Question, 'id' | 'version' | 'updatedAt'>;
+
+// What the student client is allowed to see: the answer key stays on the server.
+// Ordering questions always reach the student shuffled.
+export type StudentQuestion = Pick<Question, 'id' | 'type' | 'text' | 'options'>;
+
+// DRAFT -> (publish) -> SCHEDULED -> OPEN -> CLOSED. The backend moves quizzes
+// between SCHEDULED, OPEN and CLOSED on its own as opensAt/closesAt pass.
+export enum QuizStatus {
+  DRAFT = 'DRAFT',
+  SCHEDULED = 'SCHEDULED',
+  OPEN = 'OPEN',
+  CLOSED = 'CLOSED',
+}
+
+// How much the runner reveals straight after each answer.
+export enum FeedbackPolicy {
+  NONE = 'NONE', // Only that the answer was saved
+  SELECTION = 'SELECTION', // Whether the chosen answer was right
+  SHOW_CORRECT = 'SHOW_CORRECT', // Also what the right answer was
+}
+
+export interface Quiz {
+  id: string;
+  title: string;
+  durationMinutes: number;
+  secondsPerQuestion: number; // Question timer; unanswered questions are skipped when it runs out
+  questionIds: string[]; // Order is the order students see
+  status: QuizStatus;
+  ownerId?: string; // Staff username of the creator; teachers only see their own quizzes
+  opensAt?: number; // Opens as soon as it is published when unset
+  closesAt?: number; // Stays open until closed by hand when unset
+  publishedAt?: number; // When the quiz actually opened
+  questionVersions?: Record<string, number>; // Pinned on publish so later bank edits don't change the quiz
+  shuffleQuestions?: boolean; // Per-student order, seeded by quiz and student id
+  shuffleOptions?: boolean;
+  points?: Record<string, number>; // Per question id; a question is worth 1 point when unset
+  negativeMarkPercent?: number; // Share of a question's points lost for a wrong answer; skipped questions cost nothing
+  timeBonusPercent?: number; // Up to this share of a question's points extra for a quick answer, none at the time limit
+  passPercent?: number; // No pass/fail when unset
+  feedbackPolicy?: FeedbackPolicy; // SELECTION when unset
+  reviewAfterClose?: boolean; // Students see answers and explanations once the quiz closes
+  groupIds?: string[]; // Only members of these groups see the quiz; every student does when unset or empty
+  live?: boolean; // Quiz show: the host moves everyone through the questions together
+}
+
+export enum GroupKind {
+  CLASS = 'CLASS',
+  GRADE = 'GRADE',
+  COHORT = 'COHORT', // e.g. everyone from one village
+}
+
+// A set of students that quizzes can be published to and results filtered by.
+export interface Group {
+  id: string;
+  name: string;
+  kind: GroupKind;
+  studentIds: string[];
+  ownerId?: string; // Staff username of the creator; teachers only see their own groups
+  createdAt: number;
+}
+
+// Settings the owner changes for the whole installation.
+export interface AppSettings {
+  leaderboard: {
+    enabled: boolean; // Whether students see leaderboards at all; staff always can
+    initialsOnly: boolean; // Students see other students as rank and initials only
+  };
+}
+
+// Bulk assignment: every student matching all the set fields is added.
+export interface GroupCriteria {
+  village?: string;
+  minAge?: number;
+  maxAge?: number;
+}
+
+// "4 easy from tag algebra": every set filter narrows the pool the questions are drawn from.
+export interface QuizDrawRule {
+  count: number;
+  difficulty?: Difficulty;
+  subject?: string;
+  tag?: string;
+}
+
+// One student's run at a quiz. The clock starts when the student begins,
+// not when the quiz opens, and never runs past the quiz's close. Saved on
+// every answer so a reload or dropped connection can resume where it left off.
+export interface Attempt {
+  quizId: string;
+  studentId: string;
+  startedAt: number;
+  deadline: number;
+  accommodations?: Accommodations; // The student's, as they were when the attempt started
+  answers: Answer[];
+  currentIndex: number; // Position in this student's question order
+  questionStartedAt: number; // When the question timer for currentIndex started
+  submittedAt?: number;
+  autoSubmitted?: boolean; // Finalized by the server at the deadline; a late offline sync can still add answers
+  integrityEvents: IntegrityEvent[];
+  lastSeenAt: number; // Last heartbeat or action from the student's client
+  realtimeConnected: boolean; // Whether that client's event link was up at the last heartbeat
+}
+
+// Signals the student runner reports while a quiz is in progress.
+export type IntegrityEventKind = 'TAB_HIDDEN' | 'WINDOW_BLUR' | 'FULLSCREEN_EXIT' | 'COPY' | 'PASTE' | 'IDLE';
+
+export interface IntegrityEvent {
+  kind: IntegrityEventKind;
+  at: number;
+  questionIndex: number; // Position in the student's question order when it happened
+  detail?: string;
+}
+
+// SUBMITTED once the attempt is graded; LOST when heartbeats stop arriving.
+export type ProctorConnection = 'CONNECTED' | 'RECONNECTING' | 'LOST' | 'SUBMITTED';
+
+// One row of the admin's live proctoring board.
+export interface LiveAttempt {
+  studentId: string;
+  studentName: string;
+  currentIndex: number;
+  totalQuestions: number;
+  answered: number;
+  deadline: number;
+  lastSeenAt: number;
+  connection: ProctorConnection;
+  integrityEvents: IntegrityEvent[];
+}
+
+export interface ResumableAttempt {
+  quiz: Quiz;
+  attempt: Attempt;
+}
+
+export interface QuizLobby {
+  open: Quiz[];
+  upcoming: Quiz[];
+  completedQuizIds: string[];
+  reviewable: Quiz[]; // Closed quizzes this student took that offer a review
+}
+
+// Option id or 'true'/'false' (single choice, true/false), option ids (multi-select,
+// and ordering in the student's order), a number (numeric) or free text (short text).
+export type AnswerValue = string | string[] | number;
+
+export interface Answer {
+  questionId: string;
+  value: AnswerValue;
+  timeTakenMs?: number; // Set by the backend when it saves an answer live; drives the time bonus
+}
+
+export interface QuestionResult {
+  questionId: string;
+  isCorrect: boolean; // Full credit only
+  credit: number; // 0..1; between the two for a partly right multi-select
+  points: number; // Earned on this question after negative marking and time bonus
+}
+
+export interface Submission {
+  quizId: string;
+  studentId: string;
+  answers: Answer[];
+  score: number; // Points, always set by the backend grader; fractional and possibly negative
+  maxScore: number; // Sum of the quiz's question points, without any time bonus
+  percent: number; // score / maxScore, held to 0..100
+  passed?: boolean; // Unset when the quiz has no pass mark
+  totalQuestions: number;
+  submittedAt: number;
+  results?: QuestionResult[];
+  integrityEvents?: IntegrityEvent[]; // Copied from the attempt for review after the exam
+}
+
+// The backend's reply to a live answer, trimmed to the quiz's feedback policy.
+export interface AnswerCheck {
+  isCorrect?: boolean;
+  credit?: number;
+  correctAnswer?: string; // Readable, e.g. "B. Paris" or "3.14 ± 0.01"; SHOW_CORRECT only
+  correctOptionIds?: string[]; // For highlighting; SHOW_CORRECT only, and only for pick-the-option types
+}
+
+// One question of a post-quiz review, with the answer key as the quiz used it.
+export interface ReviewItem {
+  question: Question;
+  answer?: AnswerValue; // Unset when skipped
+  result?: QuestionResult;
+}
+
+export interface QuizReview {
+  quiz: Quiz;
+  submission: Submission;
+  items: ReviewItem[];
+}
+
+// Payload the student client sends; any score it carries is ignored.
+export type SubmissionDraft = Pick<Submission, 'quizId' | 'studentId' | 'answers'> & { score?: number };
+
+export type GradeResult = Pick<Submission, 'score' | 'maxScore' | 'percent' | 'passed' | 'totalQuestions'> & {
+  results: QuestionResult[];
+};
+
+// An answer the student's device saved while it had no connection.
+export interface OfflineAnswer {
+  questionId: string;
+  value: AnswerValue;
+  answeredAt: number; // Device clock
+}
+
+// Everything a device queued for one attempt, sent in one go when it is back online.
+export interface OfflineBatch {
+  quizId: string;
+  studentId: string;
+  answers: OfflineAnswer[];
+  currentIndex: number;
+  submittedAt?: number; // Device clock; set once the student finished or the timer ran out
+  sentAt: number; // Device clock at sending, to correct for a clock that is off
+}
+
+export interface OfflineSyncResult {
+  quizId: string;
+  accepted: number;
+  late: number; // Given after its question's timer (or the deadline) ran out, so not counted
+  grade?: GradeResult; // Once the attempt is submitted
+  refused?: string; // Why nothing in the batch could be used
+}
+
+export type BackendEventType =
+  | 'QUIZ_PUBLISHED'
+  | 'QUIZ_CLOSED'
+  | 'ONLINE_COUNT_UPDATE'
+  | 'SUBMISSION_RECEIVED'
+  | 'ATTEMPT_PROGRESS'
+  | 'INTEGRITY_EVENT'
+  | 'QUESTION_STARTED'
+  | 'QUESTION_CLOSED'
+  | 'LIVE_SHOW_ENDED'
+  | 'LIVE_SHOW_UPDATED';
+
+export interface BackendEvent {
+  type: BackendEventType;
+  data?: any;
+  audience?: string[]; // Student ids that should receive it; staff always do. Everyone when unset
+}
+
+// --- Live quiz show ---
+
+// WAITING before the first question, then QUESTION (answers open) and REVEAL
+// (answers closed, results shown) for each question, until the host ends the show.
+export type LivePhase = 'WAITING' | 'QUESTION' | 'REVEAL' | 'ENDED';
+
+export interface LiveAnswer {
+  value: AnswerValue;
+  timeTakenMs: number;
+  credit: number;
+  points: number; // Show points: more for a quicker right answer
+}
+
+// A running show. Kept in server memory; its results become ordinary
+// submissions when the host ends it.
+export interface LiveShow {
+  quizId: string;
+  phase: LivePhase;
+  index: number; // Current question in the quiz's order; -1 before the first
+  questionStartedAt?: number;
+  questionEndsAt?: number;
+  playerIds: string[];
+  answers: Record<string, Record<string, LiveAnswer>>; // Question id -> student id -> answer
+}
+
+// How the room answered one question.
+export interface LiveDistribution {
+  options: { id: string; text: string; count: number; correct: boolean }[]; // Empty for typed answers
+  correct: number;
+  partial: number;
+  incorrect: number;
+  unanswered: number;
+}
+
+export interface LiveStanding {
+  rank: number; // Ties share a rank
+  studentId?: string; // Left out when students see initials only
+  name: string;
+  points: number;
+  correct: number;
+  isYou?: boolean;
+}
+
+// What the host's screen shows.
+export interface LiveHostView {
+  quiz: Quiz;
+  phase: LivePhase;
+  index: number;
+  total: number;
+  questionEndsAt?: number;
+  question?: Question; // With its answer key
+  players: number;
+  answered: number; // Answers in so far to the current question
+  distribution?: LiveDistribution; // Once the question has closed
+  standings: LiveStanding[];
+}
+
+// What a player's screen shows.
+export interface LiveStudentView {
+  quizId: string;
+  title: string;
+  phase: LivePhase;
+  index: number;
+  total: number;
+  questionEndsAt?: number;
+  question?: StudentQuestion; // In the student's language, while open and at the reveal
+  answer?: AnswerValue; // The student's, once given
+  result?: AnswerCheck & { points: number }; // At the reveal, with the right answer
+  points: number;
+  rank?: number;
+  players: number;
+  standings: LiveStanding[]; // Top of the board, named as the leaderboard settings allow
+}
+
+// --- Audit log ---
+
+export type AuditAction =
+  | 'STUDENT_REGISTERED'
+  | 'STUDENT_LOGIN'
+  | 'STAFF_LOGIN'
+  | 'LOGIN_FAILED'
+  | 'LOGOUT'
+  | 'PASSWORD_CHANGED'
+  | 'STAFF_ACCOUNT_CREATED'
+  | 'STAFF_ACCOUNT_DISABLED'
+  | 'STAFF_ACCOUNT_ENABLED'
+  | 'STAFF_PASSWORD_RESET'
+  | 'STUDENT_LANGUAGE_CHANGED'
+  | 'STUDENT_CODE_REGENERATED'
+  | 'STUDENT_PIN_CHANGED'
+  | 'STUDENT_ACCOMMODATIONS_CHANGED'
+  | 'STUDENTS_MERGED'
+  | 'SETTINGS_CHANGED'
+  | 'GROUP_SAVED'
+  | 'GROUP_DELETED'
+  | 'GROUP_MEMBERS_CHANGED'
+  | 'QUESTION_CREATED'
+  | 'QUESTIONS_IMPORTED'
+  | 'QUESTION_UPDATED'
+  | 'QUESTION_DELETED'
+  | 'IMAGE_UPLOADED'
+  | 'QUIZ_SAVED'
+  | 'QUIZ_PUBLISHED'
+  | 'QUIZ_CLOSED'
+  | 'QUIZ_STARTED'
+  | 'QUIZ_SUBMITTED'
+  | 'SUBMISSION_REGRADED'
+  | 'LIVE_SHOW_ENDED'
+  | 'BACKUP_EXPORTED'
+  | 'BACKUP_RESTORED';
+
+// One change, who made it and what it looked like before and after. Entries are
+// only ever appended; each one's hash covers the one before it.
+export interface AuditEntry {
+  seq: number; // 1, 2, 3... with no gaps
+  at: number;
+  actor?: string; // Staff username or student code; unset for the server itself or someone not logged in
+  actorRole?: UserRole;
+  action: AuditAction;
+  target?: string; // Id of what was changed, e.g. a quiz id or student code
+  before?: unknown; // Secrets (password and PIN hashes) are never recorded
+  after?: unknown;
+  prevHash: string;
+  hash: string;
+}
+
+export interface AuditFilter {
+  action?: AuditAction;
+  actor?: string;
+  search?: string; // Matched against the target and details
+  from?: number;
+  to?: number;
+}
+
+export type AuditCheck =
+  | { ok: true; entries: number; headHash: string }
+  | { ok: false; entries: number; brokenAt: number; problem: string };
+
+export interface AuditLogView {
+  entries: AuditEntry[]; // Newest first, filtered
+  total: number; // Entries in the whole log
+  check: AuditCheck; // Of the whole log, not just the filtered entries
+}